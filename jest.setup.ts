@@ -1 +1,7 @@
 import '@testing-library/jest-dom';
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+
+// jsdom ships neither SubtleCrypto nor TextEncoder, which encryption and signing need
+Object.assign(global, { TextEncoder, TextDecoder });
+Object.defineProperty(global, 'crypto', { value: webcrypto, configurable: true });
@@ -29,16 +29,24 @@ const external = [
   'react/jsx-runtime',
   /^react\//,
   /^react-dom\//,
+  /^@testing-library\//,
   'typescript',
   'tslib',
   '@babel/runtime',
 ];
 
 export default {
-  input: 'src/index.ts',
+  // The worker entry must not pull in React, so it is built as its own entry point
+  input: {
+    index: 'src/index.ts',
+    worker: 'src/worker.ts',
+    testing: 'src/testing.tsx',
+  },
   output: [
     {
-      file: 'dist/index.esm.js',
+      dir: 'dist',
+      entryFileNames: '[name].esm.js',
+      chunkFileNames: '[name]-[hash].esm.js',
       format: 'es',
       sourcemap: true,
       globals: {
@@ -51,7 +59,9 @@ export default {
       exports: 'named',
     },
     {
-      file: 'dist/index.cjs.js',
+      dir: 'dist',
+      entryFileNames: '[name].cjs.js',
+      chunkFileNames: '[name]-[hash].cjs.js',
       format: 'cjs',
       sourcemap: true,
       globals: {
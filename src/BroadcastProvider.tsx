@@ -1,33 +1,200 @@
-import React, { createContext, useContext } from 'react';
-import { useBroadcastChannel } from './hooks/useBroadcastChannel';
-import { BroadcastActions, BroadcastOptions } from './types/types';
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  BroadcastTransportContext,
+  useBroadcastActions,
+  useSyncExternalStore,
+  withContextTransport,
+} from './hooks/useBroadcastClient';
+import { createBroadcastClient } from './utils/broadcastClient';
+import {
+  BroadcastActions,
+  BroadcastClient,
+  BroadcastClientSnapshot,
+  BroadcastOptions,
+  DefaultMessageMap,
+  MessageMap,
+  NoInferMap,
+} from './types/types';
 
-const BroadcastChannelContext = createContext<BroadcastActions | undefined>(undefined);
+interface BroadcastContextValue {
+  /** Channel used when a consumer doesn't name one */
+  defaultChannel?: string;
+  /** Client for a channel; channels that weren't declared are created on first use */
+  getClient: <TMap extends MessageMap>(channelName: string) => BroadcastClient<TMap>;
+}
+
+// The context holds a stable lookup rather than channel state, so consumers re-render from
+// their own subscriptions rather than from the context value
+const BroadcastChannelContext = createContext<BroadcastContextValue | undefined>(undefined);
 
-interface BroadcastProviderProps {
-  channelName: string;
-  options?: BroadcastOptions;
+interface BroadcastProviderProps<TMap extends MessageMap = DefaultMessageMap> {
+  /** A single channel, and the default for consumers that don't name one */
+  channelName?: string;
+  /**
+   * Channels opened with the provider, by name or with options of their own that override
+   * `options`. Other channels open when a consumer first asks for them.
+   */
+  channels?: string[] | Record<string, BroadcastOptions<NoInferMap<TMap>>>;
+  /** Options of `channelName`, and shared defaults for every other channel */
+  options?: BroadcastOptions<NoInferMap<TMap>>;
   children: React.ReactNode;
 }
 
-export const BroadcastProvider: React.FC<BroadcastProviderProps> = ({
+// Clients of a provider by channel name, each created on first use with the latest options
+const createProviderClients = <TMap extends MessageMap>(
+  getOptions: (channelName: string) => BroadcastOptions<NoInferMap<TMap>>
+) => {
+  const clients = new Map<string, BroadcastClient<TMap>>();
+
+  // Consumers of a channel share its client, and each reads it with the message map it
+  // declares; the map types what a consumer sends and reads, not the client
+  function getClient<TConsumerMap extends MessageMap>(
+    channelName: string
+  ): BroadcastClient<TConsumerMap>;
+  function getClient(channelName: string): BroadcastClient<TMap> {
+    let client = clients.get(channelName);
+    if (!client) {
+      client = createBroadcastClient<TMap>(channelName, getOptions(channelName), {
+        entry: 'provider',
+      });
+      clients.set(channelName, client);
+    }
+    return client;
+  }
+
+  return { clients, getClient };
+};
+
+export const BroadcastProvider = <TMap extends MessageMap = DefaultMessageMap>({
   children,
   channelName,
-  options,
-}) => {
-  const BroadcastChannelActions = useBroadcastChannel(channelName, options, 'provider');
+  channels,
+  options = {},
+}: BroadcastProviderProps<TMap>) => {
+  const declared: Record<string, BroadcastOptions<NoInferMap<TMap>>> = {};
+  if (channelName !== undefined) declared[channelName] = options;
+  if (Array.isArray(channels)) {
+    channels.forEach(name => {
+      declared[name] = options;
+    });
+  } else if (channels) {
+    Object.keys(channels).forEach(name => {
+      declared[name] = { ...options, ...channels[name] };
+    });
+  }
+  const declaredNames = Object.keys(declared);
+  const contextTransport = useContext(BroadcastTransportContext);
+  const optionsOf = (name: string) =>
+    withContextTransport(declared[name] ?? options, contextTransport);
+  const defaultChannel = channelName ?? declaredNames[0];
+
+  // Clients live as long as the provider; the latest options are read when one is created
+  const optionsOfRef = useRef(optionsOf);
+  optionsOfRef.current = optionsOf;
+  const [{ clients, getClient }] = useState(() =>
+    createProviderClients<TMap>(name => optionsOfRef.current(name))
+  );
+  // Keep callbacks and filters current without reconnecting
+  clients.forEach((client, name) => client.setOptions(optionsOf(name)));
+
+  // Declared channels that are open, so a change of the list only opens and closes the
+  // channels that were added or removed
+  const opened = useRef(new Set<string>());
+  const declaredKey = declaredNames.join('\n');
+  useEffect(() => {
+    const names = new Set(declaredKey ? declaredKey.split('\n') : []);
+    // Channels that are no longer declared close; they reopen if declared again
+    opened.current.forEach(name => {
+      if (!names.has(name)) clients.get(name)?.disconnect();
+    });
+    names.forEach(name => getClient(name).connect());
+    opened.current = names;
+  }, [declaredKey, getClient, clients]);
+
+  // Every channel closes with the provider, including those opened on first use
+  useEffect(
+    () => () => {
+      clients.forEach(client => client.disconnect());
+      opened.current = new Set();
+    },
+    [clients]
+  );
+
+  const context = useMemo(() => ({ defaultChannel, getClient }), [defaultChannel, getClient]);
 
   return (
-    <BroadcastChannelContext.Provider value={BroadcastChannelActions}>
-      {children}
-    </BroadcastChannelContext.Provider>
+    <BroadcastChannelContext.Provider value={context}>{children}</BroadcastChannelContext.Provider>
   );
 };
 
-export const useBroadcastProvider = (): BroadcastActions => {
+const useProviderClient = <TMap extends MessageMap>(
+  hook: string,
+  channelName?: string
+): BroadcastClient<TMap> => {
   const context = useContext(BroadcastChannelContext);
   if (!context) {
-    throw new Error('useBroadcastProvider must be used within a BroadcastProvider');
+    throw new Error(`${hook} must be used within a BroadcastProvider`);
   }
-  return context;
+  const name = channelName ?? context.defaultChannel;
+  if (name === undefined) {
+    throw new Error(`${hook} needs a channel name, since the BroadcastProvider declares none`);
+  }
+  const client = context.getClient<TMap>(name);
+  // Channels that weren't declared open on first use; connecting again is a no-op
+  useEffect(() => {
+    client.connect();
+  }, [client]);
+  return client;
+};
+
+/**
+ * Read a channel of the nearest BroadcastProvider; without a name, its `channelName` or
+ * first declared channel
+ */
+export const useBroadcastProvider = <TMap extends MessageMap = DefaultMessageMap>(
+  channelName?: string
+): BroadcastActions<TMap> =>
+  useBroadcastActions(useProviderClient<TMap>('useBroadcastProvider', channelName));
+
+/**
+ * Subscribe to a slice of the nearest BroadcastProvider's state.
+ *
+ * The component only re-renders when `equalityFn` (default: `Object.is`) reports that the
+ * selected value changed, e.g. when a new message of the one type it shows arrives rather
+ * than on every message of the channel. Pass `channelName` to read a channel other than the
+ * provider's default.
+ */
+export const useBroadcastSelector = <
+  TMap extends MessageMap = DefaultMessageMap,
+  TSelected = unknown,
+>(
+  selector: (state: BroadcastClientSnapshot<TMap>) => TSelected,
+  equalityFn: (a: TSelected, b: TSelected) => boolean = Object.is,
+  channelName?: string
+): TSelected => {
+  const client = useProviderClient<TMap>('useBroadcastSelector', channelName);
+  // The last rendered selection, kept across selector changes so inline selectors don't
+  // cause re-renders when the result is equal
+  const lastSelection = useRef<{ value: TSelected } | null>(null);
+
+  const getSelection = useMemo(() => {
+    let memo: { snapshot: BroadcastClientSnapshot<TMap>; selection: TSelected } | null = null;
+    return () => {
+      const snapshot = client.getSnapshot();
+      if (memo && memo.snapshot === snapshot) return memo.selection;
+
+      const next = selector(snapshot);
+      const last = lastSelection.current;
+      const selection = last && equalityFn(last.value, next) ? last.value : next;
+      memo = { snapshot, selection };
+      return selection;
+    };
+  }, [client, selector, equalityFn]);
+
+  const selection = useSyncExternalStore(client.subscribe, getSelection);
+  useEffect(() => {
+    lastSelection.current = { value: selection };
+  }, [selection]);
+
+  return selection;
 };
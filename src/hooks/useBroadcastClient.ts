@@ -0,0 +1,147 @@
+import * as React from 'react';
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import {
+  BroadcastActions,
+  BroadcastClient,
+  BroadcastOptions,
+  DefaultMessageMap,
+  MessageMap,
+  NoInferMap,
+  TransportFactory,
+  TransportOption,
+} from '../types/types';
+import { generateSourceName } from '../utils/messageUtils';
+import { createBroadcastClient } from '../utils/broadcastClient';
+
+type UseSyncExternalStore = <T>(
+  subscribe: (listener: () => void) => () => void,
+  getSnapshot: () => T
+) => T;
+
+// React 18 ships useSyncExternalStore; older versions re-render from a subscription effect
+const useSyncExternalStoreFallback: UseSyncExternalStore = (subscribe, getSnapshot) => {
+  const value = getSnapshot();
+  const [, forceRender] = useState(0);
+  useEffect(() => {
+    let current = value;
+    const check = () => {
+      const next = getSnapshot();
+      if (Object.is(current, next)) return;
+      current = next;
+      forceRender(count => count + 1);
+    };
+    check();
+    return subscribe(check);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [subscribe, getSnapshot]);
+  return value;
+};
+
+export const useSyncExternalStore: UseSyncExternalStore =
+  (React as { useSyncExternalStore?: UseSyncExternalStore }).useSyncExternalStore ??
+  useSyncExternalStoreFallback;
+
+let flushSyncFn: undefined | ((cb: () => void) => void) = undefined;
+if (process.env.NODE_ENV === 'test') {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    flushSyncFn = require('react-dom').flushSync;
+  } catch {
+    // ignore error in test env
+  }
+}
+
+/**
+ * @internal Transport for the hooks and providers below it that don't set one; each tab
+ * rendered by `renderWithBroadcastTabs` gets its own, so its channels are its own
+ */
+export const BroadcastTransportContext = createContext<TransportFactory | undefined>(undefined);
+
+/** Options with the transport of the surrounding BroadcastTransportContext, if any */
+export const withContextTransport = <T extends { transport?: unknown }>(
+  options: T,
+  transport: TransportFactory | undefined
+): T => (transport && options.transport === undefined ? { ...options, transport } : options);
+
+/**
+ * The transport of the first render. Custom transport factories are usually inline
+ * functions, so hooks that open their channel in an effect keep the first one instead of
+ * reopening the channel on every render.
+ */
+export const useInitialTransport = (transport: TransportOption | undefined) =>
+  useRef(transport).current;
+
+/**
+ * Create a broadcast client for the component and keep it connected while mounted.
+ *
+ * The client is created per channel and source; other options are passed to it on
+ * every render, so callbacks and filters stay current without reconnecting.
+ */
+export const useBroadcastClient = <TMap extends MessageMap = DefaultMessageMap>(
+  channelName: string,
+  options: BroadcastOptions<NoInferMap<TMap>>,
+  entry: 'hook' | 'provider'
+): BroadcastClient<TMap> => {
+  const clientOptions = withContextTransport(options, useContext(BroadcastTransportContext));
+  const { sourceName, namespace = '' } = clientOptions;
+  const source = useMemo(() => sourceName || generateSourceName(), [sourceName]);
+
+  const client = useMemo(
+    () => createBroadcastClient<TMap>(channelName, clientOptions, { entry, source }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [channelName, namespace, source]
+  );
+  client.setOptions(clientOptions);
+
+  useEffect(() => {
+    client.connect();
+    return client.disconnect;
+  }, [client]);
+
+  return client;
+};
+
+/**
+ * Read a client's state and actions as BroadcastActions; re-renders on every state change
+ */
+export const useBroadcastActions = <TMap extends MessageMap = DefaultMessageMap>(
+  client: BroadcastClient<TMap>
+): BroadcastActions<TMap> => {
+  const snapshot = useSyncExternalStore(client.subscribe, client.getSnapshot);
+
+  // Render the in-progress state right away, so tests can observe it before the ping resolves
+  const ping = useCallback(
+    (timeoutMs?: number) => {
+      if (!flushSyncFn) return client.ping(timeoutMs);
+      let pinging!: Promise<string[]>;
+      flushSyncFn(() => {
+        pinging = client.ping(timeoutMs);
+      });
+      return pinging;
+    },
+    [client]
+  );
+
+  return {
+    channelName: client.channelName,
+    ...snapshot,
+    ping,
+    request: client.request,
+    handle: client.handle,
+    postMessage: client.postMessage,
+    clearReceivedMessages: client.clearReceivedMessages,
+    clearSentMessages: client.clearSentMessages,
+    getLatestMessage: client.getLatestMessage,
+    closeChannel: client.closeChannel,
+    clearErrors: client.clearErrors,
+    clearFailedMessages: client.clearFailedMessages,
+  };
+};
@@ -0,0 +1,222 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  BroadcastDocumentActions,
+  BroadcastDocumentOptions,
+  BroadcastMessage,
+  InternalMessage,
+} from '../types/types';
+import {
+  generateRandomPart,
+  generateSourceName,
+  getInternalMessageType,
+} from '../utils/messageUtils';
+import {
+  createDocumentReplica,
+  DocumentOperation,
+  DocumentSnapshot,
+  VersionVector,
+} from '../utils/crdt';
+import { useBroadcastChannel } from './useBroadcastChannel';
+
+const DOCUMENT_CHANNEL_PREFIX = '__broadcast-document__';
+
+const DOCUMENT_MESSAGE_TYPES: Record<string, InternalMessage> = {
+  DOC_OPS: 'DOC_OPS',
+  DOC_SYNC_REQUEST: 'DOC_SYNC_REQUEST',
+  DOC_SNAPSHOT: 'DOC_SNAPSHOT',
+  DOC_VERSION: 'DOC_VERSION',
+} as const;
+
+interface PeerState {
+  version: VersionVector;
+  lastSeen: number;
+}
+
+/**
+ * useBroadcastDocument hook
+ *
+ * A document shared by every tab that uses the same name, built on a small CRDT: plain
+ * fields resolve concurrent writes by last writer wins, text fields merge concurrent
+ * edits character by character. A newly opened tab receives a snapshot from its peers;
+ * removed characters are kept as tombstones until every tab has seen the removal.
+ */
+export const useBroadcastDocument = <
+  TFields extends Record<string, unknown> = Record<string, unknown>,
+>(
+  name: string,
+  options: BroadcastDocumentOptions = {}
+): BroadcastDocumentActions<TFields> => {
+  const {
+    sourceName,
+    namespace = '',
+    transport,
+    telemetry,
+    gcIntervalMs = 5000,
+    peerTimeoutMs = 15000,
+  } = options;
+  const channelName = `${DOCUMENT_CHANNEL_PREFIX}:${name}`;
+
+  const source = useMemo(() => sourceName || generateSourceName(), [sourceName]);
+  // Sites are unique per mount, so a reloaded tab never reuses the ids of its earlier edits
+  const site = useMemo(() => `${source}:${generateRandomPart()}`, [source]);
+  const replica = useMemo(() => createDocumentReplica(site), [site]);
+  const documentTypes = useMemo(
+    () => ({
+      DOC_OPS: getInternalMessageType(DOCUMENT_MESSAGE_TYPES.DOC_OPS, channelName, namespace),
+      DOC_SYNC_REQUEST: getInternalMessageType(
+        DOCUMENT_MESSAGE_TYPES.DOC_SYNC_REQUEST,
+        channelName,
+        namespace
+      ),
+      DOC_SNAPSHOT: getInternalMessageType(
+        DOCUMENT_MESSAGE_TYPES.DOC_SNAPSHOT,
+        channelName,
+        namespace
+      ),
+      DOC_VERSION: getInternalMessageType(
+        DOCUMENT_MESSAGE_TYPES.DOC_VERSION,
+        channelName,
+        namespace
+      ),
+    }),
+    [channelName, namespace]
+  );
+
+  const [revision, setRevision] = useState(0);
+  const refresh = useCallback(() => setRevision(current => current + 1), []);
+  const peers = useRef(new Map<string, PeerState>());
+
+  const rememberPeer = useCallback((payload: { site?: unknown; version?: unknown }) => {
+    if (typeof payload.site !== 'string' || !payload.version) return;
+    peers.current.set(payload.site, {
+      version: payload.version as VersionVector,
+      lastSeen: Date.now(),
+    });
+  }, []);
+
+  const postMessageRef = useRef<(type: string, content: unknown) => void>(() => {});
+
+  const { postMessage } = useBroadcastChannel(channelName, {
+    sourceName: source,
+    namespace,
+    transport,
+    telemetry,
+    batchingDelayMs: 0,
+    keepLatestMessage: true,
+    maxSentMessages: 0,
+    registeredTypes: Object.values(documentTypes),
+    onMessage: {
+      [documentTypes.DOC_OPS]: (msg: BroadcastMessage) => {
+        const payload = msg.message;
+        if (!payload || !Array.isArray(payload.ops)) return;
+        rememberPeer(payload);
+        const changed = (payload.ops as DocumentOperation[]).map(op => replica.apply(op));
+        if (changed.some(Boolean)) refresh();
+      },
+      [documentTypes.DOC_SYNC_REQUEST]: (msg: BroadcastMessage) => {
+        const payload = msg.message;
+        if (!payload) return;
+        // The joiner counts as a peer right away, so nothing it may still need is collected
+        rememberPeer(payload);
+        // Tabs that have seen no edits have nothing to contribute
+        if (Object.keys(replica.getVersion()).length === 0) return;
+        postMessageRef.current(documentTypes.DOC_SNAPSHOT, {
+          target: payload.site,
+          site,
+          snapshot: replica.getSnapshot(),
+        });
+      },
+      [documentTypes.DOC_SNAPSHOT]: (msg: BroadcastMessage) => {
+        const payload = msg.message;
+        if (!payload || !payload.snapshot) return;
+        rememberPeer({ site: payload.site, version: payload.snapshot.version });
+        if (payload.target !== site) return;
+        replica.mergeSnapshot(payload.snapshot as DocumentSnapshot);
+        refresh();
+      },
+      [documentTypes.DOC_VERSION]: (msg: BroadcastMessage) => {
+        if (msg.message) rememberPeer(msg.message);
+      },
+    },
+  });
+  postMessageRef.current = postMessage;
+
+  // Ask peers for a snapshot once the channel is open
+  useEffect(() => {
+    postMessageRef.current(documentTypes.DOC_SYNC_REQUEST, {
+      site,
+      version: replica.getVersion(),
+    });
+  }, [documentTypes.DOC_SYNC_REQUEST, site, replica]);
+
+  // Share our version and drop the tombstones every live peer has integrated
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const now = Date.now();
+      peers.current.forEach((peer, peerSite) => {
+        if (now - peer.lastSeen > peerTimeoutMs) peers.current.delete(peerSite);
+      });
+      postMessageRef.current(documentTypes.DOC_VERSION, { site, version: replica.getVersion() });
+      replica.collectGarbage(Array.from(peers.current.values(), peer => peer.version));
+    }, gcIntervalMs);
+
+    return () => clearInterval(interval);
+  }, [documentTypes.DOC_VERSION, site, replica, gcIntervalMs, peerTimeoutMs]);
+
+  const broadcast = useCallback(
+    (ops: (DocumentOperation | null)[]) => {
+      const applied = ops.filter((op): op is DocumentOperation => op !== null);
+      if (applied.length === 0) return;
+      refresh();
+      postMessageRef.current(documentTypes.DOC_OPS, {
+        site,
+        ops: applied,
+        version: replica.getVersion(),
+      });
+    },
+    [documentTypes.DOC_OPS, site, replica, refresh]
+  );
+
+  const setField = useCallback(
+    <K extends keyof TFields & string>(key: K, value: TFields[K]) =>
+      broadcast([replica.setField(key, value)]),
+    [broadcast, replica]
+  );
+
+  const deleteField = useCallback(
+    (key: keyof TFields & string) => broadcast([replica.deleteField(key)]),
+    [broadcast, replica]
+  );
+
+  const insertText = useCallback(
+    (textName: string, index: number, text: string) =>
+      broadcast([replica.insertText(textName, index, text)]),
+    [broadcast, replica]
+  );
+
+  const deleteText = useCallback(
+    (textName: string, index: number, length: number) =>
+      broadcast([replica.deleteText(textName, index, length)]),
+    [broadcast, replica]
+  );
+
+  const setText = useCallback(
+    (textName: string, value: string) => broadcast(replica.replaceText(textName, value)),
+    [broadcast, replica]
+  );
+
+  const fields = useMemo(
+    () => replica.getFields() as Partial<TFields>,
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [replica, revision]
+  );
+  const texts = useMemo(
+    () => replica.getTexts(),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [replica, revision]
+  );
+
+  return { fields, texts, setField, deleteField, insertText, deleteText, setText };
+};
+
+export default useBroadcastDocument;
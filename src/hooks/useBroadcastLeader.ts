@@ -0,0 +1,183 @@
+import { useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  InternalMessage,
+  LeaderCallback,
+  LeaderElectionActions,
+  LeaderElectionOptions,
+} from '../types/types';
+import { generateSourceName, getInternalMessageType } from '../utils/messageUtils';
+import { createLeaderElector } from '../utils/leaderElection';
+import { openProtocolChannel, ProtocolChannel } from '../utils/protocolChannel';
+import { debug } from '../utils/debug';
+import {
+  BroadcastTransportContext,
+  useInitialTransport,
+  withContextTransport,
+} from './useBroadcastClient';
+
+const LEADER_MESSAGE_TYPES: Record<string, InternalMessage> = {
+  LEADER_CLAIM: 'LEADER_CLAIM',
+  LEADER_HEARTBEAT: 'LEADER_HEARTBEAT',
+  LEADER_RESIGN: 'LEADER_RESIGN',
+} as const;
+
+/**
+ * useBroadcastLeader hook
+ *
+ * Elects exactly one leader among the tabs on a channel, e.g. to own a WebSocket or run a
+ * poller. The leader heartbeats; when it closes or stops responding the remaining tabs
+ * elect a new one. Protocol messages use internal types, so they never reach the
+ * `messages` of a useBroadcastChannel instance on the same channel.
+ */
+export const useBroadcastLeader = (
+  channelName: string,
+  options: LeaderElectionOptions = {}
+): LeaderElectionActions => {
+  const {
+    sourceName,
+    namespace = '',
+    transport,
+    heartbeatIntervalMs = 1000,
+    leaderTimeoutMs = 3000,
+    electionTimeoutMs = 300,
+  } = withContextTransport(options, useContext(BroadcastTransportContext));
+
+  const [leaderId, setLeaderId] = useState<string | null>(null);
+  const source = useMemo(() => sourceName || generateSourceName(), [sourceName]);
+  const isLeaderRef = useRef(false);
+  // Registered callbacks mapped to the cleanup returned by their latest run
+  const callbacks = useRef(new Map<LeaderCallback, (() => void) | undefined>());
+
+  const resolvedChannelName = useMemo(() => {
+    return namespace ? `${channelName}-${namespace}` : channelName;
+  }, [channelName, namespace]);
+
+  const runCallback = useCallback(
+    (callback: LeaderCallback) => {
+      try {
+        const cleanup = callback();
+        callbacks.current.set(callback, typeof cleanup === 'function' ? cleanup : undefined);
+      } catch (e) {
+        debug.error({
+          action: 'onBecomeLeader',
+          channelName: resolvedChannelName,
+          originalError: e instanceof Error ? e : String(e),
+        });
+      }
+    },
+    [resolvedChannelName]
+  );
+
+  const runCleanup = useCallback(
+    (callback: LeaderCallback) => {
+      const cleanup = callbacks.current.get(callback);
+      callbacks.current.set(callback, undefined);
+      try {
+        cleanup?.();
+      } catch (e) {
+        debug.error({
+          action: 'onBecomeLeader',
+          channelName: resolvedChannelName,
+          originalError: e instanceof Error ? e : String(e),
+        });
+      }
+    },
+    [resolvedChannelName]
+  );
+
+  const runCallbackRef = useRef(runCallback);
+  runCallbackRef.current = runCallback;
+  const runCleanupRef = useRef(runCleanup);
+  runCleanupRef.current = runCleanup;
+
+  const initialTransport = useInitialTransport(transport);
+
+  useEffect(() => {
+    const types = {
+      CLAIM: getInternalMessageType(LEADER_MESSAGE_TYPES.LEADER_CLAIM, channelName, namespace),
+      HEARTBEAT: getInternalMessageType(
+        LEADER_MESSAGE_TYPES.LEADER_HEARTBEAT,
+        channelName,
+        namespace
+      ),
+      RESIGN: getInternalMessageType(LEADER_MESSAGE_TYPES.LEADER_RESIGN, channelName, namespace),
+    };
+    let channel: ProtocolChannel | null = null;
+    const elector = createLeaderElector({
+      source,
+      types,
+      heartbeatIntervalMs,
+      leaderTimeoutMs,
+      electionTimeoutMs,
+      send: type => channel?.send(type),
+      onLeaderChange: nextLeaderId => {
+        const isLeader = nextLeaderId === source;
+        if (isLeader !== isLeaderRef.current) {
+          isLeaderRef.current = isLeader;
+          callbacks.current.forEach((_, callback) =>
+            isLeader ? runCallbackRef.current(callback) : runCleanupRef.current(callback)
+          );
+        }
+        setLeaderId(nextLeaderId);
+      },
+    });
+
+    channel = openProtocolChannel({
+      channelName: resolvedChannelName,
+      transport: initialTransport,
+      source,
+      types: Object.values(types),
+      action: 'useBroadcastLeader',
+      onMessage: message => elector.handleMessage(message.type, message.source),
+    });
+    if (!channel) return;
+
+    // Resign when the page goes away so the other tabs don't wait out the leader timeout
+    const handlePageHide = () => elector.stop();
+    const handlePageShow = (event: PageTransitionEvent) => {
+      if (event.persisted) elector.start();
+    };
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', handlePageHide);
+      window.addEventListener('pageshow', handlePageShow);
+    }
+
+    elector.start();
+
+    return () => {
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('pagehide', handlePageHide);
+        window.removeEventListener('pageshow', handlePageShow);
+      }
+      elector.stop();
+      channel?.close();
+    };
+  }, [
+    resolvedChannelName,
+    channelName,
+    namespace,
+    source,
+    initialTransport,
+    heartbeatIntervalMs,
+    leaderTimeoutMs,
+    electionTimeoutMs,
+  ]);
+
+  const onBecomeLeader = useCallback((callback: LeaderCallback) => {
+    callbacks.current.set(callback, undefined);
+    if (isLeaderRef.current) runCallbackRef.current(callback);
+
+    return () => {
+      runCleanupRef.current(callback);
+      callbacks.current.delete(callback);
+    };
+  }, []);
+
+  return {
+    isLeader: leaderId !== null && leaderId === source,
+    leaderId,
+    onBecomeLeader,
+  };
+};
+
+export default useBroadcastLeader;
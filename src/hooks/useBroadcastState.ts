@@ -0,0 +1,120 @@
+import { Dispatch, SetStateAction, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { BroadcastMessage, BroadcastStateOptions, InternalMessage } from '../types/types';
+import { generateSourceName, getInternalMessageType } from '../utils/messageUtils';
+import { useBroadcastChannel } from './useBroadcastChannel';
+
+const STATE_CHANNEL_PREFIX = '__broadcast-state__';
+
+const STATE_MESSAGE_TYPES: Record<string, InternalMessage> = {
+  STATE_REQUEST: 'STATE_REQUEST',
+  STATE_UPDATE: 'STATE_UPDATE',
+} as const;
+
+interface StateSnapshot<T> {
+  value: T;
+  /** Last-writer-wins clock; 0 until the value is set locally or received from a peer */
+  updatedAt: number;
+  source: string;
+}
+
+/**
+ * useBroadcastState hook
+ *
+ * Behaves like `useState`, but the value is shared by every tab that uses the same key.
+ * On mount the hook asks peers for their current value, so a newly opened tab is
+ * hydrated without waiting for the next edit. Concurrent writes resolve by last writer
+ * wins, with ties broken by source name.
+ */
+export const useBroadcastState = <T>(
+  key: string,
+  initialValue: T | (() => T),
+  options: BroadcastStateOptions = {}
+): [T, Dispatch<SetStateAction<T>>] => {
+  const { sourceName, namespace = '', transport, telemetry } = options;
+  const channelName = `${STATE_CHANNEL_PREFIX}:${key}`;
+
+  const source = useMemo(() => sourceName || generateSourceName(), [sourceName]);
+  const stateTypes = useMemo(
+    () => ({
+      STATE_REQUEST: getInternalMessageType(
+        STATE_MESSAGE_TYPES.STATE_REQUEST,
+        channelName,
+        namespace
+      ),
+      STATE_UPDATE: getInternalMessageType(
+        STATE_MESSAGE_TYPES.STATE_UPDATE,
+        channelName,
+        namespace
+      ),
+    }),
+    [channelName, namespace]
+  );
+
+  const [value, setValue] = useState<T>(initialValue);
+  const snapshot = useRef<StateSnapshot<T>>({ value, updatedAt: 0, source });
+
+  const applyUpdate = useCallback((msg: BroadcastMessage) => {
+    const payload = msg.message as Partial<StateSnapshot<T>> | null;
+    if (!payload || typeof payload.updatedAt !== 'number') return;
+
+    const current = snapshot.current;
+    const isNewer =
+      payload.updatedAt > current.updatedAt ||
+      (payload.updatedAt === current.updatedAt && msg.source > current.source);
+    if (!isNewer) return;
+
+    snapshot.current = {
+      value: payload.value as T,
+      updatedAt: payload.updatedAt,
+      source: msg.source,
+    };
+    setValue(payload.value as T);
+  }, []);
+
+  const postMessageRef = useRef<(type: string, content: unknown) => void>(() => {});
+
+  const { postMessage } = useBroadcastChannel(channelName, {
+    sourceName: source,
+    namespace,
+    transport,
+    telemetry,
+    batchingDelayMs: 0,
+    keepLatestMessage: true,
+    // Updates are only ever sent, never read back
+    maxSentMessages: 0,
+    registeredTypes: [stateTypes.STATE_REQUEST, stateTypes.STATE_UPDATE],
+    onMessage: {
+      [stateTypes.STATE_UPDATE]: applyUpdate,
+      [stateTypes.STATE_REQUEST]: () => {
+        // Peers that still hold the initial value stay silent so they can't overwrite real state
+        if (snapshot.current.updatedAt === 0) return;
+        const { value, updatedAt } = snapshot.current;
+        postMessageRef.current(stateTypes.STATE_UPDATE, { value, updatedAt });
+      },
+    },
+  });
+  postMessageRef.current = postMessage;
+
+  // Ask peers for the current value once the channel is open
+  useEffect(() => {
+    postMessageRef.current(stateTypes.STATE_REQUEST, null);
+  }, [stateTypes.STATE_REQUEST]);
+
+  const setState = useCallback<Dispatch<SetStateAction<T>>>(
+    next => {
+      const current = snapshot.current;
+      const resolved = typeof next === 'function' ? (next as (prev: T) => T)(current.value) : next;
+      // Never move the clock backwards, even if a peer's clock is ahead of ours
+      const updatedAt = Math.max(Date.now(), current.updatedAt + 1);
+
+      snapshot.current = { value: resolved, updatedAt, source };
+      setValue(resolved);
+      postMessageRef.current(stateTypes.STATE_UPDATE, { value: resolved, updatedAt });
+    },
+    [source, stateTypes.STATE_UPDATE]
+  );
+
+  return [value, setState];
+};
+
+export default useBroadcastState;
@@ -0,0 +1,230 @@
+import { useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { InternalMessage, PresenceOptions, PresencePeer, PresenceState } from '../types/types';
+import { generateSourceName, getInternalMessageType } from '../utils/messageUtils';
+import { openProtocolChannel, ProtocolChannel } from '../utils/protocolChannel';
+import { debug } from '../utils/debug';
+import {
+  BroadcastTransportContext,
+  useInitialTransport,
+  withContextTransport,
+} from './useBroadcastClient';
+
+const PRESENCE_MESSAGE_TYPES: Record<string, InternalMessage> = {
+  PRESENCE_JOIN: 'PRESENCE_JOIN',
+  PRESENCE_HEARTBEAT: 'PRESENCE_HEARTBEAT',
+  PRESENCE_LEAVE: 'PRESENCE_LEAVE',
+} as const;
+
+interface PeerEntry<TMetadata> {
+  peer: PresencePeer<TMetadata>;
+  metadataKey: string;
+  lastSeen: number;
+}
+
+const toMetadataKey = (metadata: unknown): string => JSON.stringify(metadata) ?? '';
+
+/**
+ * usePresence hook
+ *
+ * Tracks which other tabs have a channel open. Each tab announces itself on mount,
+ * heartbeats while mounted and says goodbye on unmount or `pagehide`; peers that stop
+ * heartbeating are dropped after `peerTimeoutMs`. Heartbeats only re-render when a peer
+ * joins, leaves or changes its metadata.
+ */
+export const usePresence = <TMetadata = unknown>(
+  channelName: string,
+  options: PresenceOptions<TMetadata> = {}
+): PresenceState<TMetadata> => {
+  const {
+    sourceName,
+    namespace = '',
+    transport,
+    metadata,
+    heartbeatIntervalMs = 2000,
+    peerTimeoutMs = 6000,
+    onJoin,
+    onLeave,
+  } = withContextTransport(options, useContext(BroadcastTransportContext));
+
+  const [peers, setPeers] = useState<PresencePeer<TMetadata>[]>([]);
+  const source = useMemo(() => sourceName || generateSourceName(), [sourceName]);
+
+  const resolvedChannelName = useMemo(() => {
+    return namespace ? `${channelName}-${namespace}` : channelName;
+  }, [channelName, namespace]);
+
+  const metadataRef = useRef(metadata);
+  metadataRef.current = metadata;
+  const onJoinRef = useRef(onJoin);
+  onJoinRef.current = onJoin;
+  const onLeaveRef = useRef(onLeave);
+  onLeaveRef.current = onLeave;
+
+  const initialTransport = useInitialTransport(transport);
+  // Re-announces the current metadata; set while the channel is open
+  const announceRef = useRef<(() => void) | null>(null);
+  const announcedMetadataKeyRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const types = {
+      JOIN: getInternalMessageType(PRESENCE_MESSAGE_TYPES.PRESENCE_JOIN, channelName, namespace),
+      HEARTBEAT: getInternalMessageType(
+        PRESENCE_MESSAGE_TYPES.PRESENCE_HEARTBEAT,
+        channelName,
+        namespace
+      ),
+      LEAVE: getInternalMessageType(PRESENCE_MESSAGE_TYPES.PRESENCE_LEAVE, channelName, namespace),
+    };
+    const entries = new Map<string, PeerEntry<TMetadata>>();
+    let channel: ProtocolChannel | null = null;
+    let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+    const publish = () => setPeers(Array.from(entries.values(), entry => entry.peer));
+
+    const runCallback = (
+      callback: ((peer: PresencePeer<TMetadata>) => void) | undefined,
+      peer: PresencePeer<TMetadata>
+    ) => {
+      try {
+        callback?.(peer);
+      } catch (e) {
+        debug.error({
+          action: 'usePresence',
+          channelName: resolvedChannelName,
+          originalError: e instanceof Error ? e : String(e),
+        });
+      }
+    };
+
+    const send = (type: string) => {
+      announcedMetadataKeyRef.current = toMetadataKey(metadataRef.current);
+      channel?.send(type, { metadata: metadataRef.current ?? null });
+    };
+
+    const upsertPeer = (peerSource: string, peerMetadata: TMetadata) => {
+      const metadataKey = toMetadataKey(peerMetadata);
+      const existing = entries.get(peerSource);
+      if (existing) {
+        existing.lastSeen = Date.now();
+        if (existing.metadataKey !== metadataKey) {
+          existing.metadataKey = metadataKey;
+          existing.peer = { ...existing.peer, metadata: peerMetadata };
+          publish();
+        }
+        return;
+      }
+
+      const now = Date.now();
+      const peer: PresencePeer<TMetadata> = {
+        source: peerSource,
+        metadata: peerMetadata,
+        joinedAt: now,
+      };
+      entries.set(peerSource, { peer, metadataKey, lastSeen: now });
+      publish();
+      runCallback(onJoinRef.current, peer);
+    };
+
+    const removePeer = (peerSource: string) => {
+      const entry = entries.get(peerSource);
+      if (!entry) return;
+      entries.delete(peerSource);
+      publish();
+      runCallback(onLeaveRef.current, entry.peer);
+    };
+
+    const dropStalePeers = () => {
+      const now = Date.now();
+      entries.forEach((entry, peerSource) => {
+        if (now - entry.lastSeen > peerTimeoutMs) removePeer(peerSource);
+      });
+    };
+
+    const join = () => {
+      if (heartbeatTimer) return;
+      heartbeatTimer = setInterval(() => {
+        send(types.HEARTBEAT);
+        dropStalePeers();
+      }, heartbeatIntervalMs);
+      send(types.JOIN);
+    };
+
+    const leave = () => {
+      if (!heartbeatTimer) return;
+      clearInterval(heartbeatTimer);
+      heartbeatTimer = null;
+      send(types.LEAVE);
+      // The peer list is rebuilt from the replies to our next JOIN
+      entries.clear();
+      publish();
+    };
+
+    channel = openProtocolChannel({
+      channelName: resolvedChannelName,
+      transport: initialTransport,
+      source,
+      types: Object.values(types),
+      action: 'usePresence',
+      onMessage: message => {
+        if (!heartbeatTimer) return;
+        const content = message.message as { metadata?: TMetadata } | null;
+        switch (message.type) {
+          case types.JOIN:
+            upsertPeer(message.source, content?.metadata as TMetadata);
+            // Introduce ourselves right away instead of waiting for the next heartbeat
+            send(types.HEARTBEAT);
+            break;
+          case types.HEARTBEAT:
+            upsertPeer(message.source, content?.metadata as TMetadata);
+            break;
+          case types.LEAVE:
+            removePeer(message.source);
+            break;
+        }
+      },
+    });
+    if (!channel) return;
+
+    const handlePageHide = () => leave();
+    const handlePageShow = (event: PageTransitionEvent) => {
+      if (event.persisted) join();
+    };
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', handlePageHide);
+      window.addEventListener('pageshow', handlePageShow);
+    }
+
+    announceRef.current = () => {
+      if (heartbeatTimer) send(types.HEARTBEAT);
+    };
+    join();
+
+    return () => {
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('pagehide', handlePageHide);
+        window.removeEventListener('pageshow', handlePageShow);
+      }
+      announceRef.current = null;
+      leave();
+      channel?.close();
+    };
+  }, [
+    resolvedChannelName,
+    channelName,
+    namespace,
+    source,
+    initialTransport,
+    heartbeatIntervalMs,
+    peerTimeoutMs,
+  ]);
+
+  // Metadata is compared by value so inline objects don't trigger an announcement per render
+  const metadataKey = toMetadataKey(metadata);
+  useEffect(() => {
+    if (announcedMetadataKeyRef.current !== metadataKey) announceRef.current?.();
+  }, [metadataKey]);
+
+  return { peers, self: source };
+};
+
+export default usePresence;
@@ -1,9 +1,61 @@
 export { useBroadcastChannel } from './hooks/useBroadcastChannel';
-export { BroadcastProvider, useBroadcastProvider } from './BroadcastProvider';
+export { useBroadcastState } from './hooks/useBroadcastState';
+export { useBroadcastLeader } from './hooks/useBroadcastLeader';
+export { usePresence } from './hooks/usePresence';
+export { useBroadcastDocument } from './hooks/useBroadcastDocument';
+export { createBroadcastClient } from './utils/broadcastClient';
+export { BroadcastProvider, useBroadcastProvider, useBroadcastSelector } from './BroadcastProvider';
+export { BroadcastRequestError, BroadcastAckError } from './utils/errors';
+export { createBroadcastChannelTransport, createStorageTransport } from './utils/transport';
+export { createWebStoragePersistence, createIndexedDBPersistence } from './utils/persistence';
+export { createSerializer } from './utils/serializer';
 
 export type {
   BroadcastOptions,
+  BroadcastStateOptions,
+  BroadcastDocumentOptions,
+  BroadcastDocumentActions,
+  LeaderElectionOptions,
+  LeaderElectionActions,
+  LeaderCallback,
+  PresenceOptions,
+  PresencePeer,
+  PresenceState,
+  RequestOptions,
+  RequestHandler,
+  BroadcastRequestErrorCode,
+  BroadcastAckErrorCode,
+  BroadcastError,
+  BroadcastErrorCode,
+  ErrorCallback,
+  ErrorRetention,
   SendMessageOptions,
+  SendRetryOptions,
+  SendPolicy,
+  AckSendMessageOptions,
   BroadcastMessage,
   BroadcastActions,
+  BroadcastClient,
+  BroadcastClientEvents,
+  BroadcastClientSnapshot,
+  MessageMap,
+  MessageType,
+  TypedBroadcastMessage,
+  MessageCallback,
+  OnMessageMap,
+  BroadcastTransport,
+  TransportFactory,
+  TransportOption,
+  PersistenceAdapter,
+  PersistenceOption,
+  PersistedMessages,
+  EncryptionOptions,
+  SigningOptions,
+  MessageGap,
+  GapCallback,
+  MessageRelayOptions,
+  MessageRelay,
+  MessageSerializer,
+  SerializerOptions,
+  SerializableClass,
 } from './types/types';
@@ -0,0 +1,83 @@
+/**
+ * Test utilities: `react-broadcast-sync/testing`
+ *
+ * An in-memory BroadcastChannel that behaves like the native one, virtual tabs to post
+ * from, and `renderWithBroadcastTabs` to mount a component in several tabs at once.
+ * Requires `@testing-library/react` for rendering.
+ */
+import { ReactElement, ReactNode } from 'react';
+import { render, RenderOptions, RenderResult } from '@testing-library/react';
+import { BroadcastChannelBus, VirtualTab } from './types/types';
+import { BroadcastTransportContext } from './hooks/useBroadcastClient';
+import { createBroadcastChannelBus } from './utils/channelBus';
+
+export interface RenderWithBroadcastTabsOptions extends Omit<RenderOptions, 'queries'> {
+  /** Number of tabs to mount (default: 2) */
+  tabs?: number;
+
+  /** Bus the tabs are opened on (default: a new one) */
+  bus?: BroadcastChannelBus;
+}
+
+/** A rendered tab; unmounting it closes its channels, like closing the browser tab */
+export interface BroadcastTabRenderResult extends RenderResult {
+  tab: VirtualTab;
+}
+
+export interface RenderWithBroadcastTabsResult {
+  bus: BroadcastChannelBus;
+  tabs: BroadcastTabRenderResult[];
+}
+
+/**
+ * Mount the same UI as several virtual tabs on one in-memory bus.
+ *
+ * Hooks and providers in a tab that don't set a `transport` use the tab's channels, so
+ * tabs only hear each other through the bus, asynchronously. Pass a function to render
+ * something different per tab, e.g. a distinct `sourceName`.
+ */
+export const renderWithBroadcastTabs = (
+  ui: ReactElement | ((tab: VirtualTab, index: number) => ReactElement),
+  {
+    tabs = 2,
+    bus = createBroadcastChannelBus(),
+    ...renderOptions
+  }: RenderWithBroadcastTabsOptions = {}
+): RenderWithBroadcastTabsResult => ({
+  bus,
+  tabs: Array.from({ length: tabs }, (_, index) => {
+    const tab = bus.createTab();
+    const wrap = (element: ReactNode) => (
+      <BroadcastTransportContext.Provider value={tab.transport}>
+        {element}
+      </BroadcastTransportContext.Provider>
+    );
+    // Queries of each tab only see that tab
+    const container = document.body.appendChild(document.createElement('div'));
+    const result = render(wrap(typeof ui === 'function' ? ui(tab, index) : ui), {
+      container,
+      baseElement: container,
+      ...renderOptions,
+    });
+
+    return {
+      ...result,
+      tab,
+      rerender: (element: ReactNode) => result.rerender(wrap(element)),
+      unmount: () => {
+        result.unmount();
+        tab.close();
+      },
+    };
+  }),
+});
+
+export { createBroadcastChannelBus } from './utils/channelBus';
+
+export type {
+  BroadcastChannelBus,
+  BroadcastChannelBusOptions,
+  BusDelivery,
+  TabPostOptions,
+  VirtualTab,
+} from './types/types';
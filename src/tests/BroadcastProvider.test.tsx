@@ -1,33 +1,14 @@
-import { render, screen, act } from '@testing-library/react';
+import { render, screen } from '@testing-library/react';
 import '@testing-library/jest-dom';
-import { BroadcastProvider, useBroadcastProvider } from '../BroadcastProvider';
-
-// Mock BroadcastChannel
-let mockChannels: any[] = [];
-
-class MockBroadcastChannel {
-  name: string;
-  onmessage: ((event: MessageEvent) => void) | null = null;
-  postMessage = jest.fn();
-  close = jest.fn();
-  addEventListener = jest.fn((event: string, callback: (event: MessageEvent) => void) => {
-    if (event === 'message') {
-      this.onmessage = callback;
-    }
-  });
-  removeEventListener = jest.fn();
-
-  constructor(name: string) {
-    this.name = name;
-    mockChannels.push(this);
-  }
+import {
+  BroadcastProvider,
+  useBroadcastProvider,
+  useBroadcastSelector,
+} from '../BroadcastProvider';
+import { BroadcastClientSnapshot } from '../types/types';
+import { installBroadcastChannelBus, openedChannels, postFromOtherTab } from './testUtils';
 
-  simulateMessage(data: any) {
-    if (this.onmessage) {
-      this.onmessage({ data } as MessageEvent);
-    }
-  }
-}
+installBroadcastChannelBus();
 
 // Test component that uses the provider
 const TestComponent = () => {
@@ -48,15 +29,6 @@ const TestComponent = () => {
 };
 
 describe('BroadcastProvider', () => {
-  beforeEach(() => {
-    mockChannels = [];
-    global.BroadcastChannel = MockBroadcastChannel as any;
-  });
-
-  afterEach(() => {
-    jest.clearAllMocks();
-  });
-
   it('creates a broadcast channel with the provided name', () => {
     render(
       <BroadcastProvider channelName="test-channel">
@@ -65,8 +37,8 @@ describe('BroadcastProvider', () => {
     );
 
     // The provider delegates to useBroadcastChannel which creates one channel
-    expect(mockChannels).toHaveLength(1);
-    expect(mockChannels[0].name).toBe('test-channel');
+    expect(openedChannels).toHaveLength(1);
+    expect(openedChannels[0].name).toBe('test-channel');
   });
 
   it('provides context values to children', () => {
@@ -95,9 +67,7 @@ describe('BroadcastProvider', () => {
       timestamp: Date.now(),
     };
 
-    act(() => {
-      mockChannels[0].simulateMessage(message);
-    });
+    postFromOtherTab(openedChannels[0].name, message);
 
     expect(screen.getByTestId('message-test-1')).toHaveTextContent('Hello');
   });
@@ -129,7 +99,7 @@ describe('BroadcastProvider', () => {
 
     unmount();
 
-    expect(mockChannels[0].close).toHaveBeenCalled();
+    expect(openedChannels[0].closed).toBe(true);
   });
 
   it('propagates child component errors (no internal error boundary)', () => {
@@ -158,15 +128,6 @@ describe('BroadcastProvider', () => {
 });
 
 describe('BroadcastProvider options', () => {
-  beforeEach(() => {
-    mockChannels = [];
-    global.BroadcastChannel = MockBroadcastChannel as any;
-  });
-
-  afterEach(() => {
-    jest.clearAllMocks();
-  });
-
   it('works without options prop (backward compatible)', () => {
     render(
       <BroadcastProvider channelName="test-channel">
@@ -174,8 +135,8 @@ describe('BroadcastProvider options', () => {
       </BroadcastProvider>
     );
 
-    expect(mockChannels).toHaveLength(1);
-    expect(mockChannels[0].name).toBe('test-channel');
+    expect(openedChannels).toHaveLength(1);
+    expect(openedChannels[0].name).toBe('test-channel');
     expect(screen.getByTestId('error')).toHaveTextContent('');
   });
 
@@ -186,7 +147,7 @@ describe('BroadcastProvider options', () => {
       </BroadcastProvider>
     );
 
-    expect(mockChannels[0].name).toBe('test-channel-my-ns');
+    expect(openedChannels[0].name).toBe('test-channel-my-ns');
     expect(screen.getByTestId('channel-name')).toHaveTextContent('test-channel-my-ns');
   });
 
@@ -205,9 +166,7 @@ describe('BroadcastProvider options', () => {
       timestamp: Date.now(),
     };
 
-    act(() => {
-      mockChannels[0].simulateMessage(blocked);
-    });
+    postFromOtherTab(openedChannels[0].name, blocked);
 
     expect(screen.queryByTestId('message-blocked-1')).not.toBeInTheDocument();
   });
@@ -227,9 +186,7 @@ describe('BroadcastProvider options', () => {
       timestamp: Date.now(),
     };
 
-    act(() => {
-      mockChannels[0].simulateMessage(accepted);
-    });
+    postFromOtherTab(openedChannels[0].name, accepted);
 
     expect(screen.getByTestId('message-allowed-1')).toHaveTextContent('Should appear');
   });
@@ -251,9 +208,7 @@ describe('BroadcastProvider options', () => {
       timestamp: Date.now(),
     };
 
-    act(() => {
-      mockChannels[0].simulateMessage(msg);
-    });
+    postFromOtherTab(openedChannels[0].name, msg);
 
     expect(onMessage).toHaveBeenCalledTimes(1);
     expect(onMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'cb-1', type: 'any' }));
@@ -272,24 +227,20 @@ describe('BroadcastProvider options', () => {
       </BroadcastProvider>
     );
 
-    act(() => {
-      mockChannels[0].simulateMessage({
-        id: 'foo-1',
-        type: 'foo',
-        message: { text: 'foo' },
-        source: 'other-tab',
-        timestamp: Date.now(),
-      });
+    postFromOtherTab(openedChannels[0].name, {
+      id: 'foo-1',
+      type: 'foo',
+      message: { text: 'foo' },
+      source: 'other-tab',
+      timestamp: Date.now(),
     });
 
-    act(() => {
-      mockChannels[0].simulateMessage({
-        id: 'bar-1',
-        type: 'bar',
-        message: { text: 'bar' },
-        source: 'other-tab',
-        timestamp: Date.now(),
-      });
+    postFromOtherTab(openedChannels[0].name, {
+      id: 'bar-1',
+      type: 'bar',
+      message: { text: 'bar' },
+      source: 'other-tab',
+      timestamp: Date.now(),
     });
 
     expect(onFoo).toHaveBeenCalledTimes(1);
@@ -305,24 +256,20 @@ describe('BroadcastProvider options', () => {
       </BroadcastProvider>
     );
 
-    act(() => {
-      mockChannels[0].simulateMessage({
-        id: 'first-1',
-        type: 'update',
-        message: { text: 'first' },
-        source: 'other-tab',
-        timestamp: Date.now(),
-      });
+    postFromOtherTab(openedChannels[0].name, {
+      id: 'first-1',
+      type: 'update',
+      message: { text: 'first' },
+      source: 'other-tab',
+      timestamp: Date.now(),
     });
 
-    act(() => {
-      mockChannels[0].simulateMessage({
-        id: 'second-1',
-        type: 'update',
-        message: { text: 'second' },
-        source: 'other-tab',
-        timestamp: Date.now() + 1,
-      });
+    postFromOtherTab(openedChannels[0].name, {
+      id: 'second-1',
+      type: 'update',
+      message: { text: 'second' },
+      source: 'other-tab',
+      timestamp: Date.now() + 1,
     });
 
     expect(screen.queryByTestId('message-first-1')).not.toBeInTheDocument();
@@ -341,32 +288,210 @@ describe('BroadcastProvider options', () => {
       </BroadcastProvider>
     );
 
-    expect(mockChannels[0].name).toBe('test-channel-app');
+    expect(openedChannels[0].name).toBe('test-channel-app');
 
-    act(() => {
-      mockChannels[0].simulateMessage({
-        id: 'blocked-2',
-        type: 'other',
-        message: { text: 'filtered' },
-        source: 'other-tab',
-        timestamp: Date.now(),
-      });
+    postFromOtherTab(openedChannels[0].name, {
+      id: 'blocked-2',
+      type: 'other',
+      message: { text: 'filtered' },
+      source: 'other-tab',
+      timestamp: Date.now(),
     });
 
     expect(onMessage).not.toHaveBeenCalled();
     expect(screen.queryByTestId('message-blocked-2')).not.toBeInTheDocument();
 
-    act(() => {
-      mockChannels[0].simulateMessage({
-        id: 'event-1',
-        type: 'event',
-        message: { text: 'ok' },
-        source: 'other-tab',
-        timestamp: Date.now(),
-      });
+    postFromOtherTab(openedChannels[0].name, {
+      id: 'event-1',
+      type: 'event',
+      message: { text: 'ok' },
+      source: 'other-tab',
+      timestamp: Date.now(),
     });
 
     expect(onMessage).toHaveBeenCalledTimes(1);
     expect(screen.getByTestId('message-event-1')).toHaveTextContent('ok');
   });
 });
+
+describe('useBroadcastSelector', () => {
+  const receive = (id: string, type: string, text: string) => {
+    postFromOtherTab(openedChannels[0].name, {
+      id,
+      type,
+      message: { text },
+      source: 'other-tab',
+      timestamp: Date.now(),
+    });
+  };
+
+  const selectLatestAlert = (state: BroadcastClientSnapshot) =>
+    [...state.messages].reverse().find(msg => msg.type === 'alert');
+
+  it('re-renders only when the selected slice changes', () => {
+    let renders = 0;
+    const LatestAlert = () => {
+      const alert = useBroadcastSelector(selectLatestAlert);
+      renders++;
+      return <div data-testid="alert">{alert?.message.text}</div>;
+    };
+
+    render(
+      <BroadcastProvider channelName="test-channel">
+        <LatestAlert />
+        <TestComponent />
+      </BroadcastProvider>
+    );
+    const initialRenders = renders;
+
+    receive('info-1', 'info', 'ignored');
+    receive('info-2', 'info', 'ignored too');
+    expect(renders).toBe(initialRenders);
+    expect(screen.getByTestId('message-info-2')).toHaveTextContent('ignored too');
+
+    receive('alert-1', 'alert', 'Disk full');
+    expect(renders).toBe(initialRenders + 1);
+    expect(screen.getByTestId('alert')).toHaveTextContent('Disk full');
+  });
+
+  it('uses the equality function to compare selections', () => {
+    let renders = 0;
+    const AlertTexts = () => {
+      const texts = useBroadcastSelector(
+        (state: BroadcastClientSnapshot) =>
+          state.messages.filter(msg => msg.type === 'alert').map(msg => msg.message.text),
+        (a, b) => a.join() === b.join()
+      );
+      renders++;
+      return <div data-testid="alerts">{texts.join(', ')}</div>;
+    };
+
+    render(
+      <BroadcastProvider channelName="test-channel">
+        <AlertTexts />
+      </BroadcastProvider>
+    );
+    const initialRenders = renders;
+
+    receive('info-1', 'info', 'ignored');
+    expect(renders).toBe(initialRenders);
+
+    receive('alert-1', 'alert', 'Disk full');
+    expect(renders).toBe(initialRenders + 1);
+    expect(screen.getByTestId('alerts')).toHaveTextContent('Disk full');
+  });
+
+  it('throws when used outside a provider', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const Orphan = () => {
+      useBroadcastSelector(state => state.error);
+      return null;
+    };
+
+    expect(() => render(<Orphan />)).toThrow(
+      'useBroadcastSelector must be used within a BroadcastProvider'
+    );
+    consoleError.mockRestore();
+  });
+});
+
+describe('BroadcastProvider with multiple channels', () => {
+  const ChannelName = ({ name }: { name?: string }) => {
+    const { channelName, messages } = useBroadcastProvider(name);
+    return (
+      <div data-testid={`channel-${name ?? 'default'}`}>
+        {channelName}:{messages.length}
+      </div>
+    );
+  };
+
+  it('opens declared channels with shared and per-channel options', () => {
+    render(
+      <BroadcastProvider
+        channels={{ auth: {}, cart: { namespace: 'shop' } }}
+        options={{ namespace: 'app', telemetry: false }}
+      >
+        <ChannelName />
+        <ChannelName name="cart" />
+      </BroadcastProvider>
+    );
+
+    expect(openedChannels.map(channel => channel.name)).toEqual(['auth-app', 'cart-shop']);
+    expect(screen.getByTestId('channel-default')).toHaveTextContent('auth-app:0');
+    expect(screen.getByTestId('channel-cart')).toHaveTextContent('cart-shop:0');
+  });
+
+  it('keeps the state of each channel separate', () => {
+    render(
+      <BroadcastProvider channels={['auth', 'cart']}>
+        <ChannelName name="auth" />
+        <ChannelName name="cart" />
+      </BroadcastProvider>
+    );
+
+    postFromOtherTab(openedChannels[1].name, {
+      id: 'cart-1',
+      type: 'added',
+      message: { text: 'Socks' },
+      source: 'other-tab',
+      timestamp: Date.now(),
+    });
+
+    expect(screen.getByTestId('channel-auth')).toHaveTextContent('auth:0');
+    expect(screen.getByTestId('channel-cart')).toHaveTextContent('cart:1');
+  });
+
+  it('opens other channels on first use and closes every channel on unmount', () => {
+    const { unmount } = render(
+      <BroadcastProvider channelName="auth">
+        <ChannelName />
+        <ChannelName name="notifications" />
+      </BroadcastProvider>
+    );
+
+    expect(openedChannels.map(channel => channel.name)).toEqual(['auth', 'notifications']);
+    expect(screen.getByTestId('channel-notifications')).toHaveTextContent('notifications:0');
+
+    unmount();
+    openedChannels.forEach(channel => expect(channel.closed).toBe(true));
+  });
+
+  it('only opens and closes the channels added to or removed from the list', () => {
+    const { rerender } = render(
+      <BroadcastProvider channels={['auth']}>
+        <ChannelName name="auth" />
+      </BroadcastProvider>
+    );
+    const [auth] = openedChannels;
+
+    rerender(
+      <BroadcastProvider channels={['auth', 'cart']}>
+        <ChannelName name="auth" />
+      </BroadcastProvider>
+    );
+    expect(openedChannels.map(channel => channel.name)).toEqual(['auth', 'cart']);
+    expect(auth.closed).toBe(false);
+
+    rerender(
+      <BroadcastProvider channels={['cart']}>
+        <ChannelName name="cart" />
+      </BroadcastProvider>
+    );
+    expect(auth.closed).toBe(true);
+    expect(openedChannels[1].closed).toBe(false);
+    expect(openedChannels).toHaveLength(2);
+  });
+
+  it('requires a channel name when the provider declares none', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() =>
+      render(
+        <BroadcastProvider>
+          <ChannelName />
+        </BroadcastProvider>
+      )
+    ).toThrow('useBroadcastProvider needs a channel name');
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,214 @@
+import { renderHook, act } from '@testing-library/react';
+import { useBroadcastChannel } from '../hooks/useBroadcastChannel';
+import { BroadcastAckError } from '../utils/errors';
+import { createMessage, getInternalMessageType } from '../utils/messageUtils';
+import { BroadcastMessage } from '../types/types';
+import { bus, deliver, installBroadcastChannelBus } from './testUtils';
+
+installBroadcastChannelBus();
+
+// A tab that answers pings but never acknowledges anything
+const addSilentPeer = (channelName: string, source: string) => {
+  const peer = new (bus.createTab().BroadcastChannel)(channelName);
+  peer.addEventListener('message', (event: MessageEvent) => {
+    if (event.data.type === getInternalMessageType('PING', channelName)) {
+      peer.postMessage(createMessage(getInternalMessageType('PONG', channelName), null, source));
+    }
+  });
+  return peer;
+};
+
+// How often messages of a type were posted to other tabs
+const countSends = (type: string) =>
+  bus.posted.filter(({ data }) => (data as BroadcastMessage).type === type).length;
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('acknowledged delivery', () => {
+  it('resolves with the sources that acknowledged the message', async () => {
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('session', { sourceName: 'A', batchingDelayMs: 0 })
+    );
+    const { result: tabB } = renderHook(() => useBroadcastChannel('session', { sourceName: 'B' }));
+    renderHook(() => useBroadcastChannel('session', { sourceName: 'C' }));
+
+    let delivery!: Promise<string[]>;
+    act(() => {
+      delivery = sender.current.postMessage('logout', null, { ack: true });
+    });
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+
+    await expect(delivery).resolves.toEqual(['B', 'C']);
+    expect(tabB.current.messages.map(m => m.type)).toEqual(['logout']);
+    expect(sender.current.sentMessages[0].ack).toBe(true);
+  });
+
+  it('resolves with no sources when no other tab is open', async () => {
+    const { result } = renderHook(() => useBroadcastChannel('session', { sourceName: 'A' }));
+
+    let delivery!: Promise<string[]>;
+    act(() => {
+      delivery = result.current.postMessage('logout', null, { ack: true });
+    });
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+
+    await expect(delivery).resolves.toEqual([]);
+  });
+
+  it('resends the message to tabs that did not acknowledge it', async () => {
+    const [tab1, tab2] = [bus.createTab(), bus.createTab()];
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('session', {
+        sourceName: 'A',
+        batchingDelayMs: 0,
+        transport: tab1.transport,
+      })
+    );
+    const { result: tabB } = renderHook(() =>
+      useBroadcastChannel('session', { sourceName: 'B', transport: tab2.transport })
+    );
+
+    // The first delivery to B is lost
+    let dropped = false;
+    bus.setDrop(({ to, data }) => {
+      if (dropped || to !== tab2.id || (data as BroadcastMessage).type !== 'checkout') {
+        return false;
+      }
+      dropped = true;
+      return true;
+    });
+
+    let delivery!: Promise<string[]>;
+    act(() => {
+      delivery = sender.current.postMessage('checkout', { cart: 1 }, { ack: true });
+    });
+    expect(tabB.current.messages).toEqual([]);
+
+    // The resend goes out when the acknowledgement times out
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    deliver();
+    expect(tabB.current.messages.map(m => m.type)).toEqual(['checkout']);
+
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    await expect(delivery).resolves.toEqual(['B']);
+    expect(countSends('checkout')).toBe(2);
+  });
+
+  it('rejects with the tabs that never acknowledged after all retries', async () => {
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('session', { sourceName: 'A', batchingDelayMs: 0 })
+    );
+    renderHook(() => useBroadcastChannel('session', { sourceName: 'B' }));
+    addSilentPeer('session', 'silent');
+
+    let delivery!: Promise<string[]>;
+    act(() => {
+      delivery = sender.current.postMessage('logout', null, {
+        ack: true,
+        ackTimeoutMs: 500,
+        ackRetries: 1,
+      });
+    });
+    const rejection = expect(delivery).rejects.toMatchObject({
+      name: 'BroadcastAckError',
+      code: 'NOT_ACKNOWLEDGED',
+      messageType: 'logout',
+      acknowledged: ['B'],
+      unacknowledged: ['silent'],
+    });
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+
+    await rejection;
+    expect(countSends('logout')).toBe(2);
+  });
+
+  it('does not count tabs that reject the message as acknowledged', async () => {
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('session', { sourceName: 'A', batchingDelayMs: 0 })
+    );
+    const { result: tabB } = renderHook(() =>
+      useBroadcastChannel('session', {
+        sourceName: 'B',
+        validators: { order: payload => typeof payload === 'number' },
+      })
+    );
+
+    let delivery!: Promise<string[]>;
+    act(() => {
+      delivery = sender.current.postMessage('order', 'not a number', {
+        ack: true,
+        ackRetries: 0,
+      });
+    });
+    const rejection = expect(delivery).rejects.toMatchObject({
+      code: 'NOT_ACKNOWLEDGED',
+      acknowledged: [],
+      unacknowledged: ['B'],
+    });
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+
+    await rejection;
+    expect(tabB.current.messages).toEqual([]);
+    expect(tabB.current.invalidMessageCount).toBe(1);
+  });
+
+  it('rejects pending deliveries when the channel closes', async () => {
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('session', { sourceName: 'A', batchingDelayMs: 0 })
+    );
+    addSilentPeer('session', 'silent');
+
+    let delivery!: Promise<string[]>;
+    act(() => {
+      delivery = sender.current.postMessage('logout', null, { ack: true });
+    });
+    // The silent peer answers the ping, so the sender waits for its acknowledgement
+    deliver();
+    act(() => {
+      sender.current.closeChannel();
+    });
+
+    await expect(delivery).rejects.toBeInstanceOf(BroadcastAckError);
+    await expect(delivery).rejects.toMatchObject({
+      code: 'CHANNEL_UNAVAILABLE',
+      unacknowledged: ['silent'],
+    });
+
+    let unavailable!: Promise<string[]>;
+    act(() => {
+      unavailable = sender.current.postMessage('logout', null, { ack: true });
+    });
+    await expect(unavailable).rejects.toMatchObject({ code: 'CHANNEL_UNAVAILABLE' });
+  });
+
+  it('does not acknowledge regular messages', () => {
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('session', { sourceName: 'A', batchingDelayMs: 0 })
+    );
+    renderHook(() => useBroadcastChannel('session', { sourceName: 'B' }));
+
+    act(() => {
+      expect(sender.current.postMessage('note', 'hi')).toBeUndefined();
+    });
+
+    expect(countSends(getInternalMessageType('ACK', 'session'))).toBe(0);
+  });
+});
@@ -0,0 +1,138 @@
+import { createBroadcastClient } from '../utils/broadcastClient';
+import { installBroadcastChannelBus, openedChannels } from './testUtils';
+
+installBroadcastChannelBus();
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('createBroadcastClient', () => {
+  it('does not open the channel until connected', () => {
+    const client = createBroadcastClient('client-channel', { telemetry: false });
+
+    expect(openedChannels).toHaveLength(0);
+    client.connect();
+    client.connect();
+    expect(openedChannels).toHaveLength(1);
+    client.disconnect();
+    expect(openedChannels[0].closed).toBe(true);
+  });
+
+  it('notifies subscribers and message listeners of received messages', () => {
+    const sender = createBroadcastClient('client-channel', {
+      sourceName: 'A',
+      batchingDelayMs: 0,
+      telemetry: false,
+    });
+    const receiver = createBroadcastClient('client-channel', { sourceName: 'B', telemetry: false });
+    sender.connect();
+    receiver.connect();
+
+    const onChange = jest.fn();
+    const onMessage = jest.fn();
+    receiver.subscribe(onChange);
+    const off = receiver.on('message', onMessage);
+    const before = receiver.getSnapshot();
+
+    sender.postMessage('note', 'hello');
+
+    expect(onMessage).toHaveBeenCalledWith(expect.objectContaining({ message: 'hello' }));
+    expect(onChange).toHaveBeenCalled();
+    expect(receiver.getSnapshot()).not.toBe(before);
+    expect(receiver.getSnapshot().messages.map(m => m.message)).toEqual(['hello']);
+    expect(sender.getSnapshot().sentMessages).toHaveLength(1);
+
+    off();
+    sender.postMessage('note', 'again');
+    expect(onMessage).toHaveBeenCalledTimes(1);
+    expect(receiver.getSnapshot().messages).toHaveLength(2);
+    sender.disconnect();
+    receiver.disconnect();
+  });
+
+  it('applies callbacks passed to setOptions without reconnecting', () => {
+    const sender = createBroadcastClient('client-channel', {
+      sourceName: 'A',
+      batchingDelayMs: 0,
+      telemetry: false,
+    });
+    const receiver = createBroadcastClient('client-channel', { sourceName: 'B', telemetry: false });
+    sender.connect();
+    receiver.connect();
+
+    const onMessage = jest.fn();
+    receiver.setOptions({ sourceName: 'B', telemetry: false, onMessage });
+    sender.postMessage('note', 'hello');
+
+    expect(onMessage).toHaveBeenCalledTimes(1);
+    // Both clients still share the tab's one channel
+    expect(openedChannels).toHaveLength(1);
+    sender.disconnect();
+    receiver.disconnect();
+  });
+
+  it('emits invalid messages and errors', () => {
+    const sender = createBroadcastClient('client-channel', {
+      sourceName: 'A',
+      batchingDelayMs: 0,
+      telemetry: false,
+    });
+    const receiver = createBroadcastClient('client-channel', {
+      sourceName: 'B',
+      telemetry: false,
+      validators: { count: (value: unknown) => typeof value === 'number' },
+    });
+    sender.connect();
+    receiver.connect();
+
+    const onInvalid = jest.fn();
+    receiver.on('invalidMessage', onInvalid);
+    sender.postMessage('count', 'three');
+    expect(onInvalid).toHaveBeenCalledWith(
+      expect.objectContaining({ message: expect.objectContaining({ type: 'count' }) })
+    );
+    expect(receiver.getSnapshot().invalidMessageCount).toBe(1);
+
+    const onError = jest.fn();
+    sender.on('error', onError);
+    sender.disconnect();
+    sender.postMessage('count', 1);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: 'UNSUPPORTED',
+        action: 'postMessage',
+        channelName: 'client-channel',
+        messageType: 'count',
+        message: expect.stringContaining('not supported'),
+      })
+    );
+    expect(sender.getSnapshot().error).toEqual(expect.stringContaining('not supported'));
+
+    jest.advanceTimersByTime(3000);
+    expect(sender.getSnapshot().error).toBeNull();
+    receiver.disconnect();
+  });
+
+  it('sends batched messages on disconnect and can connect again', () => {
+    const sender = createBroadcastClient('client-channel', { sourceName: 'A', telemetry: false });
+    const receiver = createBroadcastClient('client-channel', { sourceName: 'B', telemetry: false });
+    sender.connect();
+    receiver.connect();
+
+    sender.postMessage('note', 'queued');
+    sender.disconnect();
+    expect(receiver.getSnapshot().messages.map(m => m.message)).toEqual(['queued']);
+
+    sender.connect();
+    sender.postMessage('note', 'reconnected');
+    jest.advanceTimersByTime(20);
+    expect(receiver.getSnapshot().messages.map(m => m.message)).toEqual(['queued', 'reconnected']);
+    sender.disconnect();
+    receiver.disconnect();
+  });
+});
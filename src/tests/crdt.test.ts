@@ -0,0 +1,231 @@
+import { createDocumentReplica, DocumentOperation, DocumentReplica } from '../utils/crdt';
+
+// Deterministic shuffle so the convergence test explores many orders reproducibly
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+// Interleave the operation logs of several sites, keeping each site's own order
+const interleave = (logs: DocumentOperation[][], random: () => number) => {
+  const queues = logs.map(log => [...log]);
+  const result: DocumentOperation[] = [];
+  while (queues.some(queue => queue.length > 0)) {
+    const candidates = queues.filter(queue => queue.length > 0);
+    result.push(candidates[Math.floor(random() * candidates.length)].shift()!);
+  }
+  return result;
+};
+
+const deliver = (replica: DocumentReplica, ops: DocumentOperation[]) =>
+  ops.forEach(op => replica.apply(op));
+
+describe('createDocumentReplica', () => {
+  it('keeps the field written last and ignores stale writes', () => {
+    const a = createDocumentReplica('a');
+    const b = createDocumentReplica('b');
+
+    const first = a.setField('title', 'first');
+    b.apply(first);
+    const second = b.setField('title', 'second');
+    a.apply(second);
+    // Re-delivering the older write changes nothing
+    expect(a.apply(first)).toBe(false);
+
+    expect(a.getFields()).toEqual({ title: 'second' });
+    expect(b.getFields()).toEqual({ title: 'second' });
+  });
+
+  it('breaks ties between concurrent field writes by site', () => {
+    const a = createDocumentReplica('a');
+    const b = createDocumentReplica('b');
+
+    const fromA = a.setField('color', 'red');
+    const fromB = b.setField('color', 'blue');
+    a.apply(fromB);
+    b.apply(fromA);
+
+    expect(a.getFields()).toEqual({ color: 'blue' });
+    expect(b.getFields()).toEqual({ color: 'blue' });
+  });
+
+  it('deletes fields', () => {
+    const a = createDocumentReplica('a');
+    a.setField('title', 'draft');
+    a.deleteField('title');
+
+    expect(a.getFields()).toEqual({});
+    expect(a.getTombstoneCount()).toBe(1);
+  });
+
+  it('edits text locally', () => {
+    const a = createDocumentReplica('a');
+    a.insertText('body', 0, 'hello');
+    a.insertText('body', 5, ' world');
+    a.deleteText('body', 0, 1);
+    a.insertText('body', 0, 'H');
+
+    expect(a.getTexts()).toEqual({ body: 'Hello world' });
+  });
+
+  it('merges concurrent insertions at the same position', () => {
+    const a = createDocumentReplica('a');
+    const b = createDocumentReplica('b');
+    const base = a.insertText('body', 0, 'ac')!;
+    b.apply(base);
+
+    const fromA = a.insertText('body', 1, 'X')!;
+    const fromB = b.insertText('body', 1, 'Y')!;
+    a.apply(fromB);
+    b.apply(fromA);
+
+    expect(a.getTexts().body).toBe(b.getTexts().body);
+    expect(a.getTexts().body).toMatch(/^a(XY|YX)c$/);
+  });
+
+  it('computes a minimal change for replaceText', () => {
+    const a = createDocumentReplica('a');
+    a.replaceText('body', 'hello world');
+    const ops = a.replaceText('body', 'hello brave world');
+
+    expect(ops).toHaveLength(1);
+    expect(ops[0]).toMatchObject({ kind: 'insert', value: 'brave ' });
+    expect(a.getTexts().body).toBe('hello brave world');
+    expect(a.replaceText('body', 'hello brave world')).toEqual([]);
+  });
+
+  it('holds operations until the elements they reference arrive', () => {
+    const a = createDocumentReplica('a');
+    const b = createDocumentReplica('b');
+    const c = createDocumentReplica('c');
+
+    const base = a.insertText('body', 0, 'abc')!;
+    b.apply(base);
+    const removal = b.deleteText('body', 1, 1)!;
+
+    // c hears about b's removal before a's insertion
+    expect(c.apply(removal)).toBe(false);
+    expect(c.apply(base)).toBe(true);
+
+    expect(c.getTexts().body).toBe('ac');
+  });
+
+  it('converges regardless of delivery order', () => {
+    for (let seed = 1; seed <= 25; seed++) {
+      const random = createRandom(seed);
+      const sites = ['a', 'b', 'c'].map(site => createDocumentReplica(site));
+      const logs: DocumentOperation[][] = sites.map(() => []);
+
+      // Each site edits on top of whatever it has seen, sharing some operations midway
+      for (let round = 0; round < 3; round++) {
+        sites.forEach((replica, i) => {
+          const text = replica.getTexts().body ?? '';
+          const position = Math.floor(random() * (text.length + 1));
+          const op =
+            text.length > 0 && random() < 0.4
+              ? replica.deleteText('body', position, 2)
+              : replica.insertText('body', position, `${'abc'[i]}${round}`);
+          if (op) logs[i].push(op);
+          logs[i].push(replica.setField('last', `${i}:${round}`));
+        });
+        const shared = interleave(logs, random);
+        sites.forEach(replica => deliver(replica, shared.slice(0, Math.floor(shared.length / 2))));
+      }
+
+      sites.forEach(replica => deliver(replica, interleave(logs, random)));
+      const [first, ...rest] = sites.map(replica => replica.getSnapshot());
+      rest.forEach(snapshot => {
+        expect(snapshot.version).toEqual(first.version);
+      });
+      const texts = sites.map(replica => replica.getTexts());
+      const fields = sites.map(replica => replica.getFields());
+      expect(new Set(texts.map(text => JSON.stringify(text))).size).toBe(1);
+      expect(new Set(fields.map(field => JSON.stringify(field))).size).toBe(1);
+    }
+  });
+
+  it('brings a late replica up to date from a snapshot', () => {
+    const a = createDocumentReplica('a');
+    a.setField('title', 'notes');
+    a.insertText('body', 0, 'hello');
+    a.deleteText('body', 0, 1);
+
+    const late = createDocumentReplica('late');
+    late.mergeSnapshot(a.getSnapshot());
+    expect(late.getFields()).toEqual({ title: 'notes' });
+    expect(late.getTexts()).toEqual({ body: 'ello' });
+    expect(late.getVersion()).toEqual(a.getVersion());
+
+    // Operations already covered by the snapshot are ignored
+    const next = late.insertText('body', 4, '!')!;
+    a.apply(next);
+    expect(a.getTexts().body).toBe('ello!');
+  });
+
+  it('collects tombstones only once every peer has seen the removal', () => {
+    const a = createDocumentReplica('a');
+    const b = createDocumentReplica('b');
+    b.apply(a.insertText('body', 0, 'abc')!);
+    const removal = a.deleteText('body', 0, 2)!;
+
+    expect(a.collectGarbage([b.getVersion()])).toBe(0);
+    expect(a.getTombstoneCount()).toBe(2);
+
+    b.apply(removal);
+    expect(a.collectGarbage([b.getVersion()])).toBe(2);
+    expect(a.getTombstoneCount()).toBe(0);
+    expect(a.getTexts().body).toBe('c');
+
+    // A snapshot taken after collection still merges cleanly into a new replica
+    const late = createDocumentReplica('late');
+    late.mergeSnapshot(a.getSnapshot());
+    late.insertText('body', 0, 'x');
+    expect(late.getTexts().body).toBe('xc');
+  });
+
+  it('collects nothing while no peer is known, so concurrent insertions still converge', () => {
+    const a = createDocumentReplica('a');
+    const b = createDocumentReplica('b');
+    b.apply(a.insertText('body', 0, 'abc')!);
+
+    const removal = a.deleteText('body', 1, 1)!;
+    const insertion = b.insertText('body', 2, 'X')!;
+
+    expect(a.collectGarbage([])).toBe(0);
+    expect(a.apply(insertion)).toBe(true);
+    b.apply(removal);
+
+    expect(a.getTexts().body).toBe('aXc');
+    expect(b.getTexts().body).toBe('aXc');
+  });
+
+  it('keeps tombstones that waiting operations or unseen insertions point at', () => {
+    const a = createDocumentReplica('a');
+    const b = createDocumentReplica('b');
+    const c = createDocumentReplica('c');
+    const d = createDocumentReplica('d');
+    const base = a.insertText('body', 0, 'abc')!;
+    [b, c, d].forEach(replica => replica.apply(base));
+    const extra = d.insertText('body', 3, 'Q')!;
+    [a, b].forEach(replica => replica.apply(extra));
+
+    const first = b.insertText('body', 4, 'Y')!;
+    const second = b.insertText('body', 2, 'X')!;
+    const removal = a.deleteText('body', 1, 1)!;
+    [b, c].forEach(replica => replica.apply(removal));
+    [first, second].forEach(op => a.apply(op));
+
+    // c waits for d's 'Q' to apply b's first insertion, and the second one, after 'b', with it
+    expect(c.apply(first)).toBe(false);
+    expect(c.apply(second)).toBe(false);
+    expect(c.collectGarbage([a.getVersion(), b.getVersion()])).toBe(0);
+    // a has b's insertion after 'b', but c has not integrated it yet
+    expect(a.collectGarbage([b.getVersion(), c.getVersion()])).toBe(0);
+
+    expect(c.apply(extra)).toBe(true);
+    expect(c.getTexts().body).toBe('aXcQY');
+    expect(a.getTexts().body).toBe('aXcQY');
+    expect(a.collectGarbage([b.getVersion(), c.getVersion()])).toBe(1);
+    expect(c.collectGarbage([a.getVersion(), b.getVersion()])).toBe(1);
+  });
+});
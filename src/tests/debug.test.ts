@@ -112,6 +112,51 @@ describe('debug', () => {
         'Duplicate message ignored:',
         '123'
       );
+
+      debug.message.invalid('123', 'Validator returned false');
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}.\d{3}Z\] \[react-broadcast-sync\]/
+        ),
+        'Invalid message rejected:',
+        { messageId: '123', reason: 'Validator returned false' }
+      );
+
+      debug.message.decryptionFailed('123', 'Message failed authentication');
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}.\d{3}Z\] \[react-broadcast-sync\]/
+        ),
+        'Encrypted message dropped:',
+        { messageId: '123', reason: 'Message failed authentication' }
+      );
+
+      debug.message.unverified('123', 'Message is not signed');
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}.\d{3}Z\] \[react-broadcast-sync\]/
+        ),
+        'Unverified message dropped:',
+        { messageId: '123', reason: 'Message is not signed' }
+      );
+
+      debug.message.late('123');
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}.\d{3}Z\] \[react-broadcast-sync\]/
+        ),
+        'Late message dropped:',
+        '123'
+      );
+
+      debug.message.gap('tab-1', 2, 3);
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /\[\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}.\d{3}Z\] \[react-broadcast-sync\]/
+        ),
+        'Missing messages skipped:',
+        { source: 'tab-1', from: 2, to: 3 }
+      );
     });
 
     it('logs cleanup events', () => {
@@ -0,0 +1,196 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { webcrypto } from 'crypto';
+import { useBroadcastChannel } from '../hooks/useBroadcastChannel';
+import { createMessage } from '../utils/messageUtils';
+import { decryptMessage, encryptMessage } from '../utils/encryption';
+import { BroadcastMessage } from '../types/types';
+import { bus, installBroadcastChannelBus } from './testUtils';
+
+installBroadcastChannelBus();
+
+const generateKey = () =>
+  webcrypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+    'encrypt',
+    'decrypt',
+  ]) as Promise<CryptoKey>;
+
+let key: CryptoKey;
+
+beforeAll(async () => {
+  key = await generateKey();
+});
+
+describe('encryptMessage / decryptMessage', () => {
+  it('round-trips content and hides it on the wire', async () => {
+    const message = createMessage('token', { secret: 'abc' }, 'A');
+
+    const encrypted = await encryptMessage(message, key);
+
+    expect(JSON.stringify(encrypted)).not.toContain('abc');
+    expect(encrypted.id).toBe(message.id);
+    expect(await decryptMessage(encrypted, key)).toEqual(message);
+  });
+
+  it('rejects messages encrypted with another key', async () => {
+    const encrypted = await encryptMessage(createMessage('token', 'x', 'A'), key);
+
+    await expect(decryptMessage(encrypted, await generateKey())).rejects.toThrow(
+      'Message failed authentication'
+    );
+  });
+
+  it('rejects messages whose envelope was tampered with', async () => {
+    const encrypted = await encryptMessage(createMessage('token', 'x', 'A'), key);
+
+    await expect(decryptMessage({ ...encrypted, source: 'B' }, key)).rejects.toThrow(
+      'Message failed authentication'
+    );
+  });
+
+  it('rejects plaintext messages', async () => {
+    await expect(decryptMessage(createMessage('token', 'x', 'A'), key)).rejects.toThrow(
+      'Message is not encrypted'
+    );
+  });
+});
+
+describe('useBroadcastChannel encryption', () => {
+  it('delivers decrypted messages while only ciphertext crosses the channel', async () => {
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('secure', { sourceName: 'A', batchingDelayMs: 0, encryption: { key } })
+    );
+    const { result: receiver } = renderHook(() =>
+      useBroadcastChannel('secure', { sourceName: 'B', encryption: { key } })
+    );
+
+    act(() => {
+      sender.current.postMessage('token', { accessToken: 'secret-token' });
+    });
+
+    await waitFor(() => expect(receiver.current.messages).toHaveLength(1));
+    expect(receiver.current.messages[0].message).toEqual({ accessToken: 'secret-token' });
+    expect(sender.current.sentMessages[0].message).toEqual({ accessToken: 'secret-token' });
+    expect(JSON.stringify(bus.posted.map(entry => entry.data))).not.toContain('secret-token');
+  });
+
+  it('encrypts batches and keeps their order', async () => {
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('secure', { sourceName: 'A', batchingDelayMs: 10, encryption: { key } })
+    );
+    const { result: receiver } = renderHook(() =>
+      useBroadcastChannel('secure', { sourceName: 'B', encryption: { key } })
+    );
+
+    act(() => {
+      sender.current.postMessage('step', 'one');
+      sender.current.postMessage('step', 'two');
+      sender.current.postMessage('step', 'three');
+    });
+
+    await waitFor(() => expect(receiver.current.messages).toHaveLength(3));
+    expect(receiver.current.messages.map(m => m.message)).toEqual(['one', 'two', 'three']);
+    const [{ data: batch }] = bus.posted;
+    expect(Array.isArray(batch)).toBe(true);
+    expect(JSON.stringify(batch)).not.toContain('two');
+  });
+
+  it('accepts a key promise', async () => {
+    const keyPromise = Promise.resolve(key);
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('secure', {
+        sourceName: 'A',
+        batchingDelayMs: 0,
+        encryption: { key: keyPromise },
+      })
+    );
+    const { result: receiver } = renderHook(() =>
+      useBroadcastChannel('secure', { sourceName: 'B', encryption: { key: keyPromise } })
+    );
+
+    act(() => {
+      sender.current.postMessage('token', 'x');
+    });
+
+    await waitFor(() => expect(receiver.current.messages).toHaveLength(1));
+  });
+
+  it('drops and reports messages that fail authentication', async () => {
+    const onInvalidMessage = jest.fn();
+    const otherKey = await generateKey();
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('secure', {
+        sourceName: 'A',
+        batchingDelayMs: 0,
+        encryption: { key: otherKey },
+      })
+    );
+    const { result: receiver } = renderHook(() =>
+      useBroadcastChannel('secure', {
+        sourceName: 'B',
+        encryption: { key },
+        onInvalidMessage,
+      })
+    );
+
+    act(() => {
+      sender.current.postMessage('token', 'x');
+    });
+
+    await waitFor(() => expect(receiver.current.invalidMessageCount).toBe(1));
+    expect(receiver.current.messages).toEqual([]);
+    expect(onInvalidMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'token', source: 'A' }),
+      expect.objectContaining({ message: 'Message failed authentication' })
+    );
+  });
+
+  it('drops plaintext messages on an encrypted channel', async () => {
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('secure', { sourceName: 'A', batchingDelayMs: 0 })
+    );
+    const { result: receiver } = renderHook(() =>
+      useBroadcastChannel('secure', { sourceName: 'B', encryption: { key } })
+    );
+
+    act(() => {
+      sender.current.postMessage('token', 'x');
+    });
+
+    await waitFor(() => expect(receiver.current.invalidMessageCount).toBe(1));
+    expect(receiver.current.messages).toEqual([]);
+  });
+
+  it('encrypts internal messages too, so ping keeps working', async () => {
+    const { result: tabA } = renderHook(() =>
+      useBroadcastChannel('secure', { sourceName: 'A', encryption: { key } })
+    );
+    renderHook(() => useBroadcastChannel('secure', { sourceName: 'B', encryption: { key } }));
+
+    let sources: string[] = [];
+    await act(async () => {
+      sources = await tabA.current.ping(100);
+    });
+
+    expect(sources).toEqual(['B']);
+    const ping = bus.posted[0].data as BroadcastMessage;
+    expect(ping.message).toEqual({ iv: expect.any(String), ciphertext: expect.any(String) });
+  });
+
+  it('reports an error when encryption fails', async () => {
+    const decryptOnly = (await webcrypto.subtle.generateKey(
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['decrypt']
+    )) as CryptoKey;
+    const { result } = renderHook(() =>
+      useBroadcastChannel('secure', { batchingDelayMs: 0, encryption: { key: decryptOnly } })
+    );
+
+    act(() => {
+      result.current.postMessage('token', 'x');
+    });
+
+    await waitFor(() => expect(result.current.error).toBe('Failed to encrypt message'));
+    expect(bus.posted).toEqual([]);
+  });
+});
@@ -0,0 +1,233 @@
+import { renderHook, act, cleanup } from '@testing-library/react';
+import { useBroadcastChannel } from '../hooks/useBroadcastChannel';
+import { createBroadcastClient } from '../utils/broadcastClient';
+import { createSerializer } from '../utils/serializer';
+import { BroadcastError, BroadcastTransport, PersistenceAdapter } from '../types/types';
+
+const failure = new Error('DataCloneError: port closed');
+
+// A transport whose sends throw, so every postMessage reports an error
+const failingTransport = (): BroadcastTransport => ({
+  postMessage: () => {
+    throw failure;
+  },
+  subscribe: () => () => {},
+  close: () => {},
+});
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  // Unmount while the fake timers are installed, so shared cleaning timers are cleared
+  cleanup();
+  jest.useRealTimers();
+});
+
+describe('typed errors', () => {
+  it('passes the code, action, message type and cause to onError', () => {
+    const onError = jest.fn();
+    const { result } = renderHook(() =>
+      useBroadcastChannel('errors', {
+        namespace: 'app',
+        batchingDelayMs: 0,
+        transport: failingTransport,
+        onError,
+        telemetry: false,
+      })
+    );
+
+    act(() => {
+      result.current.postMessage('save', { id: 1 });
+    });
+
+    const expected: Partial<BroadcastError> = {
+      code: 'SEND_FAILED',
+      action: 'postMessage',
+      channelName: 'errors-app',
+      messageType: 'save',
+      message: 'Failed to send message',
+      cause: failure,
+    };
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining(expected));
+    expect(result.current.errors).toEqual([expect.objectContaining(expected)]);
+    expect(result.current.error).toBe('Failed to send message');
+  });
+
+  it('reports content that cannot be sent as NOT_CLONEABLE', () => {
+    const onError = jest.fn();
+    const client = createBroadcastClient('errors', {
+      transport: failingTransport,
+      onError,
+      telemetry: false,
+    });
+    client.connect();
+
+    client.postMessage('save', { onSave: () => {} });
+
+    const [error] = onError.mock.calls[0] as [BroadcastError];
+    expect(error.code).toBe('NOT_CLONEABLE');
+    expect(error.message).toBe('Message content cannot be sent: content.onSave is a function');
+    client.disconnect();
+  });
+
+  it('reports transport failures behind a serializer as SEND_FAILED', async () => {
+    const onError = jest.fn();
+    const client = createBroadcastClient('errors', {
+      batchingDelayMs: 0,
+      transport: failingTransport,
+      serializer: createSerializer(),
+      sendRetry: { retries: 0 },
+      onError,
+      telemetry: false,
+    });
+    client.connect();
+
+    client.postMessage('save', new Date(0));
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'SEND_FAILED', action: 'postMessage', cause: failure })
+    );
+    expect(onError).not.toHaveBeenCalledWith(expect.objectContaining({ code: 'ENCODE_FAILED' }));
+    client.disconnect();
+  });
+
+  it('reports persistence failures with the adapter error as cause', () => {
+    const quota = new Error('QuotaExceededError');
+    const adapter: PersistenceAdapter = {
+      load: () => null,
+      save: () => {
+        throw quota;
+      },
+    };
+    const client = createBroadcastClient('errors', {
+      batchingDelayMs: 0,
+      transport: () => ({ postMessage: () => {}, subscribe: () => () => {}, close: () => {} }),
+      persistence: adapter,
+      telemetry: false,
+    });
+    client.connect();
+
+    client.postMessage('note', 'hello');
+
+    expect(client.getSnapshot().errors.at(-1)).toEqual(
+      expect.objectContaining({ code: 'PERSISTENCE_FAILED', action: 'persistence', cause: quota })
+    );
+    client.disconnect();
+  });
+
+  it('reports failed pings and clear syncs without getting stuck', async () => {
+    const client = createBroadcastClient('errors', {
+      transport: failingTransport,
+      telemetry: false,
+    });
+    client.connect();
+
+    await expect(client.ping()).resolves.toEqual([]);
+    expect(client.getSnapshot().isPingInProgress).toBe(false);
+    client.clearSentMessages({ sync: true });
+
+    expect(client.getSnapshot().errors.map(error => [error.code, error.action])).toEqual([
+      ['SEND_FAILED', 'ping'],
+      ['SEND_FAILED', 'clearSentMessages'],
+    ]);
+    client.disconnect();
+  });
+
+  it('keeps working when onError throws', () => {
+    const { result } = renderHook(() =>
+      useBroadcastChannel('errors', {
+        batchingDelayMs: 0,
+        transport: failingTransport,
+        onError: () => {
+          throw new Error('tracker offline');
+        },
+        telemetry: false,
+      })
+    );
+
+    act(() => {
+      result.current.postMessage('save', 1);
+    });
+
+    expect(result.current.errors).toHaveLength(1);
+  });
+});
+
+describe('error history', () => {
+  const render = (options: Parameters<typeof useBroadcastChannel>[1] = {}) =>
+    renderHook(() =>
+      useBroadcastChannel('errors', {
+        batchingDelayMs: 0,
+        transport: failingTransport,
+        telemetry: false,
+        ...options,
+      })
+    );
+
+  it('clears error after errorDisplayMs and keeps the history', () => {
+    const { result } = render({ errorDisplayMs: 500 });
+
+    act(() => {
+      result.current.postMessage('first', 1);
+    });
+    act(() => {
+      jest.advanceTimersByTime(400);
+      result.current.postMessage('second', 2);
+    });
+    // The second error is shown for its own full period
+    act(() => {
+      jest.advanceTimersByTime(400);
+    });
+    expect(result.current.error).toBe('Failed to send message');
+
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+    expect(result.current.error).toBeNull();
+    expect(result.current.errors.map(error => error.messageType)).toEqual(['first', 'second']);
+  });
+
+  it('keeps error until clearErrors when errorDisplayMs is 0', () => {
+    const { result } = render({ errorDisplayMs: 0 });
+
+    act(() => {
+      result.current.postMessage('save', 1);
+      jest.advanceTimersByTime(60000);
+    });
+    expect(result.current.error).toBe('Failed to send message');
+
+    act(() => {
+      result.current.clearErrors();
+    });
+    expect(result.current.error).toBeNull();
+    expect(result.current.errors).toEqual([]);
+  });
+
+  it('keeps the latest maxErrors errors', () => {
+    const { result } = render({ errorRetention: { maxErrors: 2 } });
+
+    act(() => {
+      ['a', 'b', 'c'].forEach(type => result.current.postMessage(type, 1));
+    });
+
+    expect(result.current.errors.map(error => error.messageType)).toEqual(['b', 'c']);
+  });
+
+  it('drops errors older than maxAgeMs on the cleaning interval', () => {
+    const { result } = render({ errorRetention: { maxAgeMs: 5000 }, cleaningInterval: 1000 });
+
+    act(() => {
+      result.current.postMessage('old', 1);
+      jest.advanceTimersByTime(3000);
+      result.current.postMessage('recent', 1);
+    });
+    act(() => {
+      jest.advanceTimersByTime(3000);
+    });
+
+    expect(result.current.errors.map(error => error.messageType)).toEqual(['recent']);
+  });
+});
@@ -0,0 +1,170 @@
+import { createLeaderElector, LeaderElector } from '../utils/leaderElection';
+
+const TYPES = { CLAIM: 'claim', HEARTBEAT: 'heartbeat', RESIGN: 'resign' };
+
+// A tiny in-memory network of electors that deliver each other's messages synchronously
+const createNetwork = () => {
+  const nodes = new Map<string, { elector: LeaderElector; leaderId: string | null }>();
+  const sent: { from: string; type: string }[] = [];
+  const disconnected = new Set<string>();
+
+  const add = (source: string) => {
+    const node = { elector: null as unknown as LeaderElector, leaderId: null as string | null };
+    node.elector = createLeaderElector({
+      source,
+      types: TYPES,
+      heartbeatIntervalMs: 100,
+      leaderTimeoutMs: 300,
+      electionTimeoutMs: 50,
+      send: type => {
+        sent.push({ from: source, type });
+        if (disconnected.has(source)) return;
+        nodes.forEach((other, name) => {
+          if (name !== source) other.elector.handleMessage(type, source);
+        });
+      },
+      onLeaderChange: id => {
+        node.leaderId = id;
+      },
+    });
+    nodes.set(source, node);
+    return node;
+  };
+
+  return { nodes, sent, add, disconnected };
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('createLeaderElector', () => {
+  it('elects a lone participant after the election timeout', () => {
+    const { add } = createNetwork();
+    const a = add('a');
+    a.elector.start();
+
+    expect(a.leaderId).toBeNull();
+    jest.advanceTimersByTime(50);
+    expect(a.leaderId).toBe('a');
+  });
+
+  it('keeps a sitting leader when a higher-priority tab joins', () => {
+    const { add } = createNetwork();
+    const b = add('b');
+    b.elector.start();
+    jest.advanceTimersByTime(50);
+
+    const a = add('a');
+    a.elector.start();
+    jest.advanceTimersByTime(500);
+
+    expect(b.leaderId).toBe('b');
+    expect(a.leaderId).toBe('b');
+  });
+
+  it('breaks simultaneous claims deterministically by source name', () => {
+    const { add } = createNetwork();
+    const c = add('c');
+    const a = add('a');
+    const b = add('b');
+    c.elector.start();
+    b.elector.start();
+    a.elector.start();
+
+    jest.advanceTimersByTime(50);
+
+    expect(a.leaderId).toBe('a');
+    expect(b.leaderId).toBe('a');
+    expect(c.leaderId).toBe('a');
+  });
+
+  it('re-elects immediately when the leader resigns', () => {
+    const { add } = createNetwork();
+    const a = add('a');
+    const b = add('b');
+    a.elector.start();
+    jest.advanceTimersByTime(50);
+    b.elector.start();
+    jest.advanceTimersByTime(50);
+    expect(b.leaderId).toBe('a');
+
+    a.elector.stop();
+    expect(b.leaderId).toBeNull();
+    jest.advanceTimersByTime(50);
+    expect(b.leaderId).toBe('b');
+  });
+
+  it('re-elects when the leader stops heartbeating', () => {
+    const { add, disconnected } = createNetwork();
+    const a = add('a');
+    const b = add('b');
+    a.elector.start();
+    jest.advanceTimersByTime(50);
+    b.elector.start();
+    jest.advanceTimersByTime(50);
+
+    // Simulate a frozen tab: it still thinks it leads, but its heartbeats no longer arrive
+    disconnected.add('a');
+    jest.advanceTimersByTime(150);
+    expect(b.leaderId).toBe('a');
+
+    jest.advanceTimersByTime(400);
+    expect(b.leaderId).toBe('b');
+  });
+
+  it('resolves split brain in favour of the higher-priority leader', () => {
+    const a = { leaderId: null as string | null };
+    const sent: string[] = [];
+    const elector = createLeaderElector({
+      source: 'b',
+      types: TYPES,
+      heartbeatIntervalMs: 100,
+      leaderTimeoutMs: 300,
+      electionTimeoutMs: 50,
+      send: type => sent.push(type),
+      onLeaderChange: id => {
+        a.leaderId = id;
+      },
+    });
+    elector.start();
+    jest.advanceTimersByTime(50);
+    expect(a.leaderId).toBe('b');
+
+    // A lower-priority leader's heartbeat is answered with our own
+    sent.length = 0;
+    elector.handleMessage(TYPES.HEARTBEAT, 'c');
+    expect(a.leaderId).toBe('b');
+    expect(sent).toEqual([TYPES.HEARTBEAT]);
+
+    // A higher-priority leader wins
+    elector.handleMessage(TYPES.HEARTBEAT, 'a');
+    expect(a.leaderId).toBe('a');
+    elector.stop();
+  });
+
+  it('ignores its own messages and anything received after stop', () => {
+    const onLeaderChange = jest.fn();
+    const elector = createLeaderElector({
+      source: 'a',
+      types: TYPES,
+      heartbeatIntervalMs: 100,
+      leaderTimeoutMs: 300,
+      electionTimeoutMs: 50,
+      send: () => {},
+      onLeaderChange,
+    });
+    elector.start();
+    elector.handleMessage(TYPES.HEARTBEAT, 'a');
+    expect(elector.getLeaderId()).toBeNull();
+
+    elector.stop();
+    elector.handleMessage(TYPES.HEARTBEAT, 'z');
+    expect(elector.getLeaderId()).toBeNull();
+    expect(onLeaderChange).not.toHaveBeenCalled();
+  });
+});
@@ -8,6 +8,7 @@ import {
   getInternalMessageType,
   isInternalType,
   isValidInternalClearMessage,
+  getValidationError,
   debounce,
 } from '../utils/messageUtils';
 
@@ -132,6 +133,41 @@ describe('messageUtils', () => {
   });
 });
 
+describe('getValidationError', () => {
+  it('returns undefined when a predicate accepts the payload', () => {
+    expect(getValidationError(() => true, 1)).toBeUndefined();
+    expect(getValidationError(() => undefined, 1)).toBeUndefined();
+  });
+
+  it('returns a reason when a predicate returns false', () => {
+    expect(getValidationError(() => false, 1)).toBe('Validator returned false');
+  });
+
+  it('returns the thrown error from a predicate or schema', () => {
+    const error = new Error('bad');
+    expect(
+      getValidationError(() => {
+        throw error;
+      }, 1)
+    ).toBe(error);
+    expect(
+      getValidationError(
+        {
+          parse: () => {
+            throw error;
+          },
+        },
+        1
+      )
+    ).toBe(error);
+  });
+
+  it('accepts falsy values returned by a schema parse', () => {
+    expect(getValidationError({ parse: (value: unknown) => value }, 0)).toBeUndefined();
+    expect(getValidationError({ parse: (value: unknown) => value }, false)).toBeUndefined();
+  });
+});
+
 describe('debounce', () => {
   it('debounce delays function call and can cancel/flush', () => {
     const fn = jest.fn();
@@ -0,0 +1,191 @@
+import { renderHook, act } from '@testing-library/react';
+import { useBroadcastChannel } from '../hooks/useBroadcastChannel';
+import { createMessage } from '../utils/messageUtils';
+import { createSequencer } from '../utils/ordering';
+import { installBroadcastChannelBus, postFromOtherTab } from './testUtils';
+
+installBroadcastChannelBus();
+
+// Deliver a message from a peer in another tab
+const receive = (seq: number, type = 'update', source = 'peer') =>
+  postFromOtherTab('orders', createMessage(type, seq, source, { seq }));
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('createSequencer', () => {
+  const setup = () => {
+    const delivered: number[] = [];
+    const onGap = jest.fn();
+    const onLate = jest.fn();
+    const sequencer = createSequencer({
+      windowMs: 100,
+      deliver: message => delivered.push(message.seq as number),
+      onGap,
+      onLate,
+    });
+    const push = (seq: number, source = 'peer') =>
+      sequencer.push(createMessage('update', null, source, { seq }));
+    return { delivered, onGap, onLate, push, sequencer };
+  };
+
+  it('reorders early arrivals and reports gaps once the window has passed', () => {
+    const { delivered, onGap, onLate, push } = setup();
+
+    push(1);
+    push(3);
+    push(2);
+    push(5);
+    expect(delivered).toEqual([1, 2, 3]);
+
+    jest.advanceTimersByTime(100);
+    expect(onGap).toHaveBeenCalledWith({ source: 'peer', from: 4, to: 4 });
+    expect(delivered).toEqual([1, 2, 3, 5]);
+
+    push(4);
+    expect(onLate).toHaveBeenCalledTimes(1);
+    expect(delivered).toEqual([1, 2, 3, 5]);
+  });
+
+  it('starts over when a source restarts from 1', () => {
+    const { delivered, onGap, push } = setup();
+
+    push(1);
+    push(2);
+    push(1);
+    push(2);
+
+    expect(delivered).toEqual([1, 2, 1, 2]);
+    expect(onGap).not.toHaveBeenCalled();
+  });
+
+  it('clears pending windows on reset', () => {
+    const { delivered, onGap, push, sequencer } = setup();
+
+    push(1);
+    push(3);
+    sequencer.reset();
+    jest.advanceTimersByTime(100);
+
+    expect(onGap).not.toHaveBeenCalled();
+    expect(delivered).toEqual([1]);
+  });
+});
+
+describe('ordering option', () => {
+  it('stamps every posted message with an increasing sequence number', () => {
+    const { result } = renderHook(() =>
+      useBroadcastChannel('orders', { sourceName: 'A', batchingDelayMs: 0 })
+    );
+
+    act(() => {
+      result.current.postMessage('a', 1);
+      result.current.postMessage('b', 2);
+    });
+
+    expect(result.current.sentMessages.map(m => m.seq)).toEqual([1, 2]);
+  });
+
+  it('keeps messages from a source in posting order when unbatched ones overtake', () => {
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('orders', {
+        sourceName: 'A',
+        batchingDelayMs: 20,
+        excludedBatchMessageTypes: ['urgent'],
+      })
+    );
+    const { result: ordered } = renderHook(() =>
+      useBroadcastChannel('orders', { sourceName: 'B', ordering: 'per-source' })
+    );
+    const { result: unordered } = renderHook(() =>
+      useBroadcastChannel('orders', { sourceName: 'C' })
+    );
+
+    act(() => {
+      sender.current.postMessage('normal', 1);
+      sender.current.postMessage('urgent', 2);
+    });
+    expect(ordered.current.messages).toEqual([]);
+    expect(unordered.current.messages.map(m => m.type)).toEqual(['urgent']);
+
+    act(() => {
+      jest.advanceTimersByTime(20);
+    });
+    expect(ordered.current.messages.map(m => m.type)).toEqual(['normal', 'urgent']);
+    expect(unordered.current.messages.map(m => m.type)).toEqual(['urgent', 'normal']);
+  });
+
+  it('skips lost messages after the ordering window and calls onGap', () => {
+    const onGap = jest.fn();
+    const { result } = renderHook(() =>
+      useBroadcastChannel('orders', {
+        sourceName: 'B',
+        ordering: 'per-source',
+        orderingWindowMs: 500,
+        onGap,
+      })
+    );
+
+    receive(1);
+    receive(4);
+    receive(5);
+    expect(result.current.messages.map(m => m.message)).toEqual([1]);
+
+    act(() => {
+      jest.advanceTimersByTime(500);
+    });
+    expect(onGap).toHaveBeenCalledTimes(1);
+    expect(onGap).toHaveBeenCalledWith({ source: 'peer', from: 2, to: 3 });
+    expect(result.current.messages.map(m => m.message)).toEqual([1, 4, 5]);
+
+    // Arriving after its gap was reported, the message would break the order
+    receive(2);
+    expect(result.current.messages.map(m => m.message)).toEqual([1, 4, 5]);
+  });
+
+  it('waits one window for a source that was already sending, without a gap', () => {
+    const onGap = jest.fn();
+    const { result } = renderHook(() =>
+      useBroadcastChannel('orders', { sourceName: 'B', ordering: 'per-source', onGap })
+    );
+
+    receive(8);
+    receive(7);
+    expect(result.current.messages).toEqual([]);
+
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    expect(result.current.messages.map(m => m.message)).toEqual([7, 8]);
+    expect(onGap).not.toHaveBeenCalled();
+
+    receive(9);
+    expect(result.current.messages.map(m => m.message)).toEqual([7, 8, 9]);
+  });
+
+  it('orders each source independently and ignores duplicates', () => {
+    const { result } = renderHook(() =>
+      useBroadcastChannel('orders', { sourceName: 'B', ordering: 'per-source' })
+    );
+
+    receive(1, 'update', 'X');
+    receive(1, 'update', 'Y');
+    receive(2, 'update', 'Y');
+
+    const duplicate = result.current.messages[0];
+    postFromOtherTab('orders', duplicate);
+    receive(2, 'update', 'X');
+
+    expect(result.current.messages.map(m => `${m.source}${m.message}`)).toEqual([
+      'X1',
+      'Y1',
+      'Y2',
+      'X2',
+    ]);
+  });
+});
@@ -0,0 +1,332 @@
+import { renderHook, act } from '@testing-library/react';
+import { useBroadcastChannel } from '../hooks/useBroadcastChannel';
+import { PersistedMessages, PersistenceAdapter } from '../types/types';
+import { createMessage } from '../utils/messageUtils';
+import {
+  getHistoryKey,
+  getTabId,
+  mergeHistory,
+  resolvePersistence,
+  sanitizeHistory,
+  TAB_HISTORY_TTL,
+} from '../utils/persistence';
+import { installBroadcastChannelBus, postFromOtherTab } from './testUtils';
+
+installBroadcastChannelBus();
+
+const readHistory = (channelName: string): PersistedMessages =>
+  JSON.parse(window.sessionStorage.getItem(getHistoryKey(channelName)) || 'null');
+
+// jsdom shares one sessionStorage between all hooks, so tabs get their own in-memory store
+const createTabStorage = () => {
+  const store = new Map<string, PersistedMessages>();
+  const adapter: PersistenceAdapter = {
+    load: key => store.get(key) ?? null,
+    save: (key, data) => {
+      store.set(key, data);
+    },
+  };
+  return { store, adapter };
+};
+
+// jsdom has a single sessionStorage, which holds the tab id; swapping its contents switches tabs
+const switchSession = (next: Record<string, string> = {}) => {
+  const storage = window.sessionStorage;
+  const previous: Record<string, string> = {};
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i) as string;
+    previous[key] = storage.getItem(key) as string;
+  }
+  storage.clear();
+  Object.entries(next).forEach(([key, value]) => storage.setItem(key, value));
+  return previous;
+};
+
+beforeEach(() => {
+  window.sessionStorage.clear();
+  window.localStorage.clear();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('persistence utils', () => {
+  it('drops malformed and expired entries', () => {
+    const valid = createMessage('a', 1, 'x');
+    const expired = createMessage('b', 2, 'x', { expirationDuration: -1 });
+
+    expect(sanitizeHistory({ messages: [valid, expired, { nope: true }] })).toEqual({
+      messages: [valid],
+      sentMessages: [],
+    });
+    expect(sanitizeHistory(null)).toEqual({ messages: [], sentMessages: [] });
+  });
+
+  it('merges persisted messages before current ones without duplicates', () => {
+    const a = createMessage('a', 1, 'x');
+    const b = createMessage('b', 2, 'x');
+    const c = createMessage('c', 3, 'x');
+
+    expect(mergeHistory([a, b], [b, c])).toEqual([a, b, c]);
+    expect(mergeHistory([a, b], [], true)).toEqual([b]);
+  });
+
+  it('resolves built-in adapters and returns custom ones untouched', () => {
+    const adapter: PersistenceAdapter = { load: () => null, save: () => {} };
+
+    expect(resolvePersistence('session-storage')).not.toBeNull();
+    expect(resolvePersistence('local-storage')).not.toBeNull();
+    // jsdom has no IndexedDB
+    expect(resolvePersistence('indexeddb')).toBeNull();
+    expect(resolvePersistence(adapter)).toBe(adapter);
+  });
+
+  it('keeps the tab id across a reload but gives a duplicated tab its own', () => {
+    // Every fresh copy of the module stands for a new page load in this tab
+    const loadPage = () => {
+      let page = {} as typeof import('../utils/persistence');
+      jest.isolateModules(() => {
+        page = require('../utils/persistence');
+      });
+      return page;
+    };
+    const first = loadPage();
+    const id = first.getTabId();
+    expect(first.getTabId()).toBe(id);
+
+    // A duplicated tab gets a copy of sessionStorage while the first page still uses the id
+    const session = switchSession();
+    switchSession({ ...session });
+    expect(loadPage().getTabId()).not.toBe(id);
+    switchSession(session);
+    expect(first.getTabId()).toBe(id);
+
+    // A reload hides the old page before the new one starts
+    window.dispatchEvent(new Event('pagehide'));
+    expect(loadPage().getTabId()).toBe(id);
+  });
+});
+
+describe('useBroadcastChannel persistence', () => {
+  const options = { batchingDelayMs: 0, persistence: 'session-storage' as const };
+
+  it('restores received and sent messages after a remount', () => {
+    const tabA = createTabStorage();
+    const tabB = createTabStorage();
+    const { result: sender, unmount: unmountA } = renderHook(() =>
+      useBroadcastChannel('history', { batchingDelayMs: 0, persistence: tabA.adapter })
+    );
+    const { unmount: unmountB } = renderHook(() =>
+      useBroadcastChannel('history', { batchingDelayMs: 0, persistence: tabB.adapter })
+    );
+
+    act(() => {
+      sender.current.postMessage('note', 'hello');
+    });
+    unmountA();
+    unmountB();
+
+    const { result: reloadedA } = renderHook(() =>
+      useBroadcastChannel('history', { batchingDelayMs: 0, persistence: tabA.adapter })
+    );
+    const { result: reloadedB } = renderHook(() =>
+      useBroadcastChannel('history', { batchingDelayMs: 0, persistence: tabB.adapter })
+    );
+
+    expect(reloadedA.current.sentMessages.map(m => m.message)).toEqual(['hello']);
+    expect(reloadedA.current.messages).toEqual([]);
+    expect(reloadedB.current.messages.map(m => m.message)).toEqual(['hello']);
+  });
+
+  it('restores history from sessionStorage', () => {
+    const { result, unmount } = renderHook(() => useBroadcastChannel('history', options));
+    act(() => {
+      result.current.postMessage('note', 'hello');
+    });
+    unmount();
+
+    const { result: reloaded } = renderHook(() => useBroadcastChannel('history', options));
+
+    expect(reloaded.current.sentMessages.map(m => m.message)).toEqual(['hello']);
+  });
+
+  it('keeps the history of each tab apart in shared storage', () => {
+    const shared = { batchingDelayMs: 0, persistence: 'local-storage' as const };
+    const { result: tabA, unmount: unmountA } = renderHook(() =>
+      useBroadcastChannel('history', shared)
+    );
+    const sessionA = switchSession();
+    const { result: tabB, unmount: unmountB } = renderHook(() =>
+      useBroadcastChannel('history', shared)
+    );
+    const sessionB = switchSession();
+
+    act(() => {
+      tabA.current.postMessage('note', 'from A');
+      tabB.current.postMessage('note', 'from B');
+    });
+    unmountA();
+    unmountB();
+
+    switchSession(sessionA);
+    const { result: reloadedA } = renderHook(() => useBroadcastChannel('history', shared));
+    expect(reloadedA.current.sentMessages.map(m => m.message)).toEqual(['from A']);
+    expect(reloadedA.current.messages.map(m => m.message)).toEqual(['from B']);
+
+    switchSession(sessionB);
+    const { result: reloadedB } = renderHook(() => useBroadcastChannel('history', shared));
+    expect(reloadedB.current.sentMessages.map(m => m.message)).toEqual(['from B']);
+    expect(reloadedB.current.messages.map(m => m.message)).toEqual(['from A']);
+  });
+
+  it('removes histories that closed tabs left in shared storage', async () => {
+    const history = { messages: [createMessage('note', 'old', 'A')], sentMessages: [] };
+    const save = (tabId: string, savedAt?: number) =>
+      window.localStorage.setItem(
+        getHistoryKey('closed-tabs', tabId),
+        JSON.stringify({ ...history, savedAt })
+      );
+    save('tab-closed', Date.now() - TAB_HISTORY_TTL - 1000);
+    save('tab-legacy');
+    save('tab-open', Date.now() - 1000);
+
+    renderHook(() =>
+      useBroadcastChannel('closed-tabs', { batchingDelayMs: 0, persistence: 'local-storage' })
+    );
+    await act(async () => {});
+
+    const has = (tabId: string) =>
+      window.localStorage.getItem(getHistoryKey('closed-tabs', tabId)) !== null;
+    expect(has('tab-closed')).toBe(false);
+    expect(has('tab-legacy')).toBe(false);
+    expect(has('tab-open')).toBe(true);
+    expect(has(getTabId())).toBe(true);
+  });
+
+  it('does not persist anything without the option', () => {
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('history', { batchingDelayMs: 0 })
+    );
+    renderHook(() => useBroadcastChannel('history', { batchingDelayMs: 0 }));
+
+    act(() => {
+      sender.current.postMessage('note', 'hello');
+    });
+
+    expect(window.sessionStorage.getItem(getHistoryKey('history'))).toBeNull();
+  });
+
+  it('skips expired entries and keeps only the latest with keepLatestMessage', () => {
+    const stale = createMessage('note', 'stale', 'A', { expirationDuration: -1 });
+    const first = createMessage('note', 'first', 'A');
+    const second = createMessage('note', 'second', 'A');
+    window.sessionStorage.setItem(
+      getHistoryKey('history'),
+      JSON.stringify({ messages: [stale, first, second], sentMessages: [] })
+    );
+
+    const { result: all } = renderHook(() => useBroadcastChannel('history', options));
+    expect(all.current.messages.map(m => m.message)).toEqual(['first', 'second']);
+
+    const { result: latest } = renderHook(() =>
+      useBroadcastChannel('history', { ...options, keepLatestMessage: true })
+    );
+    expect(latest.current.messages.map(m => m.message)).toEqual(['second']);
+  });
+
+  it('does not accept a restored message again when a peer re-sends it', () => {
+    const message = createMessage('note', 'hello', 'A');
+    window.sessionStorage.setItem(
+      getHistoryKey('history'),
+      JSON.stringify({ messages: [message], sentMessages: [] })
+    );
+    const { result } = renderHook(() => useBroadcastChannel('history', options));
+
+    postFromOtherTab('history', message);
+
+    expect(result.current.messages).toHaveLength(1);
+  });
+
+  it('prunes expired messages from storage on the cleaning interval', () => {
+    jest.useFakeTimers();
+    const tabA = createTabStorage();
+    const tabB = createTabStorage();
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('history', { batchingDelayMs: 0, persistence: tabA.adapter })
+    );
+    renderHook(() =>
+      useBroadcastChannel('history', { batchingDelayMs: 0, persistence: tabB.adapter })
+    );
+
+    act(() => {
+      sender.current.postMessage('toast', 'bye', { expirationDuration: 1500 });
+      sender.current.postMessage('note', 'stay');
+    });
+    expect(tabB.store.get(getHistoryKey('history'))?.messages).toHaveLength(2);
+
+    act(() => {
+      jest.advanceTimersByTime(2000);
+    });
+
+    const received = tabB.store.get(getHistoryKey('history'));
+    const sent = tabA.store.get(getHistoryKey('history'));
+    expect(received?.messages.map(m => m.message)).toEqual(['stay']);
+    expect(sent?.sentMessages.map(m => m.message)).toEqual(['stay']);
+  });
+
+  it('hydrates from an asynchronous adapter without overwriting it first', async () => {
+    const stored = createMessage('note', 'restored', 'A');
+    const adapter = {
+      load: jest.fn(async () => ({ messages: [stored], sentMessages: [] })),
+      save: jest.fn(),
+    };
+
+    const { result } = renderHook(() =>
+      useBroadcastChannel('history', { batchingDelayMs: 0, persistence: adapter })
+    );
+    expect(adapter.save).not.toHaveBeenCalled();
+
+    await act(async () => {});
+
+    expect(result.current.messages.map(m => m.message)).toEqual(['restored']);
+    expect(adapter.load).toHaveBeenCalledWith(getHistoryKey('history'));
+    expect(adapter.save).toHaveBeenCalledWith(getHistoryKey('history'), {
+      messages: [stored],
+      sentMessages: [],
+      savedAt: expect.any(Number),
+    });
+  });
+
+  it('keeps working when stored history cannot be read', () => {
+    window.sessionStorage.setItem(getHistoryKey('history'), '{oops');
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('history', { ...options, sourceName: 'A' })
+    );
+
+    act(() => {
+      sender.current.postMessage('note', 'hello');
+    });
+
+    expect(sender.current.error).toBeNull();
+    expect(readHistory('history').sentMessages).toHaveLength(1);
+  });
+
+  it('reports an error when saving fails', () => {
+    const adapter: PersistenceAdapter = {
+      load: () => null,
+      save: () => {
+        throw new Error('QuotaExceededError');
+      },
+    };
+    const { result } = renderHook(() =>
+      useBroadcastChannel('history', { batchingDelayMs: 0, persistence: adapter })
+    );
+
+    act(() => {
+      result.current.postMessage('note', 'hello');
+    });
+
+    expect(result.current.error).toBe('Failed to persist messages');
+  });
+});
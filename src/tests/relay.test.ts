@@ -0,0 +1,235 @@
+import { waitFor } from '@testing-library/react';
+import { webcrypto } from 'crypto';
+import { createBroadcastClient } from '../utils/broadcastClient';
+import { createMessageRelay } from '../utils/relay';
+import { createMessage, getInternalMessageType } from '../utils/messageUtils';
+import { MessageRelay, PersistedMessages, PersistenceAdapter } from '../types/types';
+import { bus, installBroadcastChannelBus } from './testUtils';
+
+installBroadcastChannelBus();
+
+const createMemoryStorage = (): PersistenceAdapter => {
+  const data = new Map<string, PersistedMessages>();
+  return {
+    load: key => data.get(key) ?? null,
+    save: (key, value) => {
+      data.set(key, value);
+    },
+  };
+};
+
+// Stands in for navigator.serviceWorker: the controller dispatches to the relay's global
+// `message` listener and replies reach the page's container listeners
+const installServiceWorker = () => {
+  const listeners = new Set<(event: MessageEvent) => void>();
+  const page = {
+    postMessage: (data: unknown) =>
+      listeners.forEach(listener => listener({ data } as MessageEvent)),
+  };
+  const controller = {
+    postMessage: jest.fn((data: unknown) => {
+      window.dispatchEvent(Object.assign(new Event('message'), { data, source: page }));
+    }),
+  };
+  Object.defineProperty(navigator, 'serviceWorker', {
+    configurable: true,
+    value: {
+      controller,
+      addEventListener: (_: string, listener: (event: MessageEvent) => void) =>
+        listeners.add(listener),
+      removeEventListener: (_: string, listener: (event: MessageEvent) => void) =>
+        listeners.delete(listener),
+      startMessages: jest.fn(),
+    },
+  });
+  return controller;
+};
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+let relay: MessageRelay | null = null;
+
+afterEach(() => {
+  relay?.close();
+  relay = null;
+  delete (navigator as any).serviceWorker;
+  sessionStorage.clear();
+});
+
+describe('createMessageRelay', () => {
+  it('stores unexpired application messages heard on the channel', async () => {
+    relay = createMessageRelay({ channelName: 'inbox', storage: createMemoryStorage() });
+    const tab = new (bus.createTab().BroadcastChannel)('inbox');
+
+    tab.postMessage([
+      createMessage('note', 'kept', 'A'),
+      createMessage('note', 'expired', 'A', { expirationDate: Date.now() - 1 }),
+      createMessage(getInternalMessageType('PING', 'inbox'), null, 'A'),
+    ]);
+    tab.postMessage(createMessage('note', 'later', 'B'));
+    await settle();
+
+    expect((await relay.getMessages()).map(m => m.message)).toEqual(['kept', 'later']);
+  });
+
+  it('keeps only the configured types and the newest messages', async () => {
+    relay = createMessageRelay({
+      channelName: 'inbox',
+      types: ['note'],
+      maxMessages: 2,
+      storage: createMemoryStorage(),
+    });
+    const tab = new (bus.createTab().BroadcastChannel)('inbox');
+
+    tab.postMessage(createMessage('note', 1, 'A'));
+    tab.postMessage(createMessage('typing', true, 'A'));
+    tab.postMessage(createMessage('note', 2, 'A'));
+    tab.postMessage(createMessage('note', 3, 'A'));
+    await settle();
+
+    expect((await relay.getMessages()).map(m => m.message)).toEqual([2, 3]);
+  });
+
+  it('forgets messages their sender cleared with sync', async () => {
+    relay = createMessageRelay({ channelName: 'inbox', storage: createMemoryStorage() });
+    const tab = new (bus.createTab().BroadcastChannel)('inbox');
+    const cleared = createMessage('note', 'cleared', 'A');
+
+    tab.postMessage([cleared, createMessage('note', 'kept', 'A'), createMessage('note', 'B', 'B')]);
+    tab.postMessage(
+      createMessage(
+        getInternalMessageType('CLEAR_SENT_MESSAGES', 'inbox'),
+        { ids: [cleared.id], types: [] },
+        'A'
+      )
+    );
+    await settle();
+
+    expect((await relay.getMessages()).map(m => m.message)).toEqual(['kept', 'B']);
+  });
+});
+
+describe('storeAndForward option', () => {
+  it('delivers messages posted while alone to a tab opened later', async () => {
+    const controller = installServiceWorker();
+    relay = createMessageRelay({ channelName: 'inbox', storage: createMemoryStorage() });
+
+    const sender = createBroadcastClient('inbox', {
+      sourceName: 'A',
+      batchingDelayMs: 0,
+      storeAndForward: true,
+      telemetry: false,
+    });
+    sender.connect();
+    sender.postMessage('note', 'while you were away');
+    sender.disconnect();
+    await settle();
+
+    expect(controller.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ channelName: 'inbox', messages: [expect.anything()] })
+    );
+
+    const late = createBroadcastClient('inbox', {
+      sourceName: 'B',
+      storeAndForward: true,
+      telemetry: false,
+    });
+    late.connect();
+    await settle();
+
+    expect(late.getSnapshot().messages.map(m => m.message)).toEqual(['while you were away']);
+    late.disconnect();
+  });
+
+  it('delivers stored messages to every new tab, once per tab, until they expire', async () => {
+    installServiceWorker();
+    relay = createMessageRelay({ channelName: 'inbox', storage: createMemoryStorage() });
+    const sender = createBroadcastClient('inbox', {
+      batchingDelayMs: 0,
+      storeAndForward: true,
+      telemetry: false,
+    });
+    sender.connect();
+    sender.postMessage('note', 'kept', { expirationDuration: 60000 });
+    sender.disconnect();
+    await settle();
+
+    const open = async () => {
+      const client = createBroadcastClient('inbox', { storeAndForward: true, telemetry: false });
+      client.connect();
+      await settle();
+      client.disconnect();
+      return client.getSnapshot().messages.map(m => m.message);
+    };
+
+    expect(await open()).toEqual(['kept']);
+    // A reload keeps the tab's sessionStorage
+    expect(await open()).toEqual([]);
+    // A newly opened tab starts with its own
+    sessionStorage.clear();
+    expect(await open()).toEqual(['kept']);
+    expect((await relay.getMessages()).map(m => m.message)).toEqual(['kept']);
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 60001);
+    sessionStorage.clear();
+    expect(await open()).toEqual([]);
+    expect(await relay.getMessages()).toEqual([]);
+    jest.restoreAllMocks();
+  });
+
+  it('rejects signed messages that waited longer than signing.maxAgeMs', async () => {
+    installServiceWorker();
+    relay = createMessageRelay({ channelName: 'inbox', storage: createMemoryStorage() });
+    const key = await webcrypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, [
+      'sign',
+      'verify',
+    ]);
+    const sender = createBroadcastClient('inbox', {
+      batchingDelayMs: 0,
+      storeAndForward: true,
+      signing: { key },
+      telemetry: false,
+    });
+    sender.connect();
+    sender.postMessage('note', 'signed');
+    await waitFor(async () => expect(await relay!.getMessages()).toHaveLength(1));
+    sender.disconnect();
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * 60000);
+
+    const onInvalidMessage = jest.fn();
+    const strict = createBroadcastClient('inbox', {
+      storeAndForward: true,
+      signing: { key },
+      onInvalidMessage,
+      telemetry: false,
+    });
+    strict.connect();
+    await waitFor(() => expect(onInvalidMessage).toHaveBeenCalled());
+    expect(strict.getSnapshot().messages).toEqual([]);
+    strict.disconnect();
+
+    sessionStorage.clear();
+    const patient = createBroadcastClient('inbox', {
+      storeAndForward: true,
+      signing: { key, maxAgeMs: 5 * 60000 },
+      telemetry: false,
+    });
+    patient.connect();
+    await waitFor(() => expect(patient.getSnapshot().messages).toHaveLength(1));
+    patient.disconnect();
+    jest.restoreAllMocks();
+  });
+
+  it('does not hand internal messages to the service worker', () => {
+    const controller = installServiceWorker();
+    const client = createBroadcastClient('inbox', { storeAndForward: true, telemetry: false });
+    client.connect();
+
+    client.clearSentMessages({ sync: true });
+
+    expect(controller.postMessage).toHaveBeenCalledTimes(1);
+    expect(controller.postMessage.mock.calls[0][0]).not.toHaveProperty('messages');
+    client.disconnect();
+  });
+});
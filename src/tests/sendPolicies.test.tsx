@@ -0,0 +1,187 @@
+import { renderHook, act, cleanup } from '@testing-library/react';
+import { useBroadcastChannel } from '../hooks/useBroadcastChannel';
+import { createBroadcastClient } from '../utils/broadcastClient';
+import { createBroadcastChannelBus } from '../utils/channelBus';
+import { BroadcastMessage, BroadcastTransport } from '../types/types';
+
+// Records every post with the time it was made
+const createRecordingTransport = () => {
+  const posts: { at: number; messages: BroadcastMessage[] }[] = [];
+  const transport = (): BroadcastTransport => ({
+    postMessage: data => {
+      posts.push({
+        at: Date.now(),
+        messages: (Array.isArray(data) ? data : [data]) as BroadcastMessage[],
+      });
+    },
+    subscribe: () => () => {},
+    close: () => {},
+  });
+  return { transport, posts };
+};
+
+let start: number;
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  start = Date.now();
+});
+
+afterEach(() => {
+  // Unmount while the fake timers are installed, so shared cleaning timers are cleared
+  cleanup();
+  jest.useRealTimers();
+});
+
+describe('sendPolicies', () => {
+  it('coalesces a type to its latest message per batch', () => {
+    const recording = createRecordingTransport();
+    const { result } = renderHook(() =>
+      useBroadcastChannel('policies', {
+        transport: recording.transport,
+        sendPolicies: { scroll: { policy: 'coalesce' } },
+        telemetry: false,
+      })
+    );
+
+    act(() => {
+      result.current.postMessage('scroll', 10);
+      result.current.postMessage('select', 'a');
+      result.current.postMessage('scroll', 20);
+      result.current.postMessage('scroll', 30);
+      jest.advanceTimersByTime(20);
+    });
+
+    expect(recording.posts).toHaveLength(1);
+    const [batch] = recording.posts;
+    expect(batch.messages.map(message => [message.type, message.message])).toEqual([
+      ['select', 'a'],
+      ['scroll', 30],
+    ]);
+    // Held messages get their sequence number when sent, so receivers see no gap
+    expect(batch.messages.map(message => message.seq)).toEqual([1, 2]);
+    expect(result.current.sentMessages).toHaveLength(2);
+  });
+
+  it('throttles a type to one message per interval, sending the latest at its end', () => {
+    const recording = createRecordingTransport();
+    const { result } = renderHook(() =>
+      useBroadcastChannel('policies', {
+        batchingDelayMs: 0,
+        transport: recording.transport,
+        sendPolicies: { hover: { policy: 'throttle', intervalMs: 100 } },
+        telemetry: false,
+      })
+    );
+
+    act(() => {
+      result.current.postMessage('hover', 1);
+      jest.advanceTimersByTime(10);
+      result.current.postMessage('hover', 2);
+      jest.advanceTimersByTime(40);
+      result.current.postMessage('hover', 3);
+      jest.advanceTimersByTime(100);
+      result.current.postMessage('hover', 4);
+      jest.advanceTimersByTime(100);
+    });
+
+    expect(recording.posts.map(post => [post.at - start, post.messages[0].message])).toEqual([
+      [0, 1],
+      [100, 3],
+      [200, 4],
+    ]);
+  });
+
+  it('debounces a type until it stops changing', () => {
+    const recording = createRecordingTransport();
+    const { result } = renderHook(() =>
+      useBroadcastChannel('policies', {
+        batchingDelayMs: 0,
+        transport: recording.transport,
+        sendPolicies: { typing: { policy: 'debounce', delayMs: 100 } },
+        telemetry: false,
+      })
+    );
+
+    act(() => {
+      result.current.postMessage('typing', 'h');
+      jest.advanceTimersByTime(50);
+      result.current.postMessage('typing', 'he');
+      jest.advanceTimersByTime(50);
+      result.current.postMessage('typing', 'hey');
+    });
+    expect(recording.posts).toEqual([]);
+
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+    expect(recording.posts.map(post => [post.at - start, post.messages[0].message])).toEqual([
+      [200, 'hey'],
+    ]);
+  });
+
+  it('never holds back acknowledged sends', () => {
+    const recording = createRecordingTransport();
+    const client = createBroadcastClient('policies', {
+      batchingDelayMs: 0,
+      transport: recording.transport,
+      sendPolicies: { save: { policy: 'debounce', delayMs: 100 } },
+      telemetry: false,
+    });
+    client.connect();
+
+    const delivery = client.postMessage('save', 1, { ack: true });
+
+    expect(recording.posts.some(post => post.messages[0].type === 'save')).toBe(true);
+    client.disconnect();
+    return expect(delivery).rejects.toMatchObject({ code: 'CHANNEL_UNAVAILABLE' });
+  });
+
+  it('sends held messages on disconnect', () => {
+    const recording = createRecordingTransport();
+    const client = createBroadcastClient('policies', {
+      transport: recording.transport,
+      sendPolicies: { typing: { policy: 'debounce', delayMs: 1000 } },
+      telemetry: false,
+    });
+    client.connect();
+
+    client.postMessage('typing', 'draft');
+    client.disconnect();
+
+    expect(recording.posts.map(post => post.messages.map(message => message.message))).toEqual([
+      ['draft'],
+    ]);
+  });
+});
+
+describe('message caps', () => {
+  it('evicts the oldest sent and received messages', () => {
+    const bus = createBroadcastChannelBus();
+    const [sender, receiver] = [bus.createTab(), bus.createTab()];
+    const { result: sent } = renderHook(() =>
+      useBroadcastChannel('policies', {
+        batchingDelayMs: 0,
+        transport: sender.transport,
+        maxSentMessages: 2,
+        telemetry: false,
+      })
+    );
+    const { result: received } = renderHook(() =>
+      useBroadcastChannel('policies', {
+        transport: receiver.transport,
+        maxMessages: 1,
+        telemetry: false,
+      })
+    );
+
+    act(() => {
+      [1, 2, 3].forEach(value => sent.current.postMessage('count', value));
+      bus.flush();
+    });
+
+    expect(sent.current.sentMessages.map(message => message.message)).toEqual([2, 3]);
+    expect(received.current.messages.map(message => message.message)).toEqual([3]);
+    bus.reset();
+  });
+});
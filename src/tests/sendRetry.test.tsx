@@ -0,0 +1,220 @@
+import { renderHook, act, cleanup, waitFor } from '@testing-library/react';
+import { webcrypto } from 'crypto';
+import { useBroadcastChannel } from '../hooks/useBroadcastChannel';
+import { createBroadcastClient } from '../utils/broadcastClient';
+import { createSerializer } from '../utils/serializer';
+import { BroadcastMessage, BroadcastTransport } from '../types/types';
+
+// Records what reaches the wire; sends throw while `fails` returns true for a message
+const createFlakyTransport = (fails: (message: BroadcastMessage) => boolean) => {
+  const sent: BroadcastMessage[] = [];
+  const attempts: number[] = [];
+  const transport = (): BroadcastTransport => ({
+    postMessage: data => {
+      const batch = (Array.isArray(data) ? data : [data]) as BroadcastMessage[];
+      attempts.push(Date.now());
+      if (batch.some(fails)) throw new Error('DataCloneError');
+      sent.push(...batch);
+    },
+    subscribe: () => () => {},
+    close: () => {},
+  });
+  return { transport, sent, attempts };
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  // Unmount while the fake timers are installed, so shared cleaning timers are cleared
+  cleanup();
+  jest.useRealTimers();
+});
+
+describe('send failure isolation', () => {
+  it('sends the rest of a failing batch and keeps batching afterwards', () => {
+    const flaky = createFlakyTransport(message => message.type === 'bad');
+    const { result } = renderHook(() =>
+      useBroadcastChannel('retry', {
+        transport: flaky.transport,
+        sendRetry: { retries: 0 },
+        telemetry: false,
+      })
+    );
+
+    act(() => {
+      result.current.postMessage('good', 1);
+      result.current.postMessage('bad', 2);
+      result.current.postMessage('good', 3);
+      jest.advanceTimersByTime(20);
+    });
+    expect(flaky.sent.map(message => message.message)).toEqual([1, 3]);
+    expect(result.current.error).toBe('Failed to send message');
+    expect(result.current.failedMessages.map(message => message.type)).toEqual(['bad']);
+
+    act(() => {
+      result.current.postMessage('good', 4);
+      result.current.postMessage('good', 5);
+      jest.advanceTimersByTime(20);
+    });
+    expect(flaky.sent.map(message => message.message)).toEqual([1, 3, 4, 5]);
+  });
+
+  it('retries with backoff until the send succeeds', () => {
+    let failures = 2;
+    const flaky = createFlakyTransport(() => failures-- > 0);
+    const onError = jest.fn();
+    const { result } = renderHook(() =>
+      useBroadcastChannel('retry', {
+        batchingDelayMs: 0,
+        transport: flaky.transport,
+        sendRetry: { delayMs: 100, backoffFactor: 3 },
+        onError,
+        telemetry: false,
+      })
+    );
+    const start = Date.now();
+
+    act(() => {
+      result.current.postMessage('save', 1);
+      jest.advanceTimersByTime(1000);
+    });
+
+    expect(flaky.attempts.map(at => at - start)).toEqual([0, 100, 400]);
+    expect(flaky.sent).toHaveLength(1);
+    // Only the first failure is reported
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(result.current.failedMessages).toEqual([]);
+  });
+
+  it('moves a message to failedMessages once the retries run out', () => {
+    const flaky = createFlakyTransport(() => true);
+    const { result } = renderHook(() =>
+      useBroadcastChannel('retry', {
+        batchingDelayMs: 0,
+        transport: flaky.transport,
+        sendRetry: { retries: 2, delayMs: 100, maxDelayMs: 150 },
+        telemetry: false,
+      })
+    );
+    const start = Date.now();
+
+    act(() => {
+      result.current.postMessage('save', 1);
+      jest.advanceTimersByTime(249);
+    });
+    expect(result.current.failedMessages).toEqual([]);
+
+    act(() => {
+      jest.advanceTimersByTime(1);
+    });
+    expect(flaky.attempts.map(at => at - start)).toEqual([0, 100, 250]);
+    expect(result.current.failedMessages).toEqual([result.current.sentMessages[0]]);
+
+    act(() => {
+      result.current.clearFailedMessages();
+    });
+    expect(result.current.failedMessages).toEqual([]);
+  });
+
+  it('gives pending retries a last attempt on disconnect', () => {
+    let failing = true;
+    const flaky = createFlakyTransport(() => failing);
+    const client = createBroadcastClient('retry', {
+      batchingDelayMs: 0,
+      transport: flaky.transport,
+      telemetry: false,
+    });
+    client.connect();
+
+    client.postMessage('save', 1);
+    failing = false;
+    client.disconnect();
+
+    expect(flaky.sent.map(message => message.type)).toEqual(['save']);
+    jest.advanceTimersByTime(1000);
+    expect(flaky.attempts).toHaveLength(2);
+  });
+});
+
+describe('send failures behind transforms', () => {
+  it('retries with backoff behind a serializer', async () => {
+    let failures = 2;
+    const flaky = createFlakyTransport(() => failures-- > 0);
+    const onError = jest.fn();
+    const { result } = renderHook(() =>
+      useBroadcastChannel('retry', {
+        batchingDelayMs: 0,
+        transport: flaky.transport,
+        serializer: createSerializer(),
+        sendRetry: { delayMs: 100, backoffFactor: 3 },
+        onError,
+        telemetry: false,
+      })
+    );
+    const start = Date.now();
+
+    act(() => {
+      result.current.postMessage('save', new Date(0));
+    });
+    await act(() => jest.advanceTimersByTimeAsync(1000));
+
+    expect(flaky.attempts.map(at => at - start)).toEqual([0, 100, 400]);
+    expect(flaky.sent).toHaveLength(1);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(result.current.failedMessages).toEqual([]);
+  });
+
+  it('isolates a failing message and gives up on it behind a serializer', async () => {
+    const flaky = createFlakyTransport(message => message.type === 'bad');
+    const { result } = renderHook(() =>
+      useBroadcastChannel('retry', {
+        transport: flaky.transport,
+        serializer: createSerializer(),
+        sendRetry: { retries: 1, delayMs: 100 },
+        telemetry: false,
+      })
+    );
+
+    act(() => {
+      result.current.postMessage('good', 1);
+      result.current.postMessage('bad', 2);
+      result.current.postMessage('good', 3);
+    });
+    await act(() => jest.advanceTimersByTimeAsync(200));
+
+    expect(flaky.sent.map(message => message.type)).toEqual(['good', 'good']);
+    expect(result.current.failedMessages.map(message => message.type)).toEqual(['bad']);
+  });
+
+  it('retries, isolates and gives up on failing messages behind encryption', async () => {
+    // Web Crypto runs off the main thread, so this test waits on real timers
+    jest.useRealTimers();
+    const key = await webcrypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+      'encrypt',
+      'decrypt',
+    ]);
+    const flaky = createFlakyTransport(message => message.type === 'bad');
+    const { result } = renderHook(() =>
+      useBroadcastChannel('retry', {
+        transport: flaky.transport,
+        encryption: { key },
+        sendRetry: { retries: 2, delayMs: 5 },
+        telemetry: false,
+      })
+    );
+
+    act(() => {
+      result.current.postMessage('good', 1);
+      result.current.postMessage('bad', 2);
+      result.current.postMessage('good', 3);
+    });
+
+    await waitFor(() => expect(result.current.failedMessages).toHaveLength(1));
+    expect(result.current.failedMessages[0].type).toBe('bad');
+    expect(flaky.sent.map(message => message.type)).toEqual(['good', 'good']);
+    // The batch, each message on its own, then two retries of the failing one
+    expect(flaky.attempts).toHaveLength(6);
+  });
+});
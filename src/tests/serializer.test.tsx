@@ -0,0 +1,194 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useBroadcastChannel } from '../hooks/useBroadcastChannel';
+import { createSerializer, findUncloneable } from '../utils/serializer';
+import { BroadcastAckError } from '../utils/errors';
+import { BroadcastMessage } from '../types/types';
+import { bus, installBroadcastChannelBus } from './testUtils';
+
+installBroadcastChannelBus();
+
+class Money {
+  constructor(
+    public amount: number,
+    public currency: string
+  ) {}
+
+  format() {
+    return `${this.amount} ${this.currency}`;
+  }
+}
+
+class Temperature {
+  constructor(public celsius: number) {}
+
+  toJSON() {
+    return { c: this.celsius };
+  }
+
+  static fromJSON(data: { c: number }) {
+    return new Temperature(data.c);
+  }
+}
+
+describe('createSerializer', () => {
+  const serializer = createSerializer({ classes: { Money, Temperature } });
+  // The encoded form must survive JSON, as it does with the storage transport
+  const roundTrip = (value: unknown) =>
+    serializer.decode(JSON.parse(JSON.stringify(serializer.encode(value))));
+
+  it('restores Date, Map, Set and BigInt', () => {
+    const value = {
+      at: new Date(1000),
+      byId: new Map([[1, { tags: new Set(['a', 'b']) }]]),
+      big: BigInt('9007199254740993'),
+      list: [new Date(0), null, 'text'],
+    };
+
+    const restored = roundTrip(value) as typeof value;
+
+    expect(restored).toEqual(value);
+    expect(restored.byId.get(1)?.tags).toBeInstanceOf(Set);
+    expect(Number.isNaN((roundTrip(new Date(NaN)) as Date).getTime())).toBe(true);
+  });
+
+  it('revives registered classes', () => {
+    const restored = roundTrip({ price: new Money(5, 'EUR'), outside: new Temperature(21) }) as {
+      price: Money;
+      outside: Temperature;
+    };
+
+    expect(restored.price).toBeInstanceOf(Money);
+    expect(restored.price.format()).toBe('5 EUR');
+    expect(restored.outside).toEqual(new Temperature(21));
+    expect(serializer.encode(new Temperature(21))).toEqual(
+      expect.objectContaining({ name: 'Temperature', value: { c: 21 } })
+    );
+  });
+
+  it('keeps plain objects that use the tag key', () => {
+    expect(roundTrip({ __rbs_type: 'Date', value: 1 })).toEqual({ __rbs_type: 'Date', value: 1 });
+  });
+
+  it('rejects circular references and unknown classes', () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    expect(() => serializer.encode(circular)).toThrow('circular');
+    expect(() =>
+      createSerializer().decode(serializer.encode(new Money(1, 'USD')) as object)
+    ).toThrow('Unknown class "Money"');
+  });
+});
+
+describe('findUncloneable', () => {
+  it('reports the path of the first value that cannot be cloned', () => {
+    expect(findUncloneable({ user: { name: 'ann', save: () => {} } })).toEqual({
+      path: 'content.user.save',
+      reason: 'a function',
+    });
+    expect(findUncloneable({ items: [1, { 'data-node': document.createElement('div') }] })).toEqual(
+      { path: 'content.items[1]["data-node"]', reason: 'a DOM node' }
+    );
+    expect(findUncloneable(new Map([['done', Promise.resolve()]]))?.path).toBe('content.get(done)');
+  });
+
+  it('accepts cloneable values, cycles included', () => {
+    const cyclic: Record<string, unknown> = { at: new Date(), tags: new Set([1]) };
+    cyclic.self = cyclic;
+
+    expect(findUncloneable(cyclic)).toBeNull();
+    expect(findUncloneable(new Money(1, 'USD'))).toBeNull();
+  });
+});
+
+describe('sending content that cannot be cloned', () => {
+  it('reports the path and keeps other batched messages flowing', () => {
+    jest.useFakeTimers();
+    const { result: sender } = renderHook(() => useBroadcastChannel('orders', { sourceName: 'A' }));
+    const { result: receiver } = renderHook(() =>
+      useBroadcastChannel('orders', { sourceName: 'B' })
+    );
+
+    act(() => {
+      sender.current.postMessage('order', { id: 1, onSave: () => {} });
+    });
+    expect(sender.current.error).toBe(
+      'Message content cannot be sent: content.onSave is a function'
+    );
+    expect(sender.current.sentMessages).toEqual([]);
+
+    act(() => {
+      sender.current.postMessage('order', { id: 2 });
+      jest.advanceTimersByTime(20);
+    });
+    expect(receiver.current.messages.map(m => m.message)).toEqual([{ id: 2 }]);
+    jest.useRealTimers();
+  });
+
+  it('rejects acknowledged sends with NOT_CLONEABLE', async () => {
+    const { result } = renderHook(() => useBroadcastChannel('orders', { sourceName: 'A' }));
+
+    let delivery!: Promise<string[]>;
+    act(() => {
+      delivery = result.current.postMessage('order', { node: document.body }, { ack: true });
+    });
+
+    await expect(delivery).rejects.toBeInstanceOf(BroadcastAckError);
+    await expect(delivery).rejects.toMatchObject({ code: 'NOT_CLONEABLE' });
+  });
+});
+
+describe('serializer option', () => {
+  it('delivers restored values to other instances', async () => {
+    const serializer = createSerializer({ classes: { Money } });
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('orders', { sourceName: 'A', batchingDelayMs: 0, serializer })
+    );
+    const { result: receiver } = renderHook(() =>
+      useBroadcastChannel('orders', { sourceName: 'B', serializer })
+    );
+
+    act(() => {
+      sender.current.postMessage('order', { at: new Date(0), total: new Money(5, 'EUR') });
+    });
+
+    await waitFor(() => expect(receiver.current.messages).toHaveLength(1));
+    const { at, total } = receiver.current.messages[0].message;
+    expect(at).toEqual(new Date(0));
+    expect(total.format()).toBe('5 EUR');
+    // Encoded on the wire, as the storage transport or encryption would need
+    expect((bus.posted[0].data as BroadcastMessage).message.at).toEqual({
+      __rbs_type: 'Date',
+      value: 0,
+    });
+  });
+
+  it('reports content that fails to decode as invalid', async () => {
+    const onInvalidMessage = jest.fn();
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('orders', {
+        sourceName: 'A',
+        batchingDelayMs: 0,
+        serializer: createSerializer({ classes: { Money } }),
+      })
+    );
+    const { result: receiver } = renderHook(() =>
+      useBroadcastChannel('orders', {
+        sourceName: 'B',
+        serializer: createSerializer(),
+        onInvalidMessage,
+      })
+    );
+
+    act(() => {
+      sender.current.postMessage('order', new Money(5, 'EUR'));
+    });
+
+    await waitFor(() => expect(receiver.current.invalidMessageCount).toBe(1));
+    expect(onInvalidMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'order' }),
+      expect.objectContaining({ message: 'Unknown class "Money"' })
+    );
+    expect(receiver.current.messages).toEqual([]);
+  });
+});
@@ -0,0 +1,236 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { webcrypto } from 'crypto';
+import { useBroadcastChannel } from '../hooks/useBroadcastChannel';
+import { createMessage, getInternalMessageType } from '../utils/messageUtils';
+import { signMessage, verifyMessage } from '../utils/signing';
+import { BroadcastMessage } from '../types/types';
+import { bus, installBroadcastChannelBus, postFromOtherTab } from './testUtils';
+
+installBroadcastChannelBus();
+
+const generateHmacKey = () =>
+  webcrypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+    'verify',
+  ]) as Promise<CryptoKey>;
+
+// Posts raw data on the channel as an injected script would
+const inject = (data: unknown) => postFromOtherTab('session', data);
+
+let key: CryptoKey;
+
+beforeAll(async () => {
+  key = await generateHmacKey();
+});
+
+describe('signMessage / verifyMessage', () => {
+  it('attaches a signature that verifies and is stripped again', async () => {
+    const message = createMessage('login', { user: 'ann' }, 'A');
+
+    const signed = await signMessage(message, key);
+
+    expect(signed).toEqual({ ...message, signature: expect.any(String) });
+    expect(await verifyMessage(signed, key)).toEqual(message);
+  });
+
+  it('rejects unsigned messages', async () => {
+    await expect(verifyMessage(createMessage('login', 'x', 'A'), key)).rejects.toThrow(
+      'Message is not signed'
+    );
+  });
+
+  it('rejects tampered payloads, envelopes and foreign keys', async () => {
+    const signed = await signMessage(createMessage('login', { user: 'ann' }, 'A'), key);
+
+    await expect(verifyMessage({ ...signed, message: { user: 'eve' } }, key)).rejects.toThrow(
+      'Message signature is invalid'
+    );
+    await expect(verifyMessage({ ...signed, type: 'logout' }, key)).rejects.toThrow(
+      'Message signature is invalid'
+    );
+    await expect(verifyMessage(signed, await generateHmacKey())).rejects.toThrow(
+      'Message signature is invalid'
+    );
+    await expect(verifyMessage({ ...signed, ack: true }, key)).rejects.toThrow(
+      'Message signature is invalid'
+    );
+  });
+
+  it('rejects messages outside the freshness window', async () => {
+    const message = { ...createMessage('login', 'x', 'A'), timestamp: Date.now() - 2 * 60 * 1000 };
+    const signed = await signMessage(message, key);
+
+    await expect(verifyMessage(signed, key)).rejects.toThrow(
+      'Message timestamp is outside the accepted window'
+    );
+    expect(await verifyMessage(signed, key, 5 * 60 * 1000)).toEqual(message);
+  });
+});
+
+describe('useBroadcastChannel signing', () => {
+  it('delivers messages signed with the shared key', async () => {
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('session', { sourceName: 'A', batchingDelayMs: 0, signing: { key } })
+    );
+    const { result: receiver } = renderHook(() =>
+      useBroadcastChannel('session', { sourceName: 'B', signing: { key } })
+    );
+
+    act(() => {
+      sender.current.postMessage('login', { user: 'ann' });
+    });
+
+    await waitFor(() => expect(receiver.current.messages).toHaveLength(1));
+    expect(receiver.current.messages[0]).not.toHaveProperty('signature');
+    expect(bus.posted[0].data).toHaveProperty('signature', expect.any(String));
+  });
+
+  it('drops forged messages before deduplication and state updates', async () => {
+    const onInvalidMessage = jest.fn();
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('session', { sourceName: 'A', batchingDelayMs: 0, signing: { key } })
+    );
+    const { result: receiver } = renderHook(() =>
+      useBroadcastChannel('session', { sourceName: 'B', signing: { key }, onInvalidMessage })
+    );
+
+    const genuine = createMessage('login', { user: 'ann' }, 'A');
+    // A forged copy with the genuine id must not block the real message via deduplication
+    inject({ ...genuine, message: { user: 'eve' } });
+    inject({ ...genuine, message: { user: 'eve' }, signature: 'AAAA' });
+
+    await waitFor(() => expect(receiver.current.invalidMessageCount).toBe(2));
+    expect(receiver.current.messages).toEqual([]);
+    expect(onInvalidMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ id: genuine.id }),
+      expect.objectContaining({ message: 'Message is not signed' })
+    );
+
+    inject(await signMessage(genuine, key));
+    await waitFor(() => expect(receiver.current.messages).toHaveLength(1));
+    expect(receiver.current.messages[0].message).toEqual({ user: 'ann' });
+    expect(sender.current.error).toBeNull();
+  });
+
+  it('ignores spoofed clear requests', async () => {
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('session', { sourceName: 'A', batchingDelayMs: 0, signing: { key } })
+    );
+    const { result: receiver } = renderHook(() =>
+      useBroadcastChannel('session', { sourceName: 'B', signing: { key } })
+    );
+    act(() => {
+      sender.current.postMessage('login', { user: 'ann' });
+    });
+    await waitFor(() => expect(receiver.current.messages).toHaveLength(1));
+
+    inject(
+      createMessage(
+        getInternalMessageType('CLEAR_SENT_MESSAGES', 'session'),
+        { ids: [], types: [] },
+        'A'
+      )
+    );
+
+    await waitFor(() => expect(receiver.current.invalidMessageCount).toBe(1));
+    expect(receiver.current.messages).toHaveLength(1);
+  });
+
+  it('signs internal messages, so synced clears and ping still work', async () => {
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('session', { sourceName: 'A', batchingDelayMs: 0, signing: { key } })
+    );
+    const { result: receiver } = renderHook(() =>
+      useBroadcastChannel('session', { sourceName: 'B', signing: { key } })
+    );
+
+    let sources: string[] = [];
+    await act(async () => {
+      sources = await sender.current.ping(100);
+    });
+    expect(sources).toEqual(['B']);
+
+    act(() => {
+      sender.current.postMessage('login', { user: 'ann' });
+    });
+    await waitFor(() => expect(receiver.current.messages).toHaveLength(1));
+
+    act(() => {
+      sender.current.clearSentMessages({ sync: true });
+    });
+    await waitFor(() => expect(receiver.current.messages).toHaveLength(0));
+    expect(receiver.current.invalidMessageCount).toBe(0);
+  });
+
+  it('applies a replayed clear request only once', async () => {
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('session', { sourceName: 'A', batchingDelayMs: 0, signing: { key } })
+    );
+    const { result: receiver } = renderHook(() =>
+      useBroadcastChannel('session', { sourceName: 'B', signing: { key } })
+    );
+    act(() => {
+      sender.current.postMessage('login', { user: 'ann' });
+    });
+    await waitFor(() => expect(receiver.current.messages).toHaveLength(1));
+    act(() => {
+      sender.current.clearSentMessages({ sync: true });
+    });
+    await waitFor(() => expect(receiver.current.messages).toHaveLength(0));
+
+    const clearType = getInternalMessageType('CLEAR_SENT_MESSAGES', 'session');
+    const captured = bus.posted.find(
+      ({ data }) => (data as BroadcastMessage).type === clearType
+    )?.data;
+    act(() => {
+      sender.current.postMessage('login', { user: 'bob' });
+    });
+    await waitFor(() => expect(receiver.current.messages).toHaveLength(1));
+
+    inject(captured);
+    await act(async () => {});
+
+    expect(receiver.current.messages.map(m => m.message)).toEqual([{ user: 'bob' }]);
+  });
+
+  it('works together with encryption', async () => {
+    const encryptionKey = (await webcrypto.subtle.generateKey(
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    )) as CryptoKey;
+    const options = { signing: { key }, encryption: { key: encryptionKey } };
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel('session', { sourceName: 'A', batchingDelayMs: 0, ...options })
+    );
+    const { result: receiver } = renderHook(() =>
+      useBroadcastChannel('session', { sourceName: 'B', ...options })
+    );
+
+    act(() => {
+      sender.current.postMessage('login', { user: 'ann' });
+    });
+
+    await waitFor(() => expect(receiver.current.messages).toHaveLength(1));
+    expect(receiver.current.messages[0].message).toEqual({ user: 'ann' });
+    expect(JSON.stringify(bus.posted.map(entry => entry.data))).not.toContain('ann');
+  });
+
+  it('reports an error when signing fails', async () => {
+    const verifyOnly = (await webcrypto.subtle.generateKey(
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    )) as CryptoKey;
+    const { result } = renderHook(() =>
+      useBroadcastChannel('session', { batchingDelayMs: 0, signing: { key: verifyOnly } })
+    );
+
+    act(() => {
+      result.current.postMessage('login', 'x');
+    });
+
+    await waitFor(() => expect(result.current.error).toBe('Failed to sign message'));
+    expect(bus.posted).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { act } from '@testing-library/react';
+import { createBroadcastChannelBus } from '../utils/channelBus';
+
+/** In-memory bus behind the global BroadcastChannel of a test file */
+export const bus = createBroadcastChannelBus();
+
+/** A channel of the bus; `closed` is set once it is closed */
+export type BusChannel = BroadcastChannel & { closed: boolean };
+
+/** Every channel opened through the global BroadcastChannel in the current test, oldest first */
+export const openedChannels: BusChannel[] = [];
+
+/** Install `bus` as the global BroadcastChannel, reset after every test of the file */
+export const installBroadcastChannelBus = () => {
+  const previous = global.BroadcastChannel;
+  beforeEach(() => {
+    openedChannels.length = 0;
+    global.BroadcastChannel = class extends bus.BroadcastChannel {
+      constructor(name: string) {
+        super(name);
+        openedChannels.push(this as unknown as BusChannel);
+      }
+    };
+  });
+
+  afterEach(() => {
+    bus.reset();
+    bus.setLatency(0);
+    bus.setDrop(null);
+    if (previous) global.BroadcastChannel = previous;
+    else delete (global as any).BroadcastChannel;
+  });
+};
+
+/** Hand every pending message over; the bus delivers asynchronously, like browsers */
+export const deliver = () =>
+  act(() => {
+    bus.flush();
+  });
+
+/** Post raw data on a channel from another tab, then deliver it */
+export const postFromOtherTab = (channelName: string, data: unknown) => {
+  const channel = new (bus.createTab().BroadcastChannel)(channelName);
+  channel.postMessage(data);
+  deliver();
+  channel.close();
+};
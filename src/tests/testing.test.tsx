@@ -0,0 +1,159 @@
+import { act, fireEvent, renderHook, waitFor } from '@testing-library/react';
+import { useBroadcastChannel } from '../hooks/useBroadcastChannel';
+import { createBroadcastChannelBus, renderWithBroadcastTabs } from '../testing';
+import { BroadcastChannelBus } from '../types/types';
+
+const Counter = ({ sourceName }: { sourceName?: string }) => {
+  const { messages, postMessage } = useBroadcastChannel('counter', {
+    sourceName,
+    batchingDelayMs: 0,
+    telemetry: false,
+  });
+  return <button onClick={() => postMessage('increment', 1)}>received {messages.length}</button>;
+};
+
+let bus: BroadcastChannelBus;
+
+beforeEach(() => {
+  bus = createBroadcastChannelBus();
+});
+
+afterEach(() => {
+  bus.reset();
+});
+
+describe('createBroadcastChannelBus', () => {
+  it('delivers asynchronously to other channels of the same name only', () => {
+    jest.useFakeTimers();
+    const sender = new bus.BroadcastChannel('news');
+    const receiver = new bus.BroadcastChannel('news');
+    const other = new bus.BroadcastChannel('weather');
+    const onSender = jest.fn();
+    const onReceiver = jest.fn();
+    const onOther = jest.fn();
+    sender.onmessage = onSender;
+    receiver.addEventListener('message', onReceiver);
+    other.onmessage = onOther;
+
+    sender.postMessage('hello');
+    expect(onReceiver).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(0);
+    expect(onReceiver).toHaveBeenCalledWith(expect.objectContaining({ data: 'hello' }));
+    expect(onSender).not.toHaveBeenCalled();
+    expect(onOther).not.toHaveBeenCalled();
+    jest.useRealTimers();
+  });
+
+  it('copies data with structured clone semantics', () => {
+    const sender = new bus.BroadcastChannel('news');
+    const first = new bus.BroadcastChannel('news');
+    const second = new bus.BroadcastChannel('news');
+    const received: any[] = [];
+    first.onmessage = event => received.push(event.data);
+    second.onmessage = event => received.push(event.data);
+
+    const payload = { at: new Date(0), tags: new Set(['a']), nested: { count: 1 } };
+    sender.postMessage(payload);
+    payload.nested.count = 2;
+    bus.flush();
+
+    expect(received[0]).toEqual({ at: new Date(0), tags: new Set(['a']), nested: { count: 1 } });
+    expect(received[0]).not.toBe(received[1]);
+    expect(received[0].at).toBeInstanceOf(Date);
+    expect(() => sender.postMessage({ callback: () => {} })).toThrow(
+      expect.objectContaining({ name: 'DataCloneError' })
+    );
+  });
+
+  it('applies latency and drops deliveries', () => {
+    jest.useFakeTimers();
+    const tab = bus.createTab('other');
+    const local = new bus.BroadcastChannel('news');
+    const remote = new tab.BroadcastChannel('news');
+    const onRemote = jest.fn();
+    remote.onmessage = onRemote;
+
+    bus.setLatency(100);
+    local.postMessage('slow');
+    jest.advanceTimersByTime(99);
+    expect(onRemote).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    expect(onRemote).toHaveBeenCalledTimes(1);
+
+    bus.setDrop(delivery => delivery.to === 'other' && delivery.data === 'lost');
+    local.postMessage('lost');
+    local.postMessage('kept');
+    bus.flush();
+    expect(onRemote.mock.calls.map(([event]) => event.data)).toEqual(['slow', 'kept']);
+    expect(bus.posted.map(post => post.data)).toEqual(['slow', 'lost', 'kept']);
+    jest.useRealTimers();
+  });
+
+  it('rejects posts on closed channels and stops delivering to them', () => {
+    const sender = new bus.BroadcastChannel('news');
+    const receiver = new bus.BroadcastChannel('news');
+    const onReceiver = jest.fn();
+    receiver.onmessage = onReceiver;
+
+    sender.postMessage('in flight');
+    receiver.close();
+    bus.flush();
+
+    expect(onReceiver).not.toHaveBeenCalled();
+    expect(() => receiver.postMessage('late')).toThrow(
+      expect.objectContaining({ name: 'InvalidStateError' })
+    );
+  });
+});
+
+describe('virtual tabs', () => {
+  it('post messages that hooks accept', async () => {
+    const restore = bus.install();
+    const { result } = renderHook(() =>
+      useBroadcastChannel('news', { namespace: 'app', telemetry: false })
+    );
+
+    const message = bus.createTab().postMessage('news', 'headline', 'hello', {
+      source: 'remote',
+      namespace: 'app',
+    });
+
+    await waitFor(() => expect(result.current.messages).toHaveLength(1));
+    expect(result.current.messages[0]).toEqual(message);
+    restore();
+  });
+});
+
+describe('renderWithBroadcastTabs', () => {
+  it('mounts a component in tabs that hear each other through the bus', async () => {
+    const { tabs } = renderWithBroadcastTabs(
+      (_, index) => <Counter sourceName={`counter-${index}`} />,
+      { tabs: 3, bus }
+    );
+
+    act(() => {
+      fireEvent.click(tabs[0].getByRole('button'));
+    });
+    // Nothing arrives before the bus delivers
+    expect(tabs[1].getByRole('button').textContent).toBe('received 0');
+
+    await waitFor(() => expect(tabs[1].getByRole('button').textContent).toBe('received 1'));
+    expect(tabs[2].getByRole('button').textContent).toBe('received 1');
+    expect(tabs[0].getByRole('button').textContent).toBe('received 0');
+    expect(bus.posted.every(post => post.from === tabs[0].tab.id)).toBe(true);
+  });
+
+  it('closes the channels of a tab when it unmounts', async () => {
+    const { tabs } = renderWithBroadcastTabs(<Counter />, { bus });
+
+    tabs[1].unmount();
+    act(() => {
+      fireEvent.click(tabs[0].getByRole('button'));
+    });
+    bus.flush();
+
+    expect(bus.posted).toHaveLength(1);
+    expect(tabs[0].getByRole('button').textContent).toBe('received 0');
+  });
+});
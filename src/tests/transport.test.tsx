@@ -0,0 +1,242 @@
+import { renderHook, act } from '@testing-library/react';
+import { useBroadcastChannel } from '../hooks/useBroadcastChannel';
+import { BroadcastTransport } from '../types/types';
+import {
+  createStorageTransport,
+  isBroadcastChannelSupported,
+  resolveTransport,
+  createBroadcastChannelTransport,
+} from '../utils/transport';
+
+const STORAGE_KEY = (name: string) => `__react-broadcast-sync__:${name}`;
+
+// jsdom does not dispatch storage events to the writing window, so relay every write
+// back as if it came from another tab.
+const relayStorageWrites = () =>
+  jest.spyOn(Storage.prototype, 'setItem').mockImplementation((key: string, value: string) => {
+    window.dispatchEvent(new StorageEvent('storage', { key, newValue: value }));
+  });
+
+describe('transport', () => {
+  let originalBroadcastChannel: any;
+
+  beforeEach(() => {
+    originalBroadcastChannel = (global as any).BroadcastChannel;
+    delete (global as any).BroadcastChannel;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    (global as any).BroadcastChannel = originalBroadcastChannel;
+  });
+
+  describe('resolveTransport', () => {
+    it('returns null for broadcast-channel when the native API is missing', () => {
+      expect(isBroadcastChannelSupported()).toBe(false);
+      expect(resolveTransport('broadcast-channel')).toBeNull();
+      expect(resolveTransport()).toBeNull();
+    });
+
+    it('falls back to the storage transport in auto mode', () => {
+      expect(resolveTransport('auto')).toBe(createStorageTransport);
+    });
+
+    it('prefers BroadcastChannel in auto mode when available', () => {
+      (global as any).BroadcastChannel = class {};
+      expect(resolveTransport('auto')).toBe(createBroadcastChannelTransport);
+    });
+
+    it('returns custom factories untouched', () => {
+      const factory = jest.fn();
+      expect(resolveTransport(factory)).toBe(factory);
+    });
+  });
+
+  describe('createStorageTransport', () => {
+    it('delivers data written under its key to subscribers', () => {
+      const transport = createStorageTransport('storage-channel');
+      const listener = jest.fn();
+      transport.subscribe(listener);
+
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: STORAGE_KEY('storage-channel'),
+          newValue: JSON.stringify({ data: { hello: 'world' }, nonce: 'x' }),
+        })
+      );
+
+      expect(listener).toHaveBeenCalledWith({ hello: 'world' });
+      transport.close();
+    });
+
+    it('ignores other keys, removals and malformed envelopes', () => {
+      const transport = createStorageTransport('storage-channel');
+      const listener = jest.fn();
+      transport.subscribe(listener);
+
+      window.dispatchEvent(new StorageEvent('storage', { key: 'other', newValue: '{}' }));
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: STORAGE_KEY('storage-channel'), newValue: null })
+      );
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: STORAGE_KEY('storage-channel'), newValue: '{oops' })
+      );
+
+      expect(listener).not.toHaveBeenCalled();
+      transport.close();
+    });
+
+    it('writes and immediately removes the envelope on post', () => {
+      const setItem = jest.spyOn(Storage.prototype, 'setItem');
+      const transport = createStorageTransport('storage-channel');
+
+      transport.postMessage({ a: 1 });
+
+      expect(setItem).toHaveBeenCalledWith(STORAGE_KEY('storage-channel'), expect.any(String));
+      expect(JSON.parse(setItem.mock.calls[0][1]).data).toEqual({ a: 1 });
+      expect(window.localStorage.getItem(STORAGE_KEY('storage-channel'))).toBeNull();
+      transport.close();
+    });
+
+    it('stops delivering after close', () => {
+      relayStorageWrites();
+      const transport = createStorageTransport('storage-channel');
+      const listener = jest.fn();
+      transport.subscribe(listener);
+      transport.close();
+
+      transport.postMessage({ a: 1 });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('useBroadcastChannel with a fallback transport', () => {
+    it('sends and receives messages over storage events when BroadcastChannel is missing', () => {
+      relayStorageWrites();
+      const { result: hook1 } = renderHook(() =>
+        useBroadcastChannel('fallback', { sourceName: 'A', transport: 'auto', batchingDelayMs: 0 })
+      );
+      const { result: hook2 } = renderHook(() =>
+        useBroadcastChannel('fallback', { sourceName: 'B', transport: 'auto', batchingDelayMs: 0 })
+      );
+
+      expect(hook1.current.error).toBeNull();
+
+      act(() => {
+        hook1.current.postMessage('greeting', { text: 'hi' });
+      });
+
+      expect(hook2.current.messages).toHaveLength(1);
+      expect(hook2.current.messages[0].message).toEqual({ text: 'hi' });
+      expect(hook1.current.messages).toHaveLength(0);
+    });
+
+    it('keeps batching working over the storage transport', () => {
+      jest.useFakeTimers();
+      relayStorageWrites();
+      const { result: hook1 } = renderHook(() =>
+        useBroadcastChannel('fallback', { sourceName: 'A', transport: 'storage' })
+      );
+      const { result: hook2 } = renderHook(() =>
+        useBroadcastChannel('fallback', { sourceName: 'B', transport: 'storage' })
+      );
+
+      act(() => {
+        hook1.current.postMessage('one', 1);
+        hook1.current.postMessage('two', 2);
+      });
+      expect(hook2.current.messages).toHaveLength(0);
+
+      act(() => {
+        jest.advanceTimersByTime(25);
+      });
+
+      expect(hook2.current.messages.map(m => m.type)).toEqual(['one', 'two']);
+      jest.useRealTimers();
+    });
+
+    it('answers ping over the storage transport', async () => {
+      jest.useFakeTimers();
+      relayStorageWrites();
+      const { result: hook1 } = renderHook(() =>
+        useBroadcastChannel('fallback', { sourceName: 'A', transport: 'storage' })
+      );
+      renderHook(() => useBroadcastChannel('fallback', { sourceName: 'B', transport: 'storage' }));
+
+      let sources: string[] = [];
+      await act(async () => {
+        const promise = hook1.current.ping(100);
+        jest.advanceTimersByTime(100);
+        sources = await promise;
+      });
+
+      expect(sources).toEqual(['B']);
+      jest.useRealTimers();
+    });
+
+    it('syncs clearSentMessages over the storage transport', () => {
+      relayStorageWrites();
+      const { result: hook1 } = renderHook(() =>
+        useBroadcastChannel('fallback', {
+          sourceName: 'A',
+          transport: 'storage',
+          batchingDelayMs: 0,
+        })
+      );
+      const { result: hook2 } = renderHook(() =>
+        useBroadcastChannel('fallback', {
+          sourceName: 'B',
+          transport: 'storage',
+          batchingDelayMs: 0,
+        })
+      );
+
+      act(() => {
+        hook1.current.postMessage('note', 'x');
+      });
+      expect(hook2.current.messages).toHaveLength(1);
+
+      act(() => {
+        hook1.current.clearSentMessages({ sync: true });
+      });
+      expect(hook2.current.messages).toHaveLength(0);
+    });
+
+    it('uses a custom transport factory and closes it on unmount', () => {
+      const transport: BroadcastTransport = {
+        postMessage: jest.fn(),
+        subscribe: jest.fn(() => () => {}),
+        close: jest.fn(),
+      };
+      const factory = jest.fn(() => transport);
+
+      const { result, unmount } = renderHook(() =>
+        useBroadcastChannel('custom', { transport: factory, batchingDelayMs: 0 })
+      );
+
+      expect(factory).toHaveBeenCalledWith('custom');
+      act(() => {
+        result.current.postMessage('hello', 'world');
+      });
+      expect(transport.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'hello', message: 'world' })
+      );
+
+      unmount();
+      expect(transport.close).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports an error when a custom factory throws', () => {
+      const { result } = renderHook(() =>
+        useBroadcastChannel('custom', {
+          transport: () => {
+            throw new Error('nope');
+          },
+        })
+      );
+
+      expect(result.current.error).toBe('Failed to create BroadcastChannel');
+    });
+  });
+});
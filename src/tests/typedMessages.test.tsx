@@ -0,0 +1,96 @@
+import React from 'react';
+import { renderHook, act } from '@testing-library/react';
+import { useBroadcastChannel } from '../hooks/useBroadcastChannel';
+import { BroadcastProvider, useBroadcastProvider } from '../BroadcastProvider';
+import { installBroadcastChannelBus } from './testUtils';
+
+installBroadcastChannelBus();
+
+interface TodoMessages {
+  'todo-updated': { id: number; title: string };
+  'todo-removed': { id: number };
+}
+
+describe('typed message maps', () => {
+  it('narrows payloads by message type', () => {
+    const onRemoved = jest.fn();
+    const { result: sender } = renderHook(() =>
+      useBroadcastChannel<TodoMessages>('todos', { sourceName: 'A', batchingDelayMs: 0 })
+    );
+    const { result: receiver } = renderHook(() =>
+      useBroadcastChannel<TodoMessages>('todos', {
+        sourceName: 'B',
+        registeredTypes: ['todo-updated', 'todo-removed'],
+        onMessage: {
+          'todo-removed': msg => onRemoved(msg.message.id),
+        },
+      })
+    );
+
+    act(() => {
+      sender.current.postMessage('todo-updated', { id: 1, title: 'Write docs' });
+      sender.current.postMessage('todo-removed', { id: 2 });
+    });
+
+    const [first] = receiver.current.messages;
+    expect(first?.type).toBe('todo-updated');
+    if (first?.type !== 'todo-updated') throw new Error('Expected a todo-updated message');
+    const title: string = first.message.title;
+    expect(title).toBe('Write docs');
+
+    const latest = receiver.current.getLatestMessage({ type: 'todo-removed' });
+    const removedId: number | undefined = latest?.message.id;
+    expect(removedId).toBe(2);
+    expect(onRemoved).toHaveBeenCalledWith(2);
+  });
+
+  it('rejects unknown types and mismatched payloads at compile time', () => {
+    const { result } = renderHook(() =>
+      useBroadcastChannel<TodoMessages>('todos', { batchingDelayMs: 0 })
+    );
+
+    act(() => {
+      // @ts-expect-error — 'todo-added' is not part of the message map
+      result.current.postMessage('todo-added', { id: 1 });
+      // @ts-expect-error — payload is missing `title`
+      result.current.postMessage('todo-updated', { id: 1 });
+    });
+
+    renderHook(() =>
+      useBroadcastChannel<TodoMessages>('todos', {
+        // @ts-expect-error — unknown registered type
+        registeredTypes: ['todo-added'],
+      })
+    );
+  });
+
+  it('keeps the untyped API when no map is given', () => {
+    const { result } = renderHook(() => useBroadcastChannel('any', { batchingDelayMs: 0 }));
+
+    act(() => {
+      result.current.postMessage('whatever', 42);
+      result.current.postMessage('else', { anything: true });
+    });
+
+    expect(result.current.sentMessages.map(m => m.type)).toEqual(['whatever', 'else']);
+  });
+
+  it('flows the message map through BroadcastProvider and useBroadcastProvider', () => {
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <BroadcastProvider<TodoMessages> channelName="todos" options={{ batchingDelayMs: 0 }}>
+        {children}
+      </BroadcastProvider>
+    );
+    const { result } = renderHook(() => useBroadcastProvider<TodoMessages>(), { wrapper });
+
+    act(() => {
+      result.current.postMessage('todo-removed', { id: 7 });
+    });
+
+    const sent = result.current.sentMessages[0];
+    expect(sent?.type).toBe('todo-removed');
+    if (sent?.type !== 'todo-removed') throw new Error('Expected a todo-removed message');
+    const id: number = sent.message.id;
+    expect(id).toBe(7);
+  });
+});
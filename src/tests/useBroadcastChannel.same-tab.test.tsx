@@ -1,57 +1,7 @@
 import { renderHook, act } from '@testing-library/react';
 import { useBroadcastChannel } from '../hooks/useBroadcastChannel';
-
-let mockChannels: any[] = [];
-
-class MockBroadcastChannel {
-  name: string;
-  onmessage: ((event: MessageEvent) => void) | null = null;
-  postMessage = jest.fn((data: any) => {
-    // Simulate broadcasting to all channels with the same name
-    const targetChannels = mockChannels.filter(
-      channel => channel.name === this.name && channel !== this
-    );
-
-    targetChannels.forEach(channel => {
-      if (channel.onmessage) {
-        // Use setTimeout to simulate async behavior
-        setTimeout(() => {
-          // Support both single and batched (array) messages
-          if (Array.isArray(data)) {
-            data.forEach(msg => channel.onmessage!({ data: msg } as MessageEvent));
-          } else {
-            channel.onmessage!({ data } as MessageEvent);
-          }
-        }, 0);
-      }
-    });
-  });
-  close = jest.fn();
-  addEventListener = jest.fn((event: string, callback: (event: MessageEvent) => void) => {
-    if (event === 'message') {
-      this.onmessage = callback;
-    }
-  });
-  removeEventListener = jest.fn();
-
-  constructor(name: string) {
-    this.name = name;
-    mockChannels.push(this);
-  }
-
-  simulateMessage(data: any) {
-    if (this.onmessage) {
-      setTimeout(() => {
-        // Support both single and batched (array) messages
-        if (Array.isArray(data)) {
-          data.forEach(msg => this.onmessage!({ data: msg } as MessageEvent));
-        } else {
-          this.onmessage!({ data } as MessageEvent);
-        }
-      }, 0);
-    }
-  }
-}
+import { BroadcastMessage } from '../types/types';
+import { bus, installBroadcastChannelBus, openedChannels, postFromOtherTab } from './testUtils';
 
 const waitForAsync = async () => {
   // Wait for all async operations to complete
@@ -60,22 +10,7 @@ const waitForAsync = async () => {
   });
 };
 
-beforeAll(() => {
-  global.BroadcastChannel = MockBroadcastChannel as any;
-});
-
-beforeEach(() => {
-  mockChannels = [];
-  jest.clearAllMocks();
-});
-
-afterEach(() => {
-  jest.clearAllMocks();
-});
-
-afterAll(() => {
-  delete (global as any).BroadcastChannel;
-});
+installBroadcastChannelBus();
 
 describe('useBroadcastChannel - Same Tab Multi-Hook Behavior', () => {
   const CHANNEL_NAME = 'test-channel';
@@ -258,13 +193,8 @@ describe('useBroadcastChannel - Same Tab Multi-Hook Behavior', () => {
         timestamp: Date.now(),
       };
 
-      act(() => {
-        // Simulate the same message to both channels
-        mockChannels.forEach(channel => {
-          channel.simulateMessage(duplicateMessage);
-          channel.simulateMessage(duplicateMessage); // Send duplicate
-        });
-      });
+      postFromOtherTab(CHANNEL_NAME, duplicateMessage);
+      postFromOtherTab(CHANNEL_NAME, duplicateMessage); // Send duplicate
 
       await waitForAsync();
 
@@ -358,11 +288,7 @@ describe('useBroadcastChannel - Same Tab Multi-Hook Behavior', () => {
       ];
 
       for (const msg of externalMessages) {
-        act(() => {
-          mockChannels.forEach(channel => {
-            channel.simulateMessage(msg);
-          });
-        });
+        postFromOtherTab(CHANNEL_NAME, msg);
         await waitForAsync();
       }
 
@@ -421,11 +347,7 @@ describe('useBroadcastChannel - Same Tab Multi-Hook Behavior', () => {
       ];
 
       for (const msg of messages) {
-        act(() => {
-          mockChannels.forEach(channel => {
-            channel.simulateMessage(msg);
-          });
-        });
+        postFromOtherTab(CHANNEL_NAME, msg);
         await waitForAsync();
       }
 
@@ -467,11 +389,7 @@ describe('useBroadcastChannel - Same Tab Multi-Hook Behavior', () => {
         timestamp: Date.now(),
       };
 
-      act(() => {
-        mockChannels.forEach(channel => {
-          channel.simulateMessage(message);
-        });
-      });
+      postFromOtherTab(CHANNEL_NAME, message);
 
       await waitForAsync();
 
@@ -522,11 +440,7 @@ describe('useBroadcastChannel - Same Tab Multi-Hook Behavior', () => {
       ];
 
       for (const msg of messages) {
-        act(() => {
-          mockChannels.forEach(channel => {
-            channel.simulateMessage(msg);
-          });
-        });
+        postFromOtherTab(CHANNEL_NAME, msg);
         await waitForAsync();
       }
 
@@ -590,13 +504,9 @@ describe('useBroadcastChannel - Same Tab Multi-Hook Behavior', () => {
         timestamp: Date.now(),
       };
 
-      act(() => {
-        for (let i = 0; i < 5; i++) {
-          mockChannels.forEach(channel => {
-            channel.simulateMessage(duplicateMessage);
-          });
-        }
-      });
+      for (let i = 0; i < 5; i++) {
+        postFromOtherTab(CHANNEL_NAME, duplicateMessage);
+      }
 
       await waitForAsync();
 
@@ -677,6 +587,62 @@ describe('useBroadcastChannel - Same Tab Multi-Hook Behavior', () => {
     });
   });
 
+  describe('12. Shared Channel', () => {
+    it('should open one channel for all hooks and close it with the last one', async () => {
+      const { unmount: unmount1 } = renderHook(() =>
+        useBroadcastChannel(CHANNEL_NAME, { ...testOptions, sourceName: 'source-1' })
+      );
+      const { unmount: unmount2 } = renderHook(() =>
+        useBroadcastChannel(CHANNEL_NAME, { ...testOptions, sourceName: 'source-2' })
+      );
+      renderHook(() => useBroadcastChannel('other-channel', testOptions));
+
+      await waitForAsync();
+      expect(openedChannels.map(channel => channel.name)).toEqual([CHANNEL_NAME, 'other-channel']);
+
+      unmount1();
+      expect(openedChannels[0].closed).toBe(false);
+      unmount2();
+      expect(openedChannels[0].closed).toBe(true);
+      expect(openedChannels[1].closed).toBe(false);
+    });
+
+    it('should deliver to sibling hooks without a round trip through the channel', async () => {
+      const { result: hook1 } = renderHook(() =>
+        useBroadcastChannel(CHANNEL_NAME, { ...testOptions, sourceName: 'source-1' })
+      );
+      const { result: hook2 } = renderHook(() =>
+        useBroadcastChannel(CHANNEL_NAME, { ...testOptions, sourceName: 'source-2' })
+      );
+      await waitForAsync();
+
+      act(() => {
+        hook1.current.postMessage('greeting', { from: 'hook1' });
+      });
+
+      // Received before the channel's asynchronous delivery could have happened
+      expect(hook2.current.messages).toHaveLength(1);
+      expect(bus.posted.map(({ data }) => (data as BroadcastMessage).type)).toEqual(['greeting']);
+    });
+
+    it('should share interval timers between hooks', async () => {
+      const setIntervalSpy = jest.spyOn(global, 'setInterval');
+      const hooks = ['source-1', 'source-2', 'source-3'].map(sourceName =>
+        renderHook(() =>
+          useBroadcastChannel(CHANNEL_NAME, { ...testOptions, cleaningInterval: 1000, sourceName })
+        )
+      );
+      await waitForAsync();
+
+      const periods = setIntervalSpy.mock.calls.map(([, delay]) => delay);
+      expect(periods.filter(delay => delay === 1000)).toHaveLength(1);
+      expect(periods.filter(delay => delay === 60 * 1000)).toHaveLength(1);
+
+      hooks.forEach(hook => hook.unmount());
+      setIntervalSpy.mockRestore();
+    });
+  });
+
   describe('Additional Edge Cases', () => {
     it('should handle clearMessagesByType coordination in same tab', async () => {
       const { result: hook1 } = renderHook(() =>
@@ -799,11 +765,7 @@ describe('useBroadcastChannel - Same Tab Multi-Hook Behavior', () => {
       ];
 
       for (const msg of externalMessages) {
-        act(() => {
-          mockChannels.forEach(channel => {
-            channel.simulateMessage(msg);
-          });
-        });
+        postFromOtherTab(CHANNEL_NAME, msg);
         await waitForAsync();
       }
 
@@ -893,11 +855,7 @@ describe('useBroadcastChannel - Same Tab Multi-Hook Behavior', () => {
       ];
 
       for (const msg of messages) {
-        act(() => {
-          mockChannels.forEach(channel => {
-            channel.simulateMessage(msg);
-          });
-        });
+        postFromOtherTab(CHANNEL_NAME, msg);
         await waitForAsync();
       }
 
@@ -930,12 +888,8 @@ describe('useBroadcastChannel - Same Tab Multi-Hook Behavior', () => {
         timestamp: Date.now(),
       };
 
-      act(() => {
-        mockChannels.forEach(channel => {
-          channel.simulateMessage(duplicateMessage);
-          channel.simulateMessage(duplicateMessage); // Immediate duplicate
-        });
-      });
+      postFromOtherTab(CHANNEL_NAME, duplicateMessage);
+      postFromOtherTab(CHANNEL_NAME, duplicateMessage); // Immediate duplicate
 
       await waitForAsync();
 
@@ -975,12 +929,8 @@ describe('useBroadcastChannel - Same Tab Multi-Hook Behavior', () => {
         expirationDate: now + 5000, // Expires in 5 seconds (more buffer)
       };
 
-      act(() => {
-        mockChannels.forEach(channel => {
-          channel.simulateMessage(expiredMessage);
-          channel.simulateMessage(validMessage);
-        });
-      });
+      postFromOtherTab(CHANNEL_NAME, expiredMessage);
+      postFromOtherTab(CHANNEL_NAME, validMessage);
 
       await waitForAsync();
 
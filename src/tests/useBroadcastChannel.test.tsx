@@ -1,105 +1,16 @@
 import { renderHook, act, waitFor } from '@testing-library/react';
 import { useBroadcastChannel } from '../hooks/useBroadcastChannel';
 import { getInternalMessageType } from '../utils/messageUtils';
+import { BroadcastRequestError } from '../utils/errors';
+import {
+  bus,
+  deliver,
+  installBroadcastChannelBus,
+  openedChannels,
+  postFromOtherTab,
+} from './testUtils';
 
-let mockChannels: any[] = [];
-
-class MockBroadcastChannel {
-  static channels: Record<string, MockBroadcastChannel[]> = {};
-
-  name: string;
-  _onmessage: ((event: MessageEvent) => void) | null = null;
-  closed = false;
-
-  constructor(name: string) {
-    this.name = name;
-    if (!MockBroadcastChannel.channels[name]) {
-      MockBroadcastChannel.channels[name] = [];
-    }
-    MockBroadcastChannel.channels[name].push(this);
-    mockChannels.push(this); // keep your existing tracking
-  }
-
-  postMessage = jest.fn((data: any) => {
-    const others = MockBroadcastChannel.channels[this.name] || [];
-    for (const channel of others) {
-      if (channel !== this && !channel.closed && channel._onmessage) {
-        // Support both single and batched (array) messages
-        if (Array.isArray(data)) {
-          data.forEach(msg => channel._onmessage!({ data: msg } as MessageEvent));
-        } else {
-          channel._onmessage({ data } as MessageEvent);
-        }
-      }
-    }
-  });
-
-  close = jest.fn(() => {
-    this.closed = true;
-    this._onmessage = null;
-  });
-
-  addEventListener = jest.fn((event: string, callback: (event: MessageEvent) => void) => {
-    if (event === 'message') {
-      this._onmessage = callback;
-    }
-  });
-
-  removeEventListener = jest.fn((event: string, callback: (event: MessageEvent) => void) => {
-    if (event === 'message' && this._onmessage === callback) {
-      this._onmessage = null;
-    }
-  });
-
-  get onmessage() {
-    return this._onmessage;
-  }
-  set onmessage(fn) {
-    this._onmessage = fn;
-  }
-
-  simulateMessage(data: any) {
-    if (this.closed || !this._onmessage) return;
-    // Support both single and batched (array) messages
-    if (Array.isArray(data)) {
-      data.forEach(msg => this._onmessage!({ data: msg } as MessageEvent));
-    } else {
-      this._onmessage({ data } as MessageEvent);
-    }
-  }
-}
-
-const waitForChannel = async () => {
-  return new Promise<void>(resolve => {
-    const checkChannel = () => {
-      if (mockChannels.length > 0) {
-        resolve();
-      } else {
-        setTimeout(checkChannel, 0);
-      }
-    };
-    checkChannel();
-  });
-};
-
-beforeAll(() => {
-  global.BroadcastChannel = MockBroadcastChannel as any;
-});
-
-beforeEach(() => {
-  mockChannels = [];
-  MockBroadcastChannel.channels = {};
-  global.BroadcastChannel = MockBroadcastChannel as any;
-});
-
-afterEach(() => {
-  jest.clearAllMocks();
-  global.BroadcastChannel = MockBroadcastChannel as any;
-});
-
-afterAll(() => {
-  delete (global as any).BroadcastChannel;
-});
+installBroadcastChannelBus();
 
 describe('useBroadcastChannel', () => {
   describe('Core Functionality', () => {
@@ -110,7 +21,6 @@ describe('useBroadcastChannel', () => {
       const { result: hook2 } = renderHook(() =>
         useBroadcastChannel('test-channel', { sourceName: 'source-2' })
       );
-      await waitForChannel();
 
       act(() => {
         hook1.current.postMessage('greeting', { text: 'hi' });
@@ -126,7 +36,6 @@ describe('useBroadcastChannel', () => {
 
     it('ignores self messages', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
 
       act(() => {
         result.current.postMessage('test', 'msg');
@@ -138,7 +47,6 @@ describe('useBroadcastChannel', () => {
 
     it('creates message with expiration duration', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
 
       act(() => {
         result.current.postMessage('test', { data: 'test' }, { expirationDuration: 5000 });
@@ -153,8 +61,6 @@ describe('useBroadcastChannel', () => {
   describe('Message Clearing', () => {
     it('clears a specific received message', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
-      const channel = mockChannels[0];
 
       const msg = {
         id: '123',
@@ -164,9 +70,7 @@ describe('useBroadcastChannel', () => {
         timestamp: Date.now(),
       };
 
-      act(() => {
-        channel.simulateMessage(msg);
-      });
+      postFromOtherTab('test-channel', msg);
 
       expect(result.current.messages.length).toBe(1);
 
@@ -179,24 +83,20 @@ describe('useBroadcastChannel', () => {
 
     it('clears all received messages', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
-      const channel = mockChannels[0];
 
-      act(() => {
-        channel.simulateMessage({
-          id: '1',
-          type: 'a',
-          message: 'a',
-          source: 'x',
-          timestamp: Date.now(),
-        });
-        channel.simulateMessage({
-          id: '2',
-          type: 'b',
-          message: 'b',
-          source: 'x',
-          timestamp: Date.now(),
-        });
+      postFromOtherTab('test-channel', {
+        id: '1',
+        type: 'a',
+        message: 'a',
+        source: 'x',
+        timestamp: Date.now(),
+      });
+      postFromOtherTab('test-channel', {
+        id: '2',
+        type: 'b',
+        message: 'b',
+        source: 'x',
+        timestamp: Date.now(),
       });
 
       expect(result.current.messages.length).toBe(2);
@@ -210,7 +110,6 @@ describe('useBroadcastChannel', () => {
 
     it('clears a specific sent message', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
 
       act(() => {
         result.current.postMessage('test-type', { key: 'value' });
@@ -228,10 +127,6 @@ describe('useBroadcastChannel', () => {
 
     it('handles internal clear message (single id) from other source', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-
-      await waitForChannel();
-
-      const channel = mockChannels[0];
       const externalSource = 'external-source';
 
       const msg = {
@@ -250,23 +145,17 @@ describe('useBroadcastChannel', () => {
         source: externalSource,
       };
 
-      act(() => {
-        channel.simulateMessage(msg);
-      });
+      postFromOtherTab('test-channel', msg);
 
       expect(result.current.messages.length).toBe(1);
 
-      act(() => {
-        channel.simulateMessage(internalClear);
-      });
+      postFromOtherTab('test-channel', internalClear);
 
       expect(result.current.messages.length).toBe(0);
     });
 
     it('handles internal clear all messages (wildcard) from other source', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
-      const channel = mockChannels[0];
       const externalSource = 'external-source';
 
       const msg1 = {
@@ -291,18 +180,14 @@ describe('useBroadcastChannel', () => {
         source: externalSource,
       };
 
-      act(() => {
-        channel.simulateMessage(msg1);
-        channel.simulateMessage(msg2);
-      });
+      postFromOtherTab('test-channel', msg1);
+      postFromOtherTab('test-channel', msg2);
 
       await waitFor(() => {
         expect(result.current.messages.length).toBe(2);
       });
 
-      act(() => {
-        channel.simulateMessage(internalClear);
-      });
+      postFromOtherTab('test-channel', internalClear);
 
       await waitFor(() => {
         expect(result.current.messages.length).toBe(0);
@@ -344,10 +229,7 @@ describe('useBroadcastChannel', () => {
       const { result } = renderHook(() =>
         useBroadcastChannel('test-channel', { batchingDelayMs: 0 })
       );
-      await waitForChannel();
-      const channel = mockChannels[0];
-
-      channel.postMessage.mockImplementationOnce(() => {
+      jest.spyOn(openedChannels[0], 'postMessage').mockImplementationOnce(() => {
         throw new Error('Failed to post message');
       });
 
@@ -360,8 +242,6 @@ describe('useBroadcastChannel', () => {
 
     it('handles error when processing message fails', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
-      const channel = mockChannels[0];
 
       const badMessage: any = {};
       Object.defineProperty(badMessage, 'id', {
@@ -374,7 +254,8 @@ describe('useBroadcastChannel', () => {
       badMessage.timestamp = Date.now();
 
       act(() => {
-        channel.simulateMessage(badMessage);
+        // Handed to the hook's channel directly, since posting would clone the getter away
+        openedChannels[0].dispatchEvent(new MessageEvent('message', { data: badMessage }));
       });
 
       await waitFor(() => {
@@ -384,12 +265,8 @@ describe('useBroadcastChannel', () => {
 
     it('handles invalid messages', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
-      const channel = mockChannels[0];
 
-      act(() => {
-        channel.simulateMessage({ invalid: 'message' });
-      });
+      postFromOtherTab('test-channel', { invalid: 'message' });
 
       expect(result.current.messages.length).toBe(0);
     });
@@ -398,8 +275,6 @@ describe('useBroadcastChannel', () => {
   describe('Message Lifecycle & Cleanup', () => {
     it('handles expired messages', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
-      const channel = mockChannels[0];
 
       const expiredMessage = {
         id: 'expired-1',
@@ -410,9 +285,7 @@ describe('useBroadcastChannel', () => {
         expirationDate: Date.now() - 1000000,
       };
 
-      act(() => {
-        channel.simulateMessage(expiredMessage);
-      });
+      postFromOtherTab('test-channel', expiredMessage);
 
       expect(result.current.messages.length).toBe(0);
     });
@@ -422,18 +295,14 @@ describe('useBroadcastChannel', () => {
       const { result } = renderHook(() =>
         useBroadcastChannel('test-channel', { cleaningInterval: 1000 })
       );
-      await waitForChannel();
-      const channel = mockChannels[0];
 
-      act(() => {
-        channel.simulateMessage({
-          id: 'expired-2',
-          type: 'test',
-          message: 'expired',
-          source: 'another-tab',
-          timestamp: Date.now() - 1000000,
-          expirationDate: Date.now() - 1000000,
-        });
+      postFromOtherTab('test-channel', {
+        id: 'expired-2',
+        type: 'test',
+        message: 'expired',
+        source: 'another-tab',
+        timestamp: Date.now() - 1000000,
+        expirationDate: Date.now() - 1000000,
       });
 
       act(() => {
@@ -452,18 +321,14 @@ describe('useBroadcastChannel', () => {
           cleanupDebounceMs: 500,
         })
       );
-      await waitForChannel();
-      const channel = mockChannels[0];
 
-      act(() => {
-        channel.simulateMessage({
-          id: 'expired-3',
-          type: 'test',
-          message: 'expired',
-          source: 'another-tab',
-          timestamp: Date.now() - 1000000,
-          expirationDate: Date.now() - 1000000,
-        });
+      postFromOtherTab('test-channel', {
+        id: 'expired-3',
+        type: 'test',
+        message: 'expired',
+        source: 'another-tab',
+        timestamp: Date.now() - 1000000,
+        expirationDate: Date.now() - 1000000,
       });
 
       act(() => {
@@ -478,8 +343,6 @@ describe('useBroadcastChannel', () => {
       const { result } = renderHook(() =>
         useBroadcastChannel('test-channel', { deduplicationTTL: 5000 })
       );
-      await waitForChannel();
-      const channel = mockChannels[0];
 
       const message = {
         id: 'duplicate-1',
@@ -489,10 +352,8 @@ describe('useBroadcastChannel', () => {
         timestamp: Date.now(),
       };
 
-      act(() => {
-        channel.simulateMessage(message);
-        channel.simulateMessage(message);
-      });
+      postFromOtherTab('test-channel', message);
+      postFromOtherTab('test-channel', message);
 
       expect(result.current.messages.length).toBe(1);
     });
@@ -505,29 +366,23 @@ describe('useBroadcastChannel', () => {
           registeredTypes: ['allowed-type'],
         })
       );
-      await waitForChannel();
-      const channel = mockChannels[0];
 
-      act(() => {
-        channel.simulateMessage({
-          id: 'unregistered',
-          type: 'unregistered-type',
-          message: 'test',
-          source: 'another-tab',
-          timestamp: Date.now(),
-        });
+      postFromOtherTab('test-channel', {
+        id: 'unregistered',
+        type: 'unregistered-type',
+        message: 'test',
+        source: 'another-tab',
+        timestamp: Date.now(),
       });
 
       expect(result.current.messages.length).toBe(0);
 
-      act(() => {
-        channel.simulateMessage({
-          id: 'registered',
-          type: 'allowed-type',
-          message: 'test',
-          source: 'another-tab',
-          timestamp: Date.now(),
-        });
+      postFromOtherTab('test-channel', {
+        id: 'registered',
+        type: 'allowed-type',
+        message: 'test',
+        source: 'another-tab',
+        timestamp: Date.now(),
       });
 
       await waitFor(() => {
@@ -539,24 +394,20 @@ describe('useBroadcastChannel', () => {
       const { result } = renderHook(() =>
         useBroadcastChannel('test-channel', { keepLatestMessage: true })
       );
-      await waitForChannel();
-      const channel = mockChannels[0];
 
-      act(() => {
-        channel.simulateMessage({
-          id: 'msg1',
-          type: 'test',
-          message: 'first',
-          source: 'another-tab',
-          timestamp: Date.now(),
-        });
-        channel.simulateMessage({
-          id: 'msg2',
-          type: 'test',
-          message: 'second',
-          source: 'another-tab',
-          timestamp: Date.now(),
-        });
+      postFromOtherTab('test-channel', {
+        id: 'msg1',
+        type: 'test',
+        message: 'first',
+        source: 'another-tab',
+        timestamp: Date.now(),
+      });
+      postFromOtherTab('test-channel', {
+        id: 'msg2',
+        type: 'test',
+        message: 'second',
+        source: 'another-tab',
+        timestamp: Date.now(),
       });
 
       expect(result.current.messages.length).toBe(1);
@@ -567,14 +418,11 @@ describe('useBroadcastChannel', () => {
   describe('getLatestMessage', () => {
     it('returns null if there are no messages', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
       expect(result.current.getLatestMessage()).toBeNull();
     });
 
     it('returns the latest message if no options are provided', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
-      const channel = mockChannels[0];
       const msg1 = {
         id: '1',
         type: 'typeA',
@@ -589,17 +437,13 @@ describe('useBroadcastChannel', () => {
         source: 'source2',
         timestamp: Date.now() + 1,
       };
-      act(() => {
-        channel.simulateMessage(msg1);
-        channel.simulateMessage(msg2);
-      });
+      postFromOtherTab('test-channel', msg1);
+      postFromOtherTab('test-channel', msg2);
       expect(result.current.getLatestMessage()).toEqual(expect.objectContaining(msg2));
     });
 
     it('returns the latest message matching type', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
-      const channel = mockChannels[0];
       const msg1 = {
         id: '1',
         type: 'typeA',
@@ -621,11 +465,9 @@ describe('useBroadcastChannel', () => {
         source: 'source3',
         timestamp: Date.now() + 2,
       };
-      act(() => {
-        channel.simulateMessage(msg1);
-        channel.simulateMessage(msg2);
-        channel.simulateMessage(msg3);
-      });
+      postFromOtherTab('test-channel', msg1);
+      postFromOtherTab('test-channel', msg2);
+      postFromOtherTab('test-channel', msg3);
       expect(result.current.getLatestMessage({ type: 'typeA' })).toEqual(
         expect.objectContaining(msg3)
       );
@@ -633,8 +475,6 @@ describe('useBroadcastChannel', () => {
 
     it('returns the latest message matching source', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
-      const channel = mockChannels[0];
       const msg1 = {
         id: '1',
         type: 'typeA',
@@ -656,11 +496,9 @@ describe('useBroadcastChannel', () => {
         source: 'source1',
         timestamp: Date.now() + 2,
       };
-      act(() => {
-        channel.simulateMessage(msg1);
-        channel.simulateMessage(msg2);
-        channel.simulateMessage(msg3);
-      });
+      postFromOtherTab('test-channel', msg1);
+      postFromOtherTab('test-channel', msg2);
+      postFromOtherTab('test-channel', msg3);
       expect(result.current.getLatestMessage({ source: 'source1' })).toEqual(
         expect.objectContaining(msg3)
       );
@@ -668,8 +506,6 @@ describe('useBroadcastChannel', () => {
 
     it('returns the latest message matching both type and source', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
-      const channel = mockChannels[0];
       const msg1 = {
         id: '1',
         type: 'typeA',
@@ -691,11 +527,9 @@ describe('useBroadcastChannel', () => {
         source: 'source1',
         timestamp: Date.now() + 2,
       };
-      act(() => {
-        channel.simulateMessage(msg1);
-        channel.simulateMessage(msg2);
-        channel.simulateMessage(msg3);
-      });
+      postFromOtherTab('test-channel', msg1);
+      postFromOtherTab('test-channel', msg2);
+      postFromOtherTab('test-channel', msg3);
       expect(result.current.getLatestMessage({ type: 'typeA', source: 'source1' })).toEqual(
         expect.objectContaining(msg3)
       );
@@ -703,8 +537,6 @@ describe('useBroadcastChannel', () => {
 
     it('returns null if no message matches the filter', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
-      const channel = mockChannels[0];
       const msg1 = {
         id: '1',
         type: 'typeA',
@@ -712,9 +544,7 @@ describe('useBroadcastChannel', () => {
         source: 'source1',
         timestamp: Date.now(),
       };
-      act(() => {
-        channel.simulateMessage(msg1);
-      });
+      postFromOtherTab('test-channel', msg1);
       expect(result.current.getLatestMessage({ type: 'typeB' })).toBeNull();
       expect(result.current.getLatestMessage({ source: 'source2' })).toBeNull();
       expect(result.current.getLatestMessage({ type: 'typeB', source: 'source2' })).toBeNull();
@@ -724,8 +554,6 @@ describe('useBroadcastChannel', () => {
       const { result } = renderHook(() =>
         useBroadcastChannel('test-channel', { keepLatestMessage: true })
       );
-      await waitForChannel();
-      const channel = mockChannels[0];
       const msg1 = {
         id: '1',
         type: 'typeA',
@@ -733,16 +561,12 @@ describe('useBroadcastChannel', () => {
         source: 'source1',
         timestamp: Date.now(),
       };
-      act(() => {
-        channel.simulateMessage(msg1);
-      });
+      postFromOtherTab('test-channel', msg1);
       expect(result.current.getLatestMessage()).toEqual(expect.objectContaining(msg1));
     });
 
     it('returns the latest message in correct order (last one)', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
-      const channel = mockChannels[0];
       const msg1 = {
         id: '1',
         type: 'typeA',
@@ -757,10 +581,8 @@ describe('useBroadcastChannel', () => {
         source: 'source1',
         timestamp: Date.now() + 1,
       };
-      act(() => {
-        channel.simulateMessage(msg1);
-        channel.simulateMessage(msg2);
-      });
+      postFromOtherTab('test-channel', msg1);
+      postFromOtherTab('test-channel', msg2);
       expect(result.current.getLatestMessage({ type: 'typeA', source: 'source1' })).toEqual(
         expect.objectContaining(msg2)
       );
@@ -768,8 +590,6 @@ describe('useBroadcastChannel', () => {
 
     it('treats empty string filters as no filter (returns latest message)', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
-      const channel = mockChannels[0];
       const msg1 = {
         id: '1',
         type: 'typeA',
@@ -784,10 +604,8 @@ describe('useBroadcastChannel', () => {
         source: 'source2',
         timestamp: 2000,
       };
-      act(() => {
-        channel.simulateMessage(msg1);
-        channel.simulateMessage(msg2);
-      });
+      postFromOtherTab('test-channel', msg1);
+      postFromOtherTab('test-channel', msg2);
       expect(result.current.getLatestMessage({ type: '', source: '' })).toEqual(
         expect.objectContaining(msg2)
       );
@@ -796,8 +614,6 @@ describe('useBroadcastChannel', () => {
     it('returns the last message in array if timestamps are the same', async () => {
       jest.spyOn(Date, 'now').mockReturnValue(1000);
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
-      const channel = mockChannels[0];
       const msg1 = {
         id: '1',
         type: 'typeA',
@@ -812,10 +628,8 @@ describe('useBroadcastChannel', () => {
         source: 'source1',
         timestamp: 1000,
       };
-      act(() => {
-        channel.simulateMessage(msg1);
-        channel.simulateMessage(msg2);
-      });
+      postFromOtherTab('test-channel', msg1);
+      postFromOtherTab('test-channel', msg2);
       expect(result.current.getLatestMessage({ type: 'typeA', source: 'source1' })).toEqual(
         expect.objectContaining(msg2)
       );
@@ -824,8 +638,6 @@ describe('useBroadcastChannel', () => {
 
     it('returns the last matching message if multiple match the filters', async () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel'));
-      await waitForChannel();
-      const channel = mockChannels[0];
       const msg1 = {
         id: '1',
         type: 'typeA',
@@ -847,11 +659,9 @@ describe('useBroadcastChannel', () => {
         source: 'source1',
         timestamp: 3000,
       };
-      act(() => {
-        channel.simulateMessage(msg1);
-        channel.simulateMessage(msg2);
-        channel.simulateMessage(msg3);
-      });
+      postFromOtherTab('test-channel', msg1);
+      postFromOtherTab('test-channel', msg2);
+      postFromOtherTab('test-channel', msg3);
       // msg1 and msg3 both match typeA/source1 — expect msg3
       expect(result.current.getLatestMessage({ type: 'typeA', source: 'source1' })).toEqual(
         expect.objectContaining(msg3)
@@ -864,40 +674,37 @@ describe('useBroadcastChannel', () => {
       const { unmount } = renderHook(() =>
         useBroadcastChannel('test-channel', { sourceName: 'another-tab' })
       );
-      await waitForChannel();
-      const channel = mockChannels[0];
-      expect(channel.close).not.toHaveBeenCalled();
+      const [channel] = openedChannels;
+      const removeEventListener = jest.spyOn(channel, 'removeEventListener');
+      expect(channel.closed).toBe(false);
 
       unmount();
-      expect(channel.close).toHaveBeenCalled();
-      expect(channel.removeEventListener).toHaveBeenCalledWith('message', expect.any(Function));
+      expect(channel.closed).toBe(true);
+      expect(removeEventListener).toHaveBeenCalledWith('message', expect.any(Function));
     });
 
     it('is idempotent (safe to call multiple times)', async () => {
       const { result } = renderHook(() =>
         useBroadcastChannel('test-channel', { sourceName: 'another-tab' })
       );
-      await waitForChannel();
-      const channel = mockChannels[0];
+      const close = jest.spyOn(openedChannels[0], 'close');
 
       act(() => {
         result.current.closeChannel();
       });
-      expect(channel.close).toHaveBeenCalledTimes(1);
+      expect(close).toHaveBeenCalledTimes(1);
 
       act(() => {
         result.current.closeChannel();
       });
       // Should not throw or call close again
-      expect(channel.close).toHaveBeenCalledTimes(1);
+      expect(close).toHaveBeenCalledTimes(1);
     });
 
     it('does not send messages after closeChannel is called', async () => {
       const { result } = renderHook(() =>
         useBroadcastChannel('test-channel', { sourceName: 'another-tab' })
       );
-      await waitForChannel();
-      const channel = mockChannels[0];
 
       act(() => {
         result.current.closeChannel();
@@ -906,7 +713,7 @@ describe('useBroadcastChannel', () => {
       act(() => {
         result.current.postMessage('test', { data: 'should not send' });
       });
-      expect(channel.postMessage).not.toHaveBeenCalledWith(
+      expect(bus.posted.map(entry => entry.data)).not.toContainEqual(
         expect.objectContaining({ type: 'test' })
       );
     });
@@ -915,21 +722,17 @@ describe('useBroadcastChannel', () => {
       const { result } = renderHook(() =>
         useBroadcastChannel('test-channel', { sourceName: 'another-tab' })
       );
-      await waitForChannel();
-      const channel = mockChannels[0];
 
       act(() => {
         result.current.closeChannel();
       });
 
-      act(() => {
-        channel.simulateMessage({
-          id: 'should-not-receive',
-          type: 'test',
-          message: 'no',
-          source: 'external',
-          timestamp: Date.now(),
-        });
+      postFromOtherTab('test-channel', {
+        id: 'should-not-receive',
+        type: 'test',
+        message: 'no',
+        source: 'external',
+        timestamp: Date.now(),
       });
       expect(result.current.messages).toHaveLength(0);
     });
@@ -970,8 +773,6 @@ describe('useBroadcastChannel', () => {
       renderHook(() => useBroadcastChannel('test-channel', { sourceName: 'source-2' }));
       renderHook(() => useBroadcastChannel('test-channel', { sourceName: 'source-3' }));
 
-      await waitForChannel();
-
       let activeSources: string[] = [];
       await act(async () => {
         const pingPromise = hook1.current.ping(100);
@@ -992,8 +793,6 @@ describe('useBroadcastChannel', () => {
       );
       renderHook(() => useBroadcastChannel('test-channel', { sourceName: 'source-2' }));
 
-      await waitForChannel();
-
       let activeSources: string[] = [];
       await act(async () => {
         const pingPromise = hook1.current.ping(500);
@@ -1014,8 +813,6 @@ describe('useBroadcastChannel', () => {
         useBroadcastChannel('test-channel', { sourceName: 'source-2' })
       );
 
-      await waitForChannel();
-
       let sources1: string[] = [];
       let sources2: string[] = [];
       await act(async () => {
@@ -1038,9 +835,6 @@ describe('useBroadcastChannel', () => {
       );
       renderHook(() => useBroadcastChannel('test-channel', { sourceName: 'source-2' }));
 
-      await waitForChannel();
-      const hook1Channel = mockChannels[0];
-
       let activeSources: string[] = [];
       await act(async () => {
         const pingPromise = hook1.current.ping(500);
@@ -1048,7 +842,7 @@ describe('useBroadcastChannel', () => {
         // Simulate a late response after timeout
         jest.advanceTimersByTime(501);
         await Promise.resolve();
-        hook1Channel.simulateMessage({
+        postFromOtherTab('test-channel', {
           id: 'late-pong',
           type: getInternalMessageType('PONG', 'test-channel'),
           message: null,
@@ -1071,8 +865,6 @@ describe('useBroadcastChannel', () => {
         useBroadcastChannel('test-channel', { sourceName: 'source-2' })
       );
 
-      await waitForChannel();
-
       act(() => {
         hook2.current.closeChannel();
       });
@@ -1092,8 +884,6 @@ describe('useBroadcastChannel', () => {
       const { result } = renderHook(() => useBroadcastChannel('test-channel', { sourceName: 'A' }));
       renderHook(() => useBroadcastChannel('test-channel', { sourceName: 'B' }));
 
-      await waitForChannel();
-
       let res1: string[] = [];
       let res2: string[] = [];
       await act(async () => {
@@ -1113,8 +903,6 @@ describe('useBroadcastChannel', () => {
         useBroadcastChannel('test-channel', { sourceName: 'source-1' })
       );
 
-      await waitForChannel();
-
       expect(result.current.isPingInProgress).toBe(false);
 
       let sources: string[] = [];
@@ -1139,18 +927,13 @@ describe('useBroadcastChannel', () => {
         useBroadcastChannel('rt-channel', { sourceName: 'hook-A', registeredTypes })
       );
 
-      await waitForChannel();
-      const channel = mockChannels[mockChannels.length - 1];
-
       // 'success' is not in registeredTypes yet — should be ignored
-      act(() => {
-        channel.simulateMessage({
-          id: 'msg-1',
-          type: 'success',
-          message: 'first',
-          source: 'other',
-          timestamp: Date.now(),
-        });
+      postFromOtherTab('rt-channel', {
+        id: 'msg-1',
+        type: 'success',
+        message: 'first',
+        source: 'other',
+        timestamp: Date.now(),
       });
       expect(result.current.messages).toHaveLength(0);
 
@@ -1159,47 +942,57 @@ describe('useBroadcastChannel', () => {
       rerender();
 
       // 'success' is now accepted
-      act(() => {
-        channel.simulateMessage({
-          id: 'msg-2',
-          type: 'success',
-          message: 'second',
-          source: 'other',
-          timestamp: Date.now(),
-        });
+      postFromOtherTab('rt-channel', {
+        id: 'msg-2',
+        type: 'success',
+        message: 'second',
+        source: 'other',
+        timestamp: Date.now(),
       });
       await waitFor(() => expect(result.current.messages).toHaveLength(1));
       expect(result.current.messages[0].id).toBe('msg-2');
 
       // 'error' is no longer in registeredTypes — should be ignored now
-      act(() => {
-        channel.simulateMessage({
-          id: 'msg-3',
-          type: 'error',
-          message: 'third',
-          source: 'other',
-          timestamp: Date.now(),
-        });
+      postFromOtherTab('rt-channel', {
+        id: 'msg-3',
+        type: 'error',
+        message: 'third',
+        source: 'other',
+        timestamp: Date.now(),
       });
       expect(result.current.messages).toHaveLength(1);
     });
 
+    it('ignores unknown internal types unless they are registered', async () => {
+      const leaderType = getInternalMessageType('LEADER_HEARTBEAT', 'test-channel');
+      const { result: plain } = renderHook(() => useBroadcastChannel('test-channel'));
+      const { result: registered } = renderHook(() =>
+        useBroadcastChannel('test-channel', { registeredTypes: [leaderType] })
+      );
+
+      postFromOtherTab('test-channel', {
+        id: 'internal-1',
+        type: leaderType,
+        message: null,
+        source: 'other',
+        timestamp: Date.now(),
+      });
+
+      expect(plain.current.messages).toEqual([]);
+      expect(registered.current.messages).toHaveLength(1);
+    });
+
     it('accepts all types when registeredTypes is empty', async () => {
       const { result } = renderHook(() =>
         useBroadcastChannel('rt-open-channel', { sourceName: 'hook-A', registeredTypes: [] })
       );
 
-      await waitForChannel();
-      const channel = mockChannels[mockChannels.length - 1];
-
-      act(() => {
-        channel.simulateMessage({
-          id: 'any-1',
-          type: 'anything',
-          message: 'hello',
-          source: 'other',
-          timestamp: Date.now(),
-        });
+      postFromOtherTab('rt-open-channel', {
+        id: 'any-1',
+        type: 'anything',
+        message: 'hello',
+        source: 'other',
+        timestamp: Date.now(),
       });
 
       await waitFor(() => expect(result.current.messages).toHaveLength(1));
@@ -1215,8 +1008,6 @@ describe('useBroadcastChannel', () => {
       );
       renderHook(() => useBroadcastChannel('cb-channel', { sourceName: 'B', onMessage }));
 
-      await waitForChannel();
-
       act(() => {
         hook1.current.postMessage('error', { msg: 'oops' });
         hook1.current.postMessage('success', { msg: 'ok' });
@@ -1235,8 +1026,6 @@ describe('useBroadcastChannel', () => {
       );
       renderHook(() => useBroadcastChannel('cb-shape-channel', { sourceName: 'B', onMessage }));
 
-      await waitForChannel();
-
       act(() => {
         hook1.current.postMessage('ping-type', { data: 42 });
       });
@@ -1265,8 +1054,6 @@ describe('useBroadcastChannel', () => {
         })
       );
 
-      await waitForChannel();
-
       act(() => {
         hook1.current.postMessage('error', { msg: 'oops' });
       });
@@ -1296,8 +1083,6 @@ describe('useBroadcastChannel', () => {
         })
       );
 
-      await waitForChannel();
-
       // 'log' has no handler registered
       act(() => {
         hook1.current.postMessage('log', { msg: 'info' });
@@ -1318,8 +1103,6 @@ describe('useBroadcastChannel', () => {
         })
       );
 
-      await waitForChannel();
-
       act(() => {
         result.current.postMessage('test', { data: 'hi' });
       });
@@ -1341,8 +1124,6 @@ describe('useBroadcastChannel', () => {
         })
       );
 
-      await waitForChannel();
-
       act(() => {
         hook1.current.postMessage('blocked', { msg: 'nope' });
       });
@@ -1358,18 +1139,13 @@ describe('useBroadcastChannel', () => {
         useBroadcastChannel('cb-expired-channel', { sourceName: 'B', onMessage })
       );
 
-      await waitForChannel();
-      const channel = mockChannels[mockChannels.length - 1];
-
-      act(() => {
-        channel.simulateMessage({
-          id: 'exp-1',
-          type: 'test',
-          message: 'gone',
-          source: 'other',
-          timestamp: Date.now() - 10000,
-          expirationDate: Date.now() - 1,
-        });
+      postFromOtherTab('cb-expired-channel', {
+        id: 'exp-1',
+        type: 'test',
+        message: 'gone',
+        source: 'other',
+        timestamp: Date.now() - 10000,
+        expirationDate: Date.now() - 1,
       });
 
       expect(onMessage).not.toHaveBeenCalled();
@@ -1387,9 +1163,6 @@ describe('useBroadcastChannel', () => {
         })
       );
 
-      await waitForChannel();
-      const channel = mockChannels[mockChannels.length - 1];
-
       const msg = {
         id: 'dup-1',
         type: 'test',
@@ -1398,16 +1171,12 @@ describe('useBroadcastChannel', () => {
         timestamp: Date.now(),
       };
 
-      act(() => {
-        channel.simulateMessage(msg);
-      });
+      postFromOtherTab('cb-dedup-channel', msg);
 
       await waitFor(() => expect(onMessage).toHaveBeenCalledTimes(1));
 
       // Same message again — should be deduplicated
-      act(() => {
-        channel.simulateMessage(msg);
-      });
+      postFromOtherTab('cb-dedup-channel', msg);
 
       expect(onMessage).toHaveBeenCalledTimes(1);
       expect(result.current.messages).toHaveLength(1);
@@ -1424,8 +1193,6 @@ describe('useBroadcastChannel', () => {
         useBroadcastChannel('cb-state-channel', { sourceName: 'B', onMessage })
       );
 
-      await waitForChannel();
-
       act(() => {
         hook1.current.postMessage('sync', { value: 99 });
       });
@@ -1447,8 +1214,6 @@ describe('useBroadcastChannel', () => {
         useBroadcastChannel('cb-stale-channel', { sourceName: 'B', onMessage })
       );
 
-      await waitForChannel();
-
       // Swap callback and re-render
       onMessage = secondCb;
       rerender();
@@ -1473,8 +1238,6 @@ describe('useBroadcastChannel', () => {
         useBroadcastChannel('cb-throw-channel', { sourceName: 'B', onMessage })
       );
 
-      await waitForChannel();
-
       act(() => {
         hook1.current.postMessage('crash', { data: 'test' });
       });
@@ -1493,8 +1256,6 @@ describe('useBroadcastChannel', () => {
       );
       renderHook(() => useBroadcastChannel('cb-batch-channel', { sourceName: 'B', onMessage }));
 
-      await waitForChannel();
-
       act(() => {
         hook1.current.postMessage('a', { v: 1 });
         hook1.current.postMessage('b', { v: 2 });
@@ -1518,7 +1279,6 @@ describe('useBroadcastChannel', () => {
       const { result: hook2 } = renderHook(() =>
         useBroadcastChannel('batch-channel', { sourceName: 'B' })
       );
-      await waitForChannel();
       act(() => {
         hook1.current.postMessage('type1', { a: 1 });
         hook1.current.postMessage('type2', { b: 2 });
@@ -1547,7 +1307,6 @@ describe('useBroadcastChannel', () => {
       const { result: hook2 } = renderHook(() =>
         useBroadcastChannel('batch-channel', { sourceName: 'B' })
       );
-      await waitForChannel();
       act(() => {
         hook1.current.postMessage('urgent', { now: true });
       });
@@ -1565,7 +1324,6 @@ describe('useBroadcastChannel', () => {
       const { result: hook2 } = renderHook(() =>
         useBroadcastChannel('batch-channel', { sourceName: 'B' })
       );
-      await waitForChannel();
       act(() => {
         result.current.postMessage('type1', { a: 1 });
       });
@@ -1581,41 +1339,401 @@ describe('useBroadcastChannel', () => {
       const { result } = renderHook(() =>
         useBroadcastChannel('batch-channel', { sourceName: 'A' })
       );
-      await waitForChannel();
-      const channel = mockChannels[0];
       // Simulate receiving a single message
-      act(() => {
-        channel.simulateMessage({
-          id: '1',
-          type: 'single',
-          message: 'one',
-          source: 'B',
-          timestamp: Date.now(),
-        });
+      postFromOtherTab('batch-channel', {
+        id: '1',
+        type: 'single',
+        message: 'one',
+        source: 'B',
+        timestamp: Date.now(),
       });
       // Simulate receiving a batch (array)
-      act(() => {
-        channel.simulateMessage([
-          {
-            id: '2',
-            type: 'batch1',
-            message: 'two',
-            source: 'B',
-            timestamp: Date.now(),
-          },
-          {
-            id: '3',
-            type: 'batch2',
-            message: 'three',
-            source: 'B',
-            timestamp: Date.now(),
-          },
-        ]);
-      });
+      postFromOtherTab('batch-channel', [
+        {
+          id: '2',
+          type: 'batch1',
+          message: 'two',
+          source: 'B',
+          timestamp: Date.now(),
+        },
+        {
+          id: '3',
+          type: 'batch2',
+          message: 'three',
+          source: 'B',
+          timestamp: Date.now(),
+        },
+      ]);
       expect(result.current.messages.length).toBe(3);
       expect(result.current.messages[0].type).toBe('single');
       expect(result.current.messages[1].type).toBe('batch1');
       expect(result.current.messages[2].type).toBe('batch2');
     });
   });
+
+  describe('validators', () => {
+    const incoming = (type: string, message: any, id = `${type}-${Math.random()}`) => ({
+      id,
+      type,
+      message,
+      source: 'remote',
+      timestamp: Date.now(),
+    });
+
+    it('accepts payloads that pass a predicate validator', async () => {
+      const { result } = renderHook(() =>
+        useBroadcastChannel('validated', {
+          validators: { count: payload => typeof payload === 'number' },
+        })
+      );
+
+      postFromOtherTab('validated', incoming('count', 3));
+
+      expect(result.current.messages).toHaveLength(1);
+      expect(result.current.invalidMessageCount).toBe(0);
+    });
+
+    it('rejects payloads when a predicate returns false', async () => {
+      const onInvalidMessage = jest.fn();
+      const onMessage = jest.fn();
+      const { result } = renderHook(() =>
+        useBroadcastChannel('validated', {
+          validators: { count: payload => typeof payload === 'number' },
+          onInvalidMessage,
+          onMessage,
+        })
+      );
+
+      const bad = incoming('count', 'three');
+      postFromOtherTab('validated', bad);
+
+      expect(result.current.messages).toHaveLength(0);
+      expect(result.current.invalidMessageCount).toBe(1);
+      expect(onInvalidMessage).toHaveBeenCalledWith(bad, 'Validator returned false');
+      expect(onMessage).not.toHaveBeenCalled();
+    });
+
+    it('supports schema objects whose parse throws', async () => {
+      const schemaError = new Error('Expected object with id');
+      const schema = {
+        parse: (payload: unknown) => {
+          if (!payload || typeof (payload as any).id !== 'number') throw schemaError;
+          return payload;
+        },
+      };
+      const onInvalidMessage = jest.fn();
+      const { result } = renderHook(() =>
+        useBroadcastChannel('validated', { validators: { todo: schema }, onInvalidMessage })
+      );
+
+      postFromOtherTab('validated', [incoming('todo', { id: 1 }), incoming('todo', {})]);
+
+      expect(result.current.messages).toHaveLength(1);
+      expect(result.current.messages[0].message).toEqual({ id: 1 });
+      expect(result.current.invalidMessageCount).toBe(1);
+      expect(onInvalidMessage).toHaveBeenCalledWith(expect.any(Object), schemaError);
+    });
+
+    it('accepts types without a validator and does not validate internal messages', async () => {
+      const validator = jest.fn(() => false);
+      const { result } = renderHook(() =>
+        useBroadcastChannel('validated', { validators: { guarded: validator } })
+      );
+
+      postFromOtherTab('validated', incoming('free', 'anything'));
+      postFromOtherTab(
+        'validated',
+        incoming(getInternalMessageType('CLEAR_SENT_MESSAGES', 'validated'), { ids: [] })
+      );
+
+      expect(validator).not.toHaveBeenCalled();
+      expect(result.current.invalidMessageCount).toBe(0);
+    });
+
+    it('does not let a throwing onInvalidMessage break message handling', async () => {
+      const { result } = renderHook(() =>
+        useBroadcastChannel('validated', {
+          validators: { count: () => false },
+          onInvalidMessage: () => {
+            throw new Error('reporter down');
+          },
+        })
+      );
+
+      postFromOtherTab('validated', incoming('count', 1));
+
+      expect(result.current.invalidMessageCount).toBe(1);
+      expect(result.current.error).toBeNull();
+    });
+  });
+
+  describe('request / handle', () => {
+    it('resolves with the response from a tab that handles the type', async () => {
+      const { result: requester } = renderHook(() =>
+        useBroadcastChannel('rpc', { sourceName: 'A' })
+      );
+      const { result: responder } = renderHook(() =>
+        useBroadcastChannel('rpc', { sourceName: 'B' })
+      );
+
+      act(() => {
+        responder.current.handle('get-token', async (payload: { scope: string }, meta) => ({
+          token: `token-for-${payload.scope}`,
+          from: meta.source,
+        }));
+      });
+
+      let response: any;
+      await act(async () => {
+        response = await requester.current.request('get-token', { scope: 'api' });
+      });
+
+      expect(response).toEqual({ token: 'token-for-api', from: 'A' });
+    });
+
+    it('only lets the targeted tab answer', async () => {
+      const { result: requester } = renderHook(() =>
+        useBroadcastChannel('rpc', { sourceName: 'A' })
+      );
+      const { result: tabB } = renderHook(() => useBroadcastChannel('rpc', { sourceName: 'B' }));
+      const { result: tabC } = renderHook(() => useBroadcastChannel('rpc', { sourceName: 'C' }));
+
+      const handlerB = jest.fn(() => 'from B');
+      act(() => {
+        tabB.current.handle('is-editing', handlerB);
+        tabC.current.handle('is-editing', () => 'from C');
+      });
+
+      let response: any;
+      await act(async () => {
+        response = await requester.current.request('is-editing', null, { target: 'C' });
+      });
+
+      expect(response).toBe('from C');
+      expect(handlerB).not.toHaveBeenCalled();
+    });
+
+    it('rejects with HANDLER_ERROR when the remote handler throws', async () => {
+      const { result: requester } = renderHook(() =>
+        useBroadcastChannel('rpc', { sourceName: 'A' })
+      );
+      const { result: responder } = renderHook(() =>
+        useBroadcastChannel('rpc', { sourceName: 'B' })
+      );
+
+      act(() => {
+        responder.current.handle('explode', () => {
+          throw new Error('boom');
+        });
+      });
+
+      let error: any;
+      await act(async () => {
+        error = await requester.current.request('explode').catch(e => e);
+      });
+
+      expect(error).toBeInstanceOf(BroadcastRequestError);
+      expect(error.code).toBe('HANDLER_ERROR');
+      expect(error.message).toBe('boom');
+      expect(error.target).toBe('B');
+    });
+
+    it('rejects with NO_HANDLER when the targeted tab cannot answer', async () => {
+      const { result: requester } = renderHook(() =>
+        useBroadcastChannel('rpc', { sourceName: 'A' })
+      );
+      renderHook(() => useBroadcastChannel('rpc', { sourceName: 'B' }));
+
+      let error: any;
+      await act(async () => {
+        error = await requester.current.request('unknown', null, { target: 'B' }).catch(e => e);
+      });
+
+      expect(error.code).toBe('NO_HANDLER');
+    });
+
+    it('rejects with TIMEOUT when nobody answers', async () => {
+      jest.useFakeTimers();
+      const { result } = renderHook(() => useBroadcastChannel('rpc', { sourceName: 'A' }));
+      renderHook(() => useBroadcastChannel('rpc', { sourceName: 'B' }));
+
+      let error: any;
+      await act(async () => {
+        const promise = result.current.request('unknown', null, { timeoutMs: 100 }).catch(e => e);
+        jest.advanceTimersByTime(100);
+        error = await promise;
+      });
+
+      expect(error).toBeInstanceOf(BroadcastRequestError);
+      expect(error.code).toBe('TIMEOUT');
+      expect(error.requestType).toBe('unknown');
+      jest.useRealTimers();
+    });
+
+    it('stops answering once the handler is unregistered', async () => {
+      jest.useFakeTimers();
+      const { result: requester } = renderHook(() =>
+        useBroadcastChannel('rpc', { sourceName: 'A' })
+      );
+      const { result: responder } = renderHook(() =>
+        useBroadcastChannel('rpc', { sourceName: 'B' })
+      );
+
+      act(() => {
+        const unregister = responder.current.handle('ping-me', () => 'pong');
+        unregister();
+      });
+
+      let error: any;
+      await act(async () => {
+        const promise = requester.current.request('ping-me', null, { timeoutMs: 50 }).catch(e => e);
+        jest.advanceTimersByTime(50);
+        error = await promise;
+      });
+
+      expect(error.code).toBe('TIMEOUT');
+      jest.useRealTimers();
+    });
+
+    it('rejects pending requests when the channel closes', async () => {
+      const { result } = renderHook(() => useBroadcastChannel('rpc', { sourceName: 'A' }));
+
+      let promise: Promise<any> = Promise.resolve();
+      act(() => {
+        promise = result.current.request('slow').catch(e => e);
+        result.current.closeChannel();
+      });
+
+      const error = await promise;
+      expect(error.code).toBe('CHANNEL_UNAVAILABLE');
+    });
+
+    it('rejects immediately when the channel is unavailable', async () => {
+      const original = global.BroadcastChannel;
+      delete (global as any).BroadcastChannel;
+
+      const { result } = renderHook(() => useBroadcastChannel('rpc'));
+      const error = await result.current.request<never>('anything').catch(e => e);
+
+      expect(error.code).toBe('CHANNEL_UNAVAILABLE');
+      global.BroadcastChannel = original;
+    });
+
+    it('does not expose RPC traffic in messages', async () => {
+      const { result: requester } = renderHook(() =>
+        useBroadcastChannel('rpc', { sourceName: 'A' })
+      );
+      const { result: responder } = renderHook(() =>
+        useBroadcastChannel('rpc', { sourceName: 'B' })
+      );
+
+      act(() => {
+        responder.current.handle('echo', payload => payload);
+      });
+      await act(async () => {
+        await requester.current.request('echo', 1);
+      });
+
+      expect(requester.current.messages).toEqual([]);
+      expect(responder.current.messages).toEqual([]);
+    });
+  });
+
+  describe('replayOnJoin', () => {
+    it('replays unexpired sent messages to a tab that joins later', async () => {
+      const { result: sender } = renderHook(() =>
+        useBroadcastChannel('banner', { sourceName: 'A', batchingDelayMs: 0 })
+      );
+
+      act(() => {
+        sender.current.postMessage('maintenance', { active: true }, { expirationDuration: 60000 });
+        sender.current.postMessage('toast', 'gone', { expirationDuration: -1 });
+      });
+
+      const onMessage = jest.fn();
+      const { result: late } = renderHook(() =>
+        useBroadcastChannel('banner', { sourceName: 'B', replayOnJoin: true, onMessage })
+      );
+
+      expect(late.current.messages.map(m => m.type)).toEqual(['maintenance']);
+      expect(late.current.messages[0].source).toBe('A');
+      expect(onMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('only replays the requested types', async () => {
+      const { result: sender } = renderHook(() =>
+        useBroadcastChannel('banner', { sourceName: 'A', batchingDelayMs: 0 })
+      );
+
+      act(() => {
+        sender.current.postMessage('maintenance', true);
+        sender.current.postMessage('chat', 'hi');
+      });
+
+      const { result: late } = renderHook(() =>
+        useBroadcastChannel('banner', {
+          sourceName: 'B',
+          replayOnJoin: { types: ['maintenance'] },
+        })
+      );
+
+      expect(late.current.messages.map(m => m.type)).toEqual(['maintenance']);
+    });
+
+    it('does not duplicate messages already received or replay to other tabs', async () => {
+      const [tabA, tabB, tabC] = [bus.createTab(), bus.createTab(), bus.createTab()];
+      const { result: sender } = renderHook(() =>
+        useBroadcastChannel('banner', {
+          sourceName: 'A',
+          batchingDelayMs: 0,
+          transport: tabA.transport,
+        })
+      );
+      const { result: existing } = renderHook(() =>
+        useBroadcastChannel('banner', { sourceName: 'B', transport: tabB.transport })
+      );
+
+      act(() => {
+        sender.current.postMessage('maintenance', true);
+      });
+      deliver();
+      expect(existing.current.messages).toHaveLength(1);
+
+      const { result: late } = renderHook(() =>
+        useBroadcastChannel('banner', {
+          sourceName: 'C',
+          replayOnJoin: true,
+          transport: tabC.transport,
+        })
+      );
+      const [replayRequest] = bus.posted.filter(entry => entry.from === tabC.id);
+      deliver();
+      deliver();
+      expect(late.current.messages).toHaveLength(1);
+
+      // A second request from the same tab must not produce a second copy
+      new tabC.BroadcastChannel('banner').postMessage(replayRequest.data);
+      deliver();
+      deliver();
+
+      expect(late.current.messages).toHaveLength(1);
+      expect(existing.current.messages).toHaveLength(1);
+    });
+
+    it('does not request a replay by default', async () => {
+      renderHook(() => useBroadcastChannel('banner', { sourceName: 'A' }));
+
+      expect(bus.posted).toEqual([]);
+    });
+
+    it('keeps replay traffic out of messages', async () => {
+      const { result: sender } = renderHook(() =>
+        useBroadcastChannel('banner', { sourceName: 'A', batchingDelayMs: 0 })
+      );
+
+      renderHook(() => useBroadcastChannel('banner', { sourceName: 'B', replayOnJoin: true }));
+
+      expect(sender.current.messages).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,111 @@
+import { renderHook, act } from '@testing-library/react';
+import { useBroadcastDocument } from '../hooks/useBroadcastDocument';
+import { bus, deliver, installBroadcastChannelBus } from './testUtils';
+
+installBroadcastChannelBus();
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('useBroadcastDocument', () => {
+  it('syncs fields and text edits to other tabs using the same name', () => {
+    const { result: tabA } = renderHook(() => useBroadcastDocument('notes', { sourceName: 'A' }));
+    const { result: tabB } = renderHook(() => useBroadcastDocument('notes', { sourceName: 'B' }));
+    const { result: other } = renderHook(() => useBroadcastDocument('other'));
+
+    act(() => {
+      tabA.current.setField('title', 'Shopping');
+      tabA.current.setText('body', 'milk');
+    });
+    act(() => {
+      tabB.current.insertText('body', 4, ', eggs');
+    });
+
+    expect(tabA.current.fields).toEqual({ title: 'Shopping' });
+    expect(tabB.current.fields).toEqual({ title: 'Shopping' });
+    expect(tabA.current.texts.body).toBe('milk, eggs');
+    expect(tabB.current.texts.body).toBe('milk, eggs');
+    expect(other.current.texts).toEqual({});
+  });
+
+  it('merges concurrent edits without losing either', () => {
+    const [tab1, tab2] = [bus.createTab(), bus.createTab()];
+    const { result: tabA } = renderHook(() =>
+      useBroadcastDocument('notes', { sourceName: 'A', transport: tab1.transport })
+    );
+    const { result: tabB } = renderHook(() =>
+      useBroadcastDocument('notes', { sourceName: 'B', transport: tab2.transport })
+    );
+
+    act(() => {
+      tabA.current.setText('body', 'hello world');
+    });
+    deliver();
+
+    // Both edits are made before either tab hears of the other
+    act(() => {
+      tabA.current.setText('body', 'Hello world');
+      tabB.current.setText('body', 'hello world!');
+    });
+    expect(tabA.current.texts.body).toBe('Hello world');
+    expect(tabB.current.texts.body).toBe('hello world!');
+
+    deliver();
+
+    expect(tabA.current.texts.body).toBe('Hello world!');
+    expect(tabB.current.texts.body).toBe('Hello world!');
+  });
+
+  it('hydrates a late-joining tab from existing peers', () => {
+    const { result: tabA } = renderHook(() => useBroadcastDocument('notes', { sourceName: 'A' }));
+
+    act(() => {
+      tabA.current.setField('done', true);
+      tabA.current.setText('body', 'draft');
+    });
+
+    const { result: late } = renderHook(() => useBroadcastDocument('notes', { sourceName: 'B' }));
+
+    expect(late.current.fields).toEqual({ done: true });
+    expect(late.current.texts.body).toBe('draft');
+
+    act(() => {
+      late.current.deleteField('done');
+    });
+    expect(tabA.current.fields).toEqual({});
+  });
+
+  it('keeps a consistent document while tombstones are collected', () => {
+    const { result: tabA } = renderHook(() =>
+      useBroadcastDocument('notes', { sourceName: 'A', gcIntervalMs: 1000 })
+    );
+    const { result: tabB } = renderHook(() =>
+      useBroadcastDocument('notes', { sourceName: 'B', gcIntervalMs: 1000 })
+    );
+
+    act(() => {
+      tabA.current.setText('body', 'abcdef');
+      tabB.current.deleteText('body', 1, 3);
+    });
+    act(() => {
+      jest.advanceTimersByTime(2000);
+    });
+
+    // Editing around the collected range still converges
+    act(() => {
+      tabA.current.insertText('body', 1, 'X');
+    });
+    expect(tabA.current.texts.body).toBe('aXef');
+    expect(tabB.current.texts.body).toBe('aXef');
+
+    const { result: late } = renderHook(() =>
+      useBroadcastDocument('notes', { sourceName: 'C', gcIntervalMs: 1000 })
+    );
+    expect(late.current.texts.body).toBe('aXef');
+  });
+});
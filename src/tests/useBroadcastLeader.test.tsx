@@ -0,0 +1,140 @@
+import { renderHook, act } from '@testing-library/react';
+import { useBroadcastLeader } from '../hooks/useBroadcastLeader';
+import { useBroadcastChannel } from '../hooks/useBroadcastChannel';
+import { BroadcastMessage } from '../types/types';
+import { bus, installBroadcastChannelBus } from './testUtils';
+
+installBroadcastChannelBus();
+
+const advance = (ms: number) =>
+  act(() => {
+    jest.advanceTimersByTime(ms);
+  });
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('useBroadcastLeader', () => {
+  it('elects exactly one leader among tabs', () => {
+    const { result: tabA } = renderHook(() => useBroadcastLeader('jobs', { sourceName: 'a' }));
+    const { result: tabB } = renderHook(() => useBroadcastLeader('jobs', { sourceName: 'b' }));
+
+    advance(300);
+
+    expect(tabA.current.leaderId).toBe('a');
+    expect(tabB.current.leaderId).toBe('a');
+    expect(tabA.current.isLeader).toBe(true);
+    expect(tabB.current.isLeader).toBe(false);
+  });
+
+  it('hands leadership over when the leader tab unmounts', () => {
+    const { result: tabA, unmount } = renderHook(() =>
+      useBroadcastLeader('jobs', { sourceName: 'a' })
+    );
+    advance(300);
+    const { result: tabB } = renderHook(() => useBroadcastLeader('jobs', { sourceName: 'b' }));
+    advance(300);
+    expect(tabA.current.isLeader).toBe(true);
+
+    unmount();
+    advance(300);
+
+    expect(tabB.current.isLeader).toBe(true);
+    expect(tabB.current.leaderId).toBe('b');
+  });
+
+  it('resigns on pagehide and rejoins when restored from the back/forward cache', () => {
+    const { result } = renderHook(() => useBroadcastLeader('jobs', { sourceName: 'a' }));
+    advance(300);
+    expect(result.current.isLeader).toBe(true);
+
+    act(() => {
+      window.dispatchEvent(new Event('pagehide'));
+    });
+
+    const posted = bus.posted.map(entry => (entry.data as BroadcastMessage).type);
+    expect(posted[posted.length - 1]).toMatch(/^__INTERNAL__:LEADER_RESIGN:/);
+    expect(result.current.leaderId).toBeNull();
+
+    act(() => {
+      const event = new Event('pageshow') as PageTransitionEvent;
+      Object.defineProperty(event, 'persisted', { value: true });
+      window.dispatchEvent(event);
+    });
+    advance(300);
+
+    expect(result.current.isLeader).toBe(true);
+  });
+
+  it('runs onBecomeLeader callbacks and their cleanup on leadership changes', () => {
+    const cleanup = jest.fn();
+    const callback = jest.fn(() => cleanup);
+    const { result, unmount } = renderHook(() => useBroadcastLeader('jobs', { sourceName: 'a' }));
+
+    let unregister = () => {};
+    act(() => {
+      unregister = result.current.onBecomeLeader(callback);
+    });
+    expect(callback).not.toHaveBeenCalled();
+
+    advance(300);
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    // Registering while already leader runs the callback immediately
+    const late = jest.fn();
+    act(() => {
+      result.current.onBecomeLeader(late);
+    });
+    expect(late).toHaveBeenCalledTimes(1);
+
+    unmount();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+    unregister();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs cleanup when a callback is unregistered', () => {
+    const cleanup = jest.fn();
+    const { result } = renderHook(() => useBroadcastLeader('jobs', { sourceName: 'a' }));
+    advance(300);
+
+    let unregister = () => {};
+    act(() => {
+      unregister = result.current.onBecomeLeader(() => cleanup);
+    });
+    unregister();
+
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not leak protocol messages into useBroadcastChannel on the same channel', () => {
+    const { result: channel } = renderHook(() =>
+      useBroadcastChannel('jobs', { sourceName: 'app', cleaningInterval: 0 })
+    );
+    renderHook(() => useBroadcastLeader('jobs', { sourceName: 'a' }));
+    renderHook(() => useBroadcastLeader('jobs', { sourceName: 'b' }));
+
+    advance(3000);
+
+    expect(channel.current.messages).toEqual([]);
+  });
+
+  it('isolates elections by namespace', () => {
+    const { result: tabA } = renderHook(() =>
+      useBroadcastLeader('jobs', { sourceName: 'a', namespace: 'one' })
+    );
+    const { result: tabB } = renderHook(() =>
+      useBroadcastLeader('jobs', { sourceName: 'b', namespace: 'two' })
+    );
+
+    advance(300);
+
+    expect(tabA.current.isLeader).toBe(true);
+    expect(tabB.current.isLeader).toBe(true);
+  });
+});
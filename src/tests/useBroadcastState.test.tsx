@@ -0,0 +1,94 @@
+import { renderHook, act } from '@testing-library/react';
+import { useBroadcastState } from '../hooks/useBroadcastState';
+import { getInternalMessageType } from '../utils/messageUtils';
+import { installBroadcastChannelBus, postFromOtherTab } from './testUtils';
+
+installBroadcastChannelBus();
+
+describe('useBroadcastState', () => {
+  it('starts with the initial value, including lazy initializers', () => {
+    const { result: plain } = renderHook(() => useBroadcastState('count', 1));
+    const { result: lazy } = renderHook(() => useBroadcastState('other', () => 2));
+
+    expect(plain.current[0]).toBe(1);
+    expect(lazy.current[0]).toBe(2);
+  });
+
+  it('syncs updates to other tabs using the same key', () => {
+    const { result: tabA } = renderHook(() => useBroadcastState('count', 0, { sourceName: 'A' }));
+    const { result: tabB } = renderHook(() => useBroadcastState('count', 0, { sourceName: 'B' }));
+    const { result: otherKey } = renderHook(() => useBroadcastState('unrelated', 0));
+
+    act(() => {
+      tabA.current[1](5);
+    });
+
+    expect(tabA.current[0]).toBe(5);
+    expect(tabB.current[0]).toBe(5);
+    expect(otherKey.current[0]).toBe(0);
+  });
+
+  it('supports functional updates based on the shared value', () => {
+    const { result: tabA } = renderHook(() => useBroadcastState('count', 0, { sourceName: 'A' }));
+    const { result: tabB } = renderHook(() => useBroadcastState('count', 0, { sourceName: 'B' }));
+
+    act(() => {
+      tabA.current[1](prev => prev + 1);
+    });
+    act(() => {
+      tabB.current[1](prev => prev + 1);
+    });
+
+    expect(tabA.current[0]).toBe(2);
+    expect(tabB.current[0]).toBe(2);
+  });
+
+  it('hydrates a late-joining tab from existing peers', () => {
+    const { result: tabA } = renderHook(() =>
+      useBroadcastState('todos', [] as string[], { sourceName: 'A' })
+    );
+
+    act(() => {
+      tabA.current[1](['write tests']);
+    });
+
+    const { result: late } = renderHook(() =>
+      useBroadcastState('todos', [] as string[], { sourceName: 'late' })
+    );
+
+    expect(late.current[0]).toEqual(['write tests']);
+  });
+
+  it('does not let peers still holding the initial value overwrite a newer tab', () => {
+    renderHook(() => useBroadcastState('text', 'initial-a', { sourceName: 'A' }));
+    const { result: late } = renderHook(() =>
+      useBroadcastState('text', 'initial-b', { sourceName: 'B' })
+    );
+
+    expect(late.current[0]).toBe('initial-b');
+  });
+
+  it('ignores stale updates and breaks ties by source name', () => {
+    const { result } = renderHook(() => useBroadcastState('count', 0, { sourceName: 'B' }));
+    const update = (value: number, updatedAt: number, source: string) =>
+      postFromOtherTab('__broadcast-state__:count', {
+        id: `${source}-${updatedAt}-${value}`,
+        type: getInternalMessageType('STATE_UPDATE', '__broadcast-state__:count'),
+        message: { value, updatedAt },
+        source,
+        timestamp: updatedAt,
+      });
+
+    update(10, 2000, 'C');
+    expect(result.current[0]).toBe(10);
+
+    update(5, 1000, 'D');
+    expect(result.current[0]).toBe(10);
+
+    update(7, 2000, 'A');
+    expect(result.current[0]).toBe(10);
+
+    update(8, 2000, 'Z');
+    expect(result.current[0]).toBe(8);
+  });
+});
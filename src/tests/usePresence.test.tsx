@@ -0,0 +1,188 @@
+import { renderHook, act } from '@testing-library/react';
+import { usePresence } from '../hooks/usePresence';
+import { useBroadcastChannel } from '../hooks/useBroadcastChannel';
+import { createBroadcastChannelBus, renderWithBroadcastTabs } from '../testing';
+import { installBroadcastChannelBus, openedChannels } from './testUtils';
+
+installBroadcastChannelBus();
+
+const advance = (ms: number) =>
+  act(() => {
+    jest.advanceTimersByTime(ms);
+  });
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('usePresence', () => {
+  it('lists peers with their metadata as soon as they join', () => {
+    const { result: tabA } = renderHook(() =>
+      usePresence('doc', { sourceName: 'a', metadata: { user: 'Ann' } })
+    );
+    const { result: tabB } = renderHook(() =>
+      usePresence('doc', { sourceName: 'b', metadata: { user: 'Bob' } })
+    );
+
+    expect(tabA.current.self).toBe('a');
+    expect(tabA.current.peers).toEqual([
+      { source: 'b', metadata: { user: 'Bob' }, joinedAt: expect.any(Number) },
+    ]);
+    expect(tabB.current.peers).toEqual([
+      { source: 'a', metadata: { user: 'Ann' }, joinedAt: expect.any(Number) },
+    ]);
+  });
+
+  it('calls onJoin and onLeave as peers come and go', () => {
+    const onJoin = jest.fn();
+    const onLeave = jest.fn();
+    const { result: tabA } = renderHook(() =>
+      usePresence('doc', { sourceName: 'a', onJoin, onLeave })
+    );
+    const { unmount } = renderHook(() =>
+      usePresence('doc', { sourceName: 'b', metadata: { route: '/home' } })
+    );
+
+    expect(onJoin).toHaveBeenCalledTimes(1);
+    expect(onJoin).toHaveBeenCalledWith(
+      expect.objectContaining({ source: 'b', metadata: { route: '/home' } })
+    );
+
+    unmount();
+
+    expect(tabA.current.peers).toEqual([]);
+    expect(onLeave).toHaveBeenCalledTimes(1);
+    expect(onLeave).toHaveBeenCalledWith(expect.objectContaining({ source: 'b' }));
+  });
+
+  it('re-announces metadata changes without re-rendering on every heartbeat', () => {
+    let renders = 0;
+    const { result: tabA } = renderHook(() => {
+      renders++;
+      return usePresence('doc', { sourceName: 'a' });
+    });
+    const { rerender } = renderHook(
+      ({ focused }) => usePresence('doc', { sourceName: 'b', metadata: { focused } }),
+      { initialProps: { focused: true } }
+    );
+    expect(tabA.current.peers[0].metadata).toEqual({ focused: true });
+
+    const rendersAfterJoin = renders;
+    advance(10000);
+    expect(renders).toBe(rendersAfterJoin);
+
+    rerender({ focused: false });
+
+    expect(tabA.current.peers[0].metadata).toEqual({ focused: false });
+    expect(tabA.current.peers[0].source).toBe('b');
+  });
+
+  it('drops peers that stop heartbeating', () => {
+    const bus = createBroadcastChannelBus();
+    const [tab1, tab2] = [bus.createTab(), bus.createTab()];
+    const onLeave = jest.fn();
+    const { result: tabA } = renderHook(() =>
+      usePresence('doc', {
+        sourceName: 'a',
+        transport: tab1.transport,
+        heartbeatIntervalMs: 100,
+        peerTimeoutMs: 300,
+        onLeave,
+      })
+    );
+    renderHook(() =>
+      usePresence('doc', { sourceName: 'b', transport: tab2.transport, heartbeatIntervalMs: 100 })
+    );
+    advance(0);
+    expect(tabA.current.peers).toHaveLength(1);
+
+    advance(1000);
+    expect(tabA.current.peers).toHaveLength(1);
+
+    // The second tab is frozen: nothing it posts arrives any more
+    bus.setDrop(delivery => delivery.from === tab2.id);
+    advance(500);
+
+    expect(tabA.current.peers).toEqual([]);
+    expect(onLeave).toHaveBeenCalledWith(expect.objectContaining({ source: 'b' }));
+    bus.reset();
+  });
+
+  it('leaves on pagehide and rejoins when restored from the back/forward cache', () => {
+    const { result: tabA } = renderHook(() => usePresence('doc', { sourceName: 'a' }));
+    const { result: tabB } = renderHook(() => usePresence('doc', { sourceName: 'b' }));
+    expect(tabA.current.peers).toHaveLength(1);
+
+    // Both hooks share the jsdom window, so both tabs leave and rejoin together
+    act(() => {
+      window.dispatchEvent(new Event('pagehide'));
+    });
+    expect(tabA.current.peers).toEqual([]);
+    expect(tabB.current.peers).toEqual([]);
+
+    act(() => {
+      const event = new Event('pageshow') as PageTransitionEvent;
+      Object.defineProperty(event, 'persisted', { value: true });
+      window.dispatchEvent(event);
+    });
+
+    expect(tabA.current.peers.map(peer => peer.source)).toEqual(['b']);
+    expect(tabB.current.peers.map(peer => peer.source)).toEqual(['a']);
+  });
+
+  it('hears other instances of the tab over a transport that does not deliver within it', () => {
+    const { result: first } = renderHook(() =>
+      usePresence('doc', { sourceName: 'a', transport: 'storage' })
+    );
+    const { result: second } = renderHook(() =>
+      usePresence('doc', { sourceName: 'b', transport: 'storage' })
+    );
+
+    expect(first.current.peers.map(peer => peer.source)).toEqual(['b']);
+    expect(second.current.peers.map(peer => peer.source)).toEqual(['a']);
+  });
+
+  it('keeps presence traffic out of useBroadcastChannel messages on the same channel', () => {
+    const { result: channel } = renderHook(() =>
+      useBroadcastChannel('doc', { sourceName: 'c', batchingDelayMs: 0 })
+    );
+    renderHook(() => usePresence('doc', { sourceName: 'a' }));
+    renderHook(() => usePresence('doc', { sourceName: 'b' }));
+    advance(5000);
+
+    expect(channel.current.messages).toEqual([]);
+  });
+
+  it('does not track peers from another namespace', () => {
+    const { result: tabA } = renderHook(() =>
+      usePresence('doc', { sourceName: 'a', namespace: 'one' })
+    );
+    renderHook(() => usePresence('doc', { sourceName: 'b', namespace: 'two' }));
+
+    expect(tabA.current.peers).toEqual([]);
+  });
+
+  it('uses the channels of the tab it is rendered in', () => {
+    const bus = createBroadcastChannelBus();
+    const Peers = ({ name }: { name: string }) => {
+      const { peers } = usePresence('doc', { sourceName: name });
+      return <span>{peers.map(peer => peer.source).join(',')}</span>;
+    };
+
+    const { tabs } = renderWithBroadcastTabs((_, index) => <Peers name={`peer-${index}`} />, {
+      bus,
+    });
+    act(() => {
+      bus.flush();
+    });
+
+    expect(tabs[0].container.textContent).toBe('peer-1');
+    expect(tabs[1].container.textContent).toBe('peer-0');
+    expect(openedChannels).toEqual([]);
+    bus.reset();
+  });
+});
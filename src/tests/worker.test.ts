@@ -0,0 +1,66 @@
+import { renderHook, act } from '@testing-library/react';
+import { useBroadcastChannel } from '../hooks/useBroadcastChannel';
+import { createWorkerBroadcastClient } from '../worker';
+import { installBroadcastChannelBus } from './testUtils';
+
+installBroadcastChannelBus();
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('worker entry', () => {
+  it('does not load React', () => {
+    jest.isolateModules(() => {
+      jest.doMock('react', () => {
+        throw new Error('React must not be loaded in a worker');
+      });
+      expect(() => require('../worker')).not.toThrow();
+    });
+    jest.dontMock('react');
+  });
+
+  it('answers pings from tabs under a worker source name', async () => {
+    const worker = createWorkerBroadcastClient('jobs', { telemetry: false });
+    worker.connect();
+    const { result } = renderHook(() => useBroadcastChannel('jobs', { sourceName: 'tab' }));
+
+    let sources: string[] = [];
+    await act(async () => {
+      const pinging = result.current.ping(300);
+      jest.advanceTimersByTime(300);
+      sources = await pinging;
+    });
+
+    expect(sources).toEqual([expect.stringMatching(/^worker-/)]);
+    worker.disconnect();
+  });
+
+  it('exchanges single and batched messages with tabs', () => {
+    const worker = createWorkerBroadcastClient('jobs', {
+      sourceName: 'worker',
+      batchingDelayMs: 0,
+      telemetry: false,
+    });
+    worker.connect();
+    const { result } = renderHook(() => useBroadcastChannel('jobs', { sourceName: 'tab' }));
+
+    act(() => {
+      worker.postMessage('result', { total: 42 });
+    });
+    expect(result.current.messages.map(m => m.message)).toEqual([{ total: 42 }]);
+
+    // Tabs batch by default, so the worker receives an array
+    act(() => {
+      result.current.postMessage('job', 1);
+      result.current.postMessage('job', 2);
+      jest.advanceTimersByTime(20);
+    });
+    expect(worker.getSnapshot().messages.map(m => m.message)).toEqual([1, 2]);
+    worker.disconnect();
+  });
+});
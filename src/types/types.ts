@@ -1,7 +1,32 @@
+/**
+ * Maps message type strings to the payload carried by messages of that type.
+ *
+ * ```ts
+ * interface TodoMessages {
+ *   'todo-updated': { id: string; title: string };
+ *   'todo-removed': { id: string };
+ * }
+ * useBroadcastChannel<TodoMessages>('todos');
+ * ```
+ */
+export type MessageMap = { [type: string]: BroadcastMessage['message'] };
+
+/** Untyped map used when no message map is provided: any type string, any payload */
+export type DefaultMessageMap = { [type: string]: BroadcastMessage['message'] };
+
+/** Message type strings allowed by a message map */
+export type MessageType<TMap extends MessageMap> = keyof TMap & string;
+
+/**
+ * @internal Blocks inference of a message map from options (e.g. an untyped onMessage
+ * mock), so the map is only ever set explicitly: `useBroadcastChannel<MyMessages>(...)`.
+ */
+export type NoInferMap<T> = [T][T extends unknown ? 0 : never];
+
 /**
  * Options for configuring the broadcast channel
  */
-export interface BroadcastOptions {
+export interface BroadcastOptions<TMap extends MessageMap = DefaultMessageMap> {
   /** Custom source name for this instance */
   sourceName?: string;
 
@@ -12,7 +37,7 @@ export interface BroadcastOptions {
   keepLatestMessage?: boolean;
 
   /** Array of allowed message types */
-  registeredTypes?: string[];
+  registeredTypes?: MessageType<TMap>[];
 
   /** Channel namespace for isolation */
   namespace?: string;
@@ -27,7 +52,31 @@ export interface BroadcastOptions {
   batchingDelayMs?: number;
 
   /** Array of message types that should not be batched and sent immediately (default: []) */
-  excludedBatchMessageTypes?: string[];
+  excludedBatchMessageTypes?: MessageType<TMap>[];
+
+  /**
+   * How messages the transport fails to send are retried (default: 3 retries, starting
+   * after 100ms and doubling). When a batch fails, its messages are sent one by one, so
+   * only the failing ones are retried. Messages still failing end up in `failedMessages`.
+   */
+  sendRetry?: SendRetryOptions;
+
+  /**
+   * Per-type limits on how often messages are sent (default: none). Only the latest
+   * message of a type held back by its policy is sent; acknowledged sends are never
+   * held back.
+   *
+   * ```ts
+   * sendPolicies: { scroll: { policy: 'coalesce' }, hover: { policy: 'throttle', intervalMs: 100 } }
+   * ```
+   */
+  sendPolicies?: { [K in MessageType<TMap>]?: SendPolicy };
+
+  /** Most received messages kept in `messages`; the oldest are evicted first (default: no limit) */
+  maxMessages?: number;
+
+  /** Most messages kept in `sentMessages`; the oldest are evicted first (default: no limit) */
+  maxSentMessages?: number;
 
   /**
    * Callback(s) fired when an incoming message passes all filters
@@ -39,7 +88,19 @@ export interface BroadcastOptions {
    * The callback fires after the message is added to state.
    * Internal messages (PING, PONG, CLEAR_SENT_MESSAGES) never trigger this.
    */
-  onMessage?: MessageCallback | OnMessageMap;
+  onMessage?: MessageCallback<TMap> | OnMessageMap<TMap>;
+
+  /**
+   * Per-type payload validators, run on incoming messages before they reach state.
+   *
+   * A validator is either a function that returns `false` or throws to reject the payload,
+   * or a schema object with a `parse` method that throws on invalid input (Zod, Valibot
+   * wrappers, etc.). Types without a validator are accepted as-is.
+   */
+  validators?: MessageValidators<TMap>;
+
+  /** Callback fired when an incoming message is rejected by its validator */
+  onInvalidMessage?: InvalidMessageCallback;
 
   /**
    * Allow the package to collect anonymous usage statistics (default: true).
@@ -59,6 +120,305 @@ export interface BroadcastOptions {
    * See TELEMETRY.md in the package repository for full details.
    */
   telemetry?: boolean;
+
+  /**
+   * Transport used to deliver messages between tabs (default: 'broadcast-channel').
+   *
+   * - `'broadcast-channel'` — native BroadcastChannel only; an error is reported when unsupported.
+   * - `'storage'` — `storage`-event based transport over localStorage.
+   * - `'auto'` — BroadcastChannel when available, otherwise the storage transport.
+   * - A custom `TransportFactory` to plug in any other delivery mechanism.
+   */
+  transport?: TransportOption;
+
+  /**
+   * Where to keep `messages` and `sentMessages` so they survive reloads (default: none)
+   *
+   * - `'session-storage'` — per tab; cleared when the tab closes.
+   * - `'local-storage'` — per tab as well, under a key that includes the tab id.
+   * - `'indexeddb'` — like local-storage, but asynchronous and without the ~5MB limit.
+   * - A custom `PersistenceAdapter`.
+   */
+  persistence?: PersistenceOption;
+
+  /**
+   * Ask the tabs already on the channel to replay their unexpired sent messages when this
+   * instance joins (default: false). Pass `{ types }` to replay only some message types.
+   * Replayed messages go through the same filters and deduplication as live ones.
+   */
+  replayOnJoin?: boolean | { types?: MessageType<TMap>[] };
+
+  /**
+   * Encrypt message content end to end with AES-GCM (default: none). Every tab on the
+   * channel must use the same key; messages that fail authentication are dropped and
+   * reported through `onInvalidMessage`.
+   */
+  encryption?: EncryptionOptions;
+
+  /**
+   * Sign every outgoing message, internal ones included, with HMAC and drop incoming
+   * messages without a valid signature before they reach deduplication or state
+   * (default: none). Rejected messages are reported through `onInvalidMessage`.
+   */
+  signing?: SigningOptions;
+
+  /**
+   * Delivery order of incoming messages (default: 'none').
+   *
+   * - `'none'` — messages are handled as they arrive. With batching, a message of a type in
+   *   `excludedBatchMessageTypes` can overtake messages posted before it.
+   * - `'per-source'` — messages from each source are handled in the order they were posted.
+   *   Early arrivals wait up to `orderingWindowMs` for the messages before them; messages
+   *   still missing after that are reported through `onGap` and skipped.
+   */
+  ordering?: 'none' | 'per-source';
+
+  /** How long an out-of-order message waits for the ones before it, in milliseconds (default: 1000) */
+  orderingWindowMs?: number;
+
+  /** Callback fired when `ordering: 'per-source'` gives up on missing messages */
+  onGap?: GapCallback;
+
+  /**
+   * Hand posted messages to the page's service worker and receive the ones it stored while
+   * no tab was open (default: false). Requires a service worker running `createMessageRelay`
+   * from `react-broadcast-sync/worker` for the same channel.
+   */
+  storeAndForward?: boolean;
+
+  /**
+   * Encode message content before it is sent and decode it on arrival (default: none), e.g.
+   * `createSerializer()` to keep Date, Map, Set, BigInt and class instances intact through
+   * the storage transport, encryption or signing. Every tab on the channel must use the same
+   * serializer; content that fails to decode is reported through `onInvalidMessage`.
+   */
+  serializer?: MessageSerializer;
+
+  /**
+   * Callback fired with every error the channel reports, e.g. to forward it to an error
+   * tracker. `cause` holds the original exception, when there is one.
+   */
+  onError?: ErrorCallback;
+
+  /** Which reported errors are kept in `errors` (default: the last 20, however old) */
+  errorRetention?: ErrorRetention;
+
+  /**
+   * How long `error` shows the message of the latest error, in milliseconds; 0 keeps it
+   * until `clearErrors()` (default: 3000)
+   */
+  errorDisplayMs?: number;
+}
+
+/**
+ * How often messages of one type are sent
+ *
+ * - `throttle` — at most one message per `intervalMs`. The first is sent right away, and
+ *   the latest of those posted during the interval when it ends.
+ * - `debounce` — sent once no message of the type was posted for `delayMs`; only the latest.
+ * - `coalesce` — only the latest message of the type posted within a batching window is
+ *   sent, with the batch. Without batching, messages are sent as usual.
+ */
+export type SendPolicy =
+  | { policy: 'throttle'; intervalMs: number }
+  | { policy: 'debounce'; delayMs: number }
+  | { policy: 'coalesce' };
+
+/**
+ * Retry policy for messages the transport failed to send
+ */
+export interface SendRetryOptions {
+  /** How often a message is sent again; 0 gives up after the first failure (default: 3) */
+  retries?: number;
+
+  /** Delay before the first retry, in milliseconds (default: 100) */
+  delayMs?: number;
+
+  /** Factor the delay grows by after each retry (default: 2) */
+  backoffFactor?: number;
+
+  /** Longest delay between two attempts, in milliseconds (default: 5000) */
+  maxDelayMs?: number;
+}
+
+/**
+ * Limits on the error history exposed as `errors`
+ */
+export interface ErrorRetention {
+  /** Most errors kept; the oldest are dropped first (default: 20) */
+  maxErrors?: number;
+
+  /** Drop errors older than this, in milliseconds, on the cleaning interval (default: never) */
+  maxAgeMs?: number;
+}
+
+/**
+ * Encodes message content into a form every transport can carry, and back
+ */
+export interface MessageSerializer {
+  encode: (content: unknown) => unknown;
+  decode: (encoded: unknown) => unknown;
+}
+
+/**
+ * A class whose instances createSerializer restores. Instances are encoded from `toJSON()`
+ * when defined, otherwise from their own fields, and revived with the static `fromJSON`
+ * when defined, otherwise by assigning the fields to a new object with the class prototype.
+ */
+export type SerializableClass = (abstract new (...args: never[]) => object) & {
+  fromJSON?: (data: never) => object;
+};
+
+/**
+ * Options for createSerializer
+ */
+export interface SerializerOptions {
+  /** Classes to restore on arrival, by a name shared by every tab (default: {}) */
+  classes?: Record<string, SerializableClass>;
+}
+
+/**
+ * Options for createMessageRelay, the service worker side of `storeAndForward`
+ */
+export interface MessageRelayOptions {
+  /** Channel to relay; the same name passed to useBroadcastChannel */
+  channelName: string;
+
+  /** Namespace of the channel, if it uses one */
+  namespace?: string;
+
+  /** Only store these message types; all types when empty (default: []) */
+  types?: string[];
+
+  /** Most messages kept for the channel; the oldest are dropped first (default: 100) */
+  maxMessages?: number;
+
+  /** Where messages are kept (default: IndexedDB) */
+  storage?: PersistenceAdapter;
+}
+
+/**
+ * A running message relay
+ */
+export interface MessageRelay {
+  /** Stored messages that have not expired, oldest first */
+  getMessages: () => Promise<BroadcastMessage[]>;
+
+  /** Stop listening; stored messages are kept for the next relay */
+  close: () => void;
+}
+
+/**
+ * A message on its way from one tab of an in-memory channel bus to another
+ */
+export interface BusDelivery {
+  channelName: string;
+  /** Id of the posting tab */
+  from: string;
+  /** Id of the receiving tab */
+  to: string;
+  data: unknown;
+}
+
+/**
+ * Options for the in-memory channel bus of `react-broadcast-sync/testing`
+ */
+export interface BroadcastChannelBusOptions {
+  /** Delay before a message reaches other channels, in milliseconds (default: 0) */
+  latencyMs?: number;
+
+  /** Return true to lose a delivery, e.g. to simulate a message that never reaches one tab */
+  drop?: (delivery: BusDelivery) => boolean;
+}
+
+/**
+ * Options for posting from a simulated tab
+ */
+export interface TabPostOptions
+  extends Pick<SendMessageOptions, 'expirationDuration' | 'expirationDate'> {
+  /** Source name of the sender (default: the tab id) */
+  source?: string;
+
+  /** Namespace of the channel, if it uses one */
+  namespace?: string;
+}
+
+/**
+ * A browser tab on an in-memory channel bus
+ */
+export interface VirtualTab {
+  id: string;
+
+  /** BroadcastChannel whose instances belong to this tab */
+  BroadcastChannel: typeof BroadcastChannel;
+
+  /** Transport factory that opens channels in this tab */
+  transport: TransportFactory;
+
+  /** Post a message on a channel as a tab running the library would; returns the message */
+  postMessage: (
+    channelName: string,
+    type: string,
+    content: unknown,
+    options?: TabPostOptions
+  ) => BroadcastMessage;
+
+  /** Close every channel opened in this tab */
+  close: () => void;
+}
+
+/**
+ * In-memory BroadcastChannel implementation shared by any number of virtual tabs
+ *
+ * Like the native API, delivery is asynchronous, data is copied with structured clone
+ * semantics, and a channel never receives its own messages.
+ */
+export interface BroadcastChannelBus {
+  /** BroadcastChannel of the default tab */
+  BroadcastChannel: typeof BroadcastChannel;
+
+  /** Install BroadcastChannel on globalThis; returns a function restoring the previous one */
+  install: () => () => void;
+
+  /** Open a virtual tab; ids default to `tab-1`, `tab-2`, ... */
+  createTab: (id?: string) => VirtualTab;
+
+  /** Every message posted on the bus, in order */
+  posted: { channelName: string; from: string; data: unknown }[];
+
+  setLatency: (latencyMs: number) => void;
+
+  setDrop: (drop: ((delivery: BusDelivery) => boolean) | null) => void;
+
+  /** Deliver all pending messages now, regardless of latency */
+  flush: () => void;
+
+  /** Drop pending messages and close every channel */
+  reset: () => void;
+}
+
+/**
+ * Options for end-to-end payload encryption
+ */
+export interface EncryptionOptions {
+  /** AES-GCM key shared by all tabs, e.g. from `crypto.subtle.importKey` */
+  key: CryptoKey | Promise<CryptoKey>;
+}
+
+/**
+ * Options for message signing
+ */
+export interface SigningOptions {
+  /** HMAC key shared by all tabs of the app, e.g. from `crypto.subtle.importKey` */
+  key: CryptoKey | Promise<CryptoKey>;
+
+  /**
+   * Reject signed messages whose timestamp is further than this from now (default: 60000).
+   * Keep it below `deduplicationTTL`, so a captured message can't be replayed later.
+   * Messages delivered by a `storeAndForward` relay are checked too, so they are rejected
+   * once they waited in the relay for longer than this.
+   */
+  maxAgeMs?: number;
 }
 
 /**
@@ -70,20 +430,37 @@ export interface SendMessageOptions {
 
   /** Specific expiration timestamp */
   expirationDate?: number;
+
+  /**
+   * Wait for the other tabs to acknowledge the message. `postMessage` then returns a
+   * promise of the acknowledging sources, or rejects with a BroadcastAckError.
+   */
+  ack?: boolean;
+
+  /** How long each delivery attempt waits for acknowledgements, in milliseconds (default: 1000) */
+  ackTimeoutMs?: number;
+
+  /** How often the message is resent to tabs that have not acknowledged it (default: 2) */
+  ackRetries?: number;
 }
 
+/**
+ * Send options of a message that must be acknowledged
+ */
+export type AckSendMessageOptions = SendMessageOptions & { ack: true };
+
 /**
  * Structure of a broadcast message
  */
-export interface BroadcastMessage {
+export interface BroadcastMessage<TType extends string = string, TPayload = any> {
   /** Unique message identifier */
   id: string;
 
   /** Message type for categorization */
-  type: string;
+  type: TType;
 
   /** Message content */
-  message: any;
+  message: TPayload;
 
   /** Creation timestamp */
   timestamp: number;
@@ -93,43 +470,204 @@ export interface BroadcastMessage {
 
   /** Optional expiration timestamp */
   expirationDate?: number;
+
+  /** Per-source sequence number, increasing by one with every message posted by the source */
+  seq?: number;
+
+  /** Set when the sender waits for receiving tabs to acknowledge the message */
+  ack?: boolean;
 }
-export interface ClearOptions {
+/**
+ * Union of the messages described by a message map, one variant per type, so that
+ * checking `msg.type` narrows `msg.message`. Pass `TType` to restrict the union.
+ */
+export type TypedBroadcastMessage<
+  TMap extends MessageMap,
+  TType extends MessageType<TMap> = MessageType<TMap>,
+> = { [K in TType]: BroadcastMessage<K, TMap[K]> }[TType];
+
+export interface ClearOptions<TType extends string = string> {
   ids?: string[];
-  types?: string[];
+  types?: TType[];
 }
 
-export interface ClearReceivedMessagesOptions extends ClearOptions {
+export interface ClearReceivedMessagesOptions<TType extends string = string>
+  extends ClearOptions<TType> {
   sources?: string[];
 }
 
-export interface ClearSentMessagesOptions extends ClearOptions {
+export interface ClearSentMessagesOptions<TType extends string = string>
+  extends ClearOptions<TType> {
   sync?: boolean;
 }
 
-export interface GetLatestMessageOptions {
+export interface GetLatestMessageOptions<TType extends string = string> {
   source?: string;
-  type?: string;
+  type?: TType;
 }
 
 /** Callback invoked when a received message passes all filters */
-export type MessageCallback = (msg: BroadcastMessage) => void;
+export type MessageCallback<TMap extends MessageMap = DefaultMessageMap> = (
+  msg: TypedBroadcastMessage<TMap>
+) => void;
 
 /** Map from message type string to a single handler callback */
-export type OnMessageMap = { [type: string]: MessageCallback };
+export type OnMessageMap<TMap extends MessageMap = DefaultMessageMap> = {
+  [K in MessageType<TMap>]?: (msg: BroadcastMessage<K, TMap[K]>) => void;
+};
+
+/**
+ * Validates an incoming payload: a predicate returning `false` / throwing, or a schema
+ * whose `parse` throws on invalid input.
+ */
+export type MessageValidator<TPayload = unknown> =
+  | ((payload: unknown) => boolean | void)
+  | { parse: (payload: unknown) => TPayload };
+
+/** Map from message type to the validator for its payload */
+export type MessageValidators<TMap extends MessageMap = DefaultMessageMap> = {
+  [K in MessageType<TMap>]?: MessageValidator<TMap[K]>;
+};
+
+/** Callback invoked with a rejected message and the reason it was rejected */
+export type InvalidMessageCallback = (msg: BroadcastMessage, reason: unknown) => void;
+
+/** Messages of one source that never arrived within the ordering window */
+export interface MessageGap {
+  /** Source whose messages are missing */
+  source: string;
+
+  /** First missing sequence number */
+  from: number;
+
+  /** Last missing sequence number */
+  to: number;
+}
+
+/** Callback invoked when `ordering: 'per-source'` skips over missing messages */
+export type GapCallback = (gap: MessageGap) => void;
+
+/**
+ * Options for `request()`
+ */
+export interface RequestOptions {
+  /** How long to wait for a response in milliseconds (default: 5000) */
+  timeoutMs?: number;
+
+  /** Source name (e.g. from `ping()`) of the only tab that should answer */
+  target?: string;
+}
+
+/** Handles a request from another tab; the returned value (or resolved promise) is the response */
+export type RequestHandler<TPayload = unknown, TResult = unknown> = (
+  payload: TPayload,
+  meta: { source: string }
+) => TResult | Promise<TResult>;
+
+export type BroadcastRequestErrorCode =
+  /** No response arrived within `timeoutMs` */
+  | 'TIMEOUT'
+  /** The targeted tab has no handler for the request type */
+  | 'NO_HANDLER'
+  /** The remote handler threw or rejected */
+  | 'HANDLER_ERROR'
+  /** The channel is unavailable or was closed before a response arrived */
+  | 'CHANNEL_UNAVAILABLE';
+
+/**
+ * Reason a `postMessage(..., { ack: true })` promise rejected
+ */
+export type BroadcastAckErrorCode =
+  /** Tabs that answered a ping did not acknowledge the message after all retries */
+  | 'NOT_ACKNOWLEDGED'
+  /** The channel is unavailable or was closed before every tab acknowledged */
+  | 'CHANNEL_UNAVAILABLE'
+  /** The content holds a value that cannot be sent, such as a function; nothing was sent */
+  | 'NOT_CLONEABLE';
+
+/**
+ * What went wrong, as reported in `BroadcastError.code`
+ */
+export type BroadcastErrorCode =
+  /** No transport is available, e.g. BroadcastChannel is unsupported */
+  | 'UNSUPPORTED'
+  /** The transport threw while opening the channel */
+  | 'CHANNEL_FAILED'
+  /** The transport threw while sending */
+  | 'SEND_FAILED'
+  /** The content holds a value that cannot be sent, such as a function; nothing was sent */
+  | 'NOT_CLONEABLE'
+  /** The serializer, encryption or signing failed on an outgoing message; nothing was sent */
+  | 'ENCODE_FAILED'
+  /** The persistence adapter failed to save the history */
+  | 'PERSISTENCE_FAILED'
+  /** An incoming message could not be processed */
+  | 'RECEIVE_FAILED';
+
+interface BroadcastErrorBase<TCode extends BroadcastErrorCode, TAction extends string> {
+  code: TCode;
+
+  /** Operation that failed */
+  action: TAction;
+
+  /** Human-readable description; the latest one is also exposed as `error` */
+  message: string;
+
+  /** Resolved channel name, namespace included */
+  channelName: string;
+
+  /** Type of the message concerned, when the error is about one */
+  messageType?: string;
+
+  /** Original exception, when there is one */
+  cause?: unknown;
+
+  /** When the error was reported */
+  timestamp: number;
+}
+
+/**
+ * An error reported by a channel, discriminated by `code`
+ */
+export type BroadcastError =
+  | BroadcastErrorBase<'UNSUPPORTED', 'connect' | 'postMessage' | 'ping' | 'request'>
+  | BroadcastErrorBase<'CHANNEL_FAILED', 'connect'>
+  | (BroadcastErrorBase<
+      'SEND_FAILED',
+      'postMessage' | 'disconnect' | 'ping' | 'clearSentMessages'
+    > & { messageType: string })
+  | (BroadcastErrorBase<'NOT_CLONEABLE', 'postMessage'> & { messageType: string })
+  | BroadcastErrorBase<'ENCODE_FAILED', 'postMessage' | 'serializer' | 'encryption' | 'signing'>
+  | BroadcastErrorBase<'PERSISTENCE_FAILED', 'persistence'>
+  | BroadcastErrorBase<'RECEIVE_FAILED', 'receive'>;
+
+/** Callback invoked with every error a channel reports */
+export type ErrorCallback = (error: BroadcastError) => void;
 
 /**
  * Actions and state provided by the broadcast channel hook
  */
-export interface BroadcastActions {
+export interface BroadcastActions<TMap extends MessageMap = DefaultMessageMap> {
   /** The resolved channel name including namespace */
   channelName: string;
 
   /** Array of received messages */
-  messages: BroadcastMessage[];
+  messages: TypedBroadcastMessage<TMap>[];
 
   /** Array of sent messages */
-  sentMessages: BroadcastMessage[];
+  sentMessages: TypedBroadcastMessage<TMap>[];
+
+  /**
+   * Sent messages the transport still failed on after the `sendRetry` retries, oldest
+   * first. They remain in `sentMessages`.
+   */
+  failedMessages: TypedBroadcastMessage<TMap>[];
+
+  /** Empty `failedMessages` */
+  clearFailedMessages: () => void;
+
+  /** Number of incoming messages rejected by `validators` */
+  invalidMessageCount: number;
 
   /** Whether a ping operation is currently in progress */
   isPingInProgress: boolean;
@@ -137,25 +675,328 @@ export interface BroadcastActions {
   /** Function to ping the channel and get active sources */
   ping: (timeoutMs?: number) => Promise<string[]>;
 
-  /** Function to send a message */
-  postMessage: (messageType: string, messageContent: any, options?: SendMessageOptions) => void;
+  /**
+   * Function to send a message. With `{ ack: true }` it returns a promise of the sources
+   * that acknowledged the message, and rejects with a BroadcastAckError listing the tabs
+   * that did not.
+   */
+  postMessage: {
+    <K extends MessageType<TMap>>(
+      messageType: K,
+      messageContent: TMap[K],
+      options: AckSendMessageOptions
+    ): Promise<string[]>;
+    <K extends MessageType<TMap>>(
+      messageType: K,
+      messageContent: TMap[K],
+      options?: SendMessageOptions
+    ): void;
+  };
+
+  /**
+   * Send a request to other tabs and wait for the first response. Rejects with a
+   * BroadcastRequestError on timeout, remote handler failure or a closed channel.
+   */
+  request: <TResult = unknown>(
+    type: string,
+    payload?: unknown,
+    options?: RequestOptions
+  ) => Promise<TResult>;
+
+  /** Register the handler answering requests of a type; returns an unregister function */
+  handle: <TPayload = unknown, TResult = unknown>(
+    type: string,
+    handler: RequestHandler<TPayload, TResult>
+  ) => () => void;
 
   /** Function to clear received messages */
-  clearReceivedMessages: (options?: ClearReceivedMessagesOptions) => void;
+  clearReceivedMessages: (options?: ClearReceivedMessagesOptions<MessageType<TMap>>) => void;
 
   /** Function to clear sent messages */
-  clearSentMessages: (options?: ClearSentMessagesOptions) => void;
+  clearSentMessages: (options?: ClearSentMessagesOptions<MessageType<TMap>>) => void;
 
   /** Function to get the latest message by source and type */
-  getLatestMessage: (options?: GetLatestMessageOptions) => BroadcastMessage | null;
+  getLatestMessage: <K extends MessageType<TMap> = MessageType<TMap>>(
+    options?: GetLatestMessageOptions<K>
+  ) => TypedBroadcastMessage<TMap, K> | null;
 
   /** Explicitly close the broadcast channel and remove listeners */
   closeChannel: () => void;
 
-  /** Current error state */
+  /** Forget the reported errors, clearing `errors` and `error` */
+  clearErrors: () => void;
+
+  /** Reported errors, oldest first, as kept by `errorRetention` */
+  errors: BroadcastError[];
+
+  /** Message of the latest error, for `errorDisplayMs` after it was reported */
   error: string | null;
 }
 
+/**
+ * State of a broadcast client; a new object whenever any of it changes
+ */
+export type BroadcastClientSnapshot<TMap extends MessageMap = DefaultMessageMap> = Pick<
+  BroadcastActions<TMap>,
+  | 'messages'
+  | 'sentMessages'
+  | 'failedMessages'
+  | 'error'
+  | 'errors'
+  | 'isPingInProgress'
+  | 'invalidMessageCount'
+>;
+
+/**
+ * Events emitted by a broadcast client, with the payload their listeners receive
+ */
+export interface BroadcastClientEvents<TMap extends MessageMap = DefaultMessageMap> {
+  /** An incoming message passed all filters and was added to `messages` */
+  message: TypedBroadcastMessage<TMap>;
+
+  /** An incoming message was rejected by a validator, decryption or signature check */
+  invalidMessage: { message: BroadcastMessage; reason: unknown };
+
+  /** Per-source ordering skipped missing messages */
+  gap: MessageGap;
+
+  /** An error was reported, as passed to `onError` */
+  error: BroadcastError;
+}
+
+/**
+ * Framework-agnostic broadcast channel client, the engine behind useBroadcastChannel
+ */
+export interface BroadcastClient<TMap extends MessageMap = DefaultMessageMap>
+  extends Omit<BroadcastActions<TMap>, keyof BroadcastClientSnapshot<TMap>> {
+  /** Open the transport and start the cleanup timers; messages are only received once connected */
+  connect: () => void;
+
+  /** Flush batched messages, close the transport and stop all timers; `connect` can be called again */
+  disconnect: () => void;
+
+  /** Current state; the same object until something changes */
+  getSnapshot: () => BroadcastClientSnapshot<TMap>;
+
+  /** Listen for any state change; returns an unsubscribe function */
+  subscribe: (listener: () => void) => () => void;
+
+  /** Listen for an event; returns an unsubscribe function */
+  on: <E extends keyof BroadcastClientEvents<TMap>>(
+    event: E,
+    listener: (payload: BroadcastClientEvents<TMap>[E]) => void
+  ) => () => void;
+
+  /**
+   * Replace the options. Callbacks, filters and batching settings apply immediately;
+   * `transport`, `persistence`, `encryption`, `signing`, `storeAndForward`, `serializer`,
+   * `cleaningInterval` and the ordering window apply on the next `connect`. `sourceName` and `namespace` are
+   * fixed at creation.
+   */
+  setOptions: (options: BroadcastOptions<NoInferMap<TMap>>) => void;
+}
+
+/**
+ * Options for useBroadcastState
+ */
+export type BroadcastStateOptions = Pick<
+  BroadcastOptions,
+  'sourceName' | 'namespace' | 'transport' | 'telemetry'
+>;
+
+/**
+ * Options for useBroadcastDocument
+ */
+export interface BroadcastDocumentOptions
+  extends Pick<BroadcastOptions, 'sourceName' | 'namespace' | 'transport' | 'telemetry'> {
+  /** How often tabs exchange versions and collect tombstones, in milliseconds (default: 5000) */
+  gcIntervalMs?: number;
+
+  /** How long a silent tab still counts when deciding which tombstones are safe to drop (default: 15000) */
+  peerTimeoutMs?: number;
+}
+
+/**
+ * State and actions provided by the document hook
+ */
+export interface BroadcastDocumentActions<
+  TFields extends Record<string, unknown> = Record<string, unknown>,
+> {
+  /** Plain fields; concurrent writes to the same field resolve by last writer wins */
+  fields: Partial<TFields>;
+
+  /** Text fields; concurrent edits are merged character by character */
+  texts: Record<string, string>;
+
+  /** Set a plain field */
+  setField: <K extends keyof TFields & string>(key: K, value: TFields[K]) => void;
+
+  /** Remove a plain field */
+  deleteField: (key: keyof TFields & string) => void;
+
+  /** Insert text at a position of a text field */
+  insertText: (name: string, index: number, text: string) => void;
+
+  /** Remove `length` characters at a position of a text field */
+  deleteText: (name: string, index: number, length: number) => void;
+
+  /** Replace a text field with a new value, e.g. from a textarea's onChange */
+  setText: (name: string, value: string) => void;
+}
+
+/**
+ * Options for useBroadcastLeader
+ */
+export interface LeaderElectionOptions
+  extends Pick<BroadcastOptions, 'sourceName' | 'namespace' | 'transport'> {
+  /** How often the leader announces itself, in milliseconds (default: 1000) */
+  heartbeatIntervalMs?: number;
+
+  /** How long followers wait without a heartbeat before electing a new leader (default: 3000) */
+  leaderTimeoutMs?: number;
+
+  /** How long a candidate waits for competing claims before taking leadership (default: 300) */
+  electionTimeoutMs?: number;
+}
+
+/**
+ * Callback run when this tab becomes leader. It may return a cleanup function, which runs
+ * when leadership is lost or the callback is unregistered.
+ */
+export type LeaderCallback = () => void | (() => void);
+
+/**
+ * State and actions provided by the leader election hook
+ */
+export interface LeaderElectionActions {
+  /** Whether this tab is the current leader */
+  isLeader: boolean;
+
+  /** Source name of the current leader, or null while an election is in progress */
+  leaderId: string | null;
+
+  /** Register a callback for when this tab becomes leader; returns an unregister function */
+  onBecomeLeader: (callback: LeaderCallback) => () => void;
+}
+
+/**
+ * Another tab present on a channel, as seen by usePresence
+ */
+export interface PresencePeer<TMetadata = unknown> {
+  /** Source name of the peer */
+  source: string;
+
+  /** Metadata the peer announced, e.g. user name, route or focused state */
+  metadata: TMetadata;
+
+  /** When this tab first saw the peer */
+  joinedAt: number;
+}
+
+/**
+ * Options for usePresence
+ */
+export interface PresenceOptions<TMetadata = unknown>
+  extends Pick<BroadcastOptions, 'sourceName' | 'namespace' | 'transport'> {
+  /** Metadata announced to the other tabs; changes are re-announced immediately */
+  metadata?: TMetadata;
+
+  /** How often this tab announces it is still present, in milliseconds (default: 2000) */
+  heartbeatIntervalMs?: number;
+
+  /** How long a peer may stay silent before it is considered gone (default: 6000) */
+  peerTimeoutMs?: number;
+
+  /** Called when a peer joins the channel */
+  onJoin?: (peer: PresencePeer<TMetadata>) => void;
+
+  /** Called when a peer leaves or times out */
+  onLeave?: (peer: PresencePeer<TMetadata>) => void;
+}
+
+/**
+ * State provided by the presence hook
+ */
+export interface PresenceState<TMetadata = unknown> {
+  /** Other tabs currently present on the channel, in join order */
+  peers: PresencePeer<TMetadata>[];
+
+  /** Source name this tab announces itself with */
+  self: string;
+}
+
+/**
+ * Low-level delivery mechanism used by the hook. Payloads are either a single
+ * BroadcastMessage or an array of them (batch).
+ */
+export interface BroadcastTransport {
+  /**
+   * Deliver data to every other participant on the channel. Throws, or returns a promise
+   * that rejects, when the data could not be sent.
+   */
+  postMessage: (data: unknown) => void | Promise<void>;
+
+  /** Register a listener for incoming data; returns an unsubscribe function */
+  subscribe: (listener: (data: unknown) => void) => () => void;
+
+  /** Release underlying resources and drop all listeners */
+  close: () => void;
+}
+
+/** Opens a transport for the resolved channel name */
+export type TransportFactory = (channelName: string) => BroadcastTransport;
+
+export type TransportOption = 'broadcast-channel' | 'storage' | 'auto' | TransportFactory;
+
+/**
+ * Message history written by the `persistence` option
+ */
+export interface PersistedMessages {
+  messages: BroadcastMessage[];
+  sentMessages: BroadcastMessage[];
+
+  /** When the history was saved; histories of closed tabs in shared storage expire by it */
+  savedAt?: number;
+}
+
+/**
+ * Storage backend for the `persistence` option. Either method may be synchronous or
+ * return a promise.
+ */
+export interface PersistenceAdapter {
+  /** Read the history stored under key, or null when there is none */
+  load: (key: string) => PersistedMessages | null | Promise<PersistedMessages | null>;
+
+  /** Replace the history stored under key */
+  save: (key: string, data: PersistedMessages) => void | Promise<void>;
+}
+
+export type PersistenceOption =
+  | 'session-storage'
+  | 'local-storage'
+  | 'indexeddb'
+  | PersistenceAdapter;
+
 export type ClearMessage = 'CLEAR_SENT_MESSAGES';
 
-export type InternalMessage = ClearMessage | 'PING' | 'PONG';
+export type InternalMessage =
+  | ClearMessage
+  | 'PING'
+  | 'PONG'
+  | 'ACK'
+  | 'STATE_REQUEST'
+  | 'STATE_UPDATE'
+  | 'LEADER_CLAIM'
+  | 'LEADER_HEARTBEAT'
+  | 'LEADER_RESIGN'
+  | 'RPC_REQUEST'
+  | 'RPC_RESPONSE'
+  | 'PRESENCE_JOIN'
+  | 'PRESENCE_HEARTBEAT'
+  | 'PRESENCE_LEAVE'
+  | 'SYNC_REQUEST'
+  | 'SYNC_RESPONSE'
+  | 'DOC_OPS'
+  | 'DOC_SYNC_REQUEST'
+  | 'DOC_SNAPSHOT'
+  | 'DOC_VERSION';
@@ -0,0 +1,1566 @@
+import {
+  BroadcastActions,
+  BroadcastClient,
+  BroadcastClientEvents,
+  BroadcastClientSnapshot,
+  BroadcastError,
+  BroadcastMessage,
+  BroadcastOptions,
+  BroadcastTransport,
+  ClearReceivedMessagesOptions,
+  ClearSentMessagesOptions,
+  DefaultMessageMap,
+  GetLatestMessageOptions,
+  InternalMessage,
+  MessageMap,
+  MessageType,
+  NoInferMap,
+  PersistedMessages,
+  PersistenceAdapter,
+  RequestHandler,
+  RequestOptions,
+  SendMessageOptions,
+  SendPolicy,
+  TypedBroadcastMessage,
+} from '../types/types';
+import {
+  generateSourceName,
+  isValidMessage,
+  isMessageExpired,
+  createMessage,
+  getInternalMessageType,
+  getValidationError,
+  isValidInternalClearMessage,
+  debounce,
+} from './messageUtils';
+import { debug } from './debug';
+import { BroadcastAckError, BroadcastRequestError } from './errors';
+import { resolveTransport } from './transport';
+import { createEncryptedTransport } from './encryption';
+import { createSignedTransport } from './signing';
+import { createSequencer, Sequencer } from './ordering';
+import { createRelayedTransport } from './relay';
+import { createSerializedTransport, findUncloneable } from './serializer';
+import { acquireChannel, ReceivedMessages, runEvery, SharedChannel } from './channelRegistry';
+import {
+  HISTORY_REFRESH_INTERVAL,
+  mergeHistory,
+  pruneTabHistories,
+  resolveHistoryKey,
+  resolvePersistence,
+  sanitizeHistory,
+} from './persistence';
+import { trackChannelInit, trackMethodCalled, trackBrowserUnsupported } from './telemetry';
+
+const INTERNAL_MESSAGE_TYPES: Record<string, InternalMessage> = {
+  CLEAR_SENT_MESSAGES: 'CLEAR_SENT_MESSAGES',
+  PING: 'PING',
+  PONG: 'PONG',
+  ACK: 'ACK',
+  RPC_REQUEST: 'RPC_REQUEST',
+  RPC_RESPONSE: 'RPC_RESPONSE',
+  SYNC_REQUEST: 'SYNC_REQUEST',
+  SYNC_RESPONSE: 'SYNC_RESPONSE',
+} as const;
+
+const UNSUPPORTED_ERROR =
+  'BroadcastChannel is not supported in this browser. Please check browser compatibility.';
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: BroadcastRequestError) => void;
+  timer: ReturnType<typeof setTimeout>;
+  requestType: string;
+  target?: string;
+}
+
+interface PendingAck {
+  /** Sources that answered the ping sent along with the message */
+  peers: Set<string>;
+  acknowledged: Set<string>;
+  timer: ReturnType<typeof setTimeout> | null;
+  reject: (error: BroadcastAckError) => void;
+  messageType: string;
+}
+
+// A BroadcastError before the client adds the channel name and timestamp
+type ReportedError = BroadcastError extends infer E
+  ? E extends BroadcastError
+    ? Omit<E, 'channelName' | 'timestamp'>
+    : never
+  : never;
+
+/** Content of a synced clearSentMessages; an empty list matches every id or type */
+interface ClearSyncPayload {
+  ids: string[];
+  types: string[];
+}
+
+interface HeldMessage {
+  content: unknown;
+  sendOptions: SendMessageOptions;
+  policy: SendPolicy;
+  /** Releases the message; coalesced messages go with the next batch instead */
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// The last `max` items of a list, or all of them without a limit
+const keepLast = <T>(list: T[], max: number | undefined): T[] =>
+  max === undefined ? list : max > 0 ? list.slice(-max) : [];
+
+type EventListeners<TMap extends MessageMap> = {
+  [E in keyof BroadcastClientEvents<TMap>]: Set<(payload: BroadcastClientEvents<TMap>[E]) => void>;
+};
+
+/**
+ * Create a broadcast channel client
+ *
+ * Holds everything useBroadcastChannel does (batching, deduplication, expiry cleanup,
+ * ping, request/response, clear sync, persistence) without depending on React, so it
+ * can be used from vanilla modules, other frameworks or a service worker bridge.
+ *
+ * ```ts
+ * const client = createBroadcastClient('notifications');
+ * client.on('message', msg => console.log(msg.type, msg.message));
+ * client.connect();
+ * client.postMessage('alert', { text: 'Saved' });
+ * ```
+ *
+ * Note: When batching is enabled (batchingDelayMs > 0), messages sent over the channel may be received as either:
+ *   - a single BroadcastMessage (object), or
+ *   - an array of BroadcastMessage (batch)
+ *
+ * The client supports both formats. If you listen to the channel directly, always check:
+ *   if (Array.isArray(event.data)) { ... } else { ... }
+ */
+export const createBroadcastClient = <TMap extends MessageMap = DefaultMessageMap>(
+  channelName: string,
+  initialOptions: BroadcastOptions<NoInferMap<TMap>> = {},
+  /** @internal — used by the hook, provider and worker entry for telemetry and the generated source */
+  internal: { entry?: 'client' | 'worker' | 'hook' | 'provider'; source?: string } = {}
+): BroadcastClient<TMap> => {
+  let options = initialOptions;
+  const { namespace = '', sourceName } = initialOptions;
+  const { entry = 'client' } = internal;
+  const source = internal.source || sourceName || generateSourceName();
+  const resolvedChannelName = namespace ? `${channelName}-${namespace}` : channelName;
+  const internalTypes = {
+    CLEAR_SENT_MESSAGES: getInternalMessageType(
+      INTERNAL_MESSAGE_TYPES.CLEAR_SENT_MESSAGES,
+      channelName,
+      namespace
+    ),
+    PING: getInternalMessageType(INTERNAL_MESSAGE_TYPES.PING, channelName, namespace),
+    PONG: getInternalMessageType(INTERNAL_MESSAGE_TYPES.PONG, channelName, namespace),
+    ACK: getInternalMessageType(INTERNAL_MESSAGE_TYPES.ACK, channelName, namespace),
+    RPC_REQUEST: getInternalMessageType(INTERNAL_MESSAGE_TYPES.RPC_REQUEST, channelName, namespace),
+    RPC_RESPONSE: getInternalMessageType(
+      INTERNAL_MESSAGE_TYPES.RPC_RESPONSE,
+      channelName,
+      namespace
+    ),
+    SYNC_REQUEST: getInternalMessageType(
+      INTERNAL_MESSAGE_TYPES.SYNC_REQUEST,
+      channelName,
+      namespace
+    ),
+    SYNC_RESPONSE: getInternalMessageType(
+      INTERNAL_MESSAGE_TYPES.SYNC_RESPONSE,
+      channelName,
+      namespace
+    ),
+  };
+
+  // Option accessors with their defaults; read on every use so setOptions applies at once
+  const isTelemetryEnabled = () => options.telemetry ?? true;
+  const getDeduplicationTTL = () => options.deduplicationTTL ?? 5 * 60 * 1000;
+  const getRegisteredTypes = (): string[] => options.registeredTypes ?? [];
+
+  // Why content can't be sent, if it can't: a value structured clone rejects, or a
+  // serializer failure
+  const getContentError = (
+    content: unknown
+  ): { code: 'NOT_CLONEABLE' | 'ENCODE_FAILED'; message: string; cause?: unknown } | null => {
+    let problem: ReturnType<typeof findUncloneable>;
+    try {
+      problem = findUncloneable(options.serializer ? options.serializer.encode(content) : content);
+    } catch (e) {
+      return {
+        code: 'ENCODE_FAILED',
+        message: `Failed to serialize message: ${e instanceof Error ? e.message : String(e)}`,
+        cause: e,
+      };
+    }
+    return (
+      problem && {
+        code: 'NOT_CLONEABLE',
+        message: `Message content cannot be sent: ${problem.path} is ${problem.reason}`,
+      }
+    );
+  };
+
+  // State
+  let snapshot: BroadcastClientSnapshot<TMap> = {
+    messages: [],
+    sentMessages: [],
+    error: null,
+    errors: [],
+    failedMessages: [],
+    isPingInProgress: false,
+    invalidMessageCount: 0,
+  };
+  const storeListeners = new Set<() => void>();
+  const eventListeners: EventListeners<TMap> = {
+    message: new Set(),
+    invalidMessage: new Set(),
+    gap: new Set(),
+    error: new Set(),
+  };
+
+  // Runtime
+  let connected = false;
+  let initTracked = false;
+  let channel: BroadcastTransport | null = null;
+  // Shared with the other instances of the tab once the channel is open
+  let receivedMessageIds: ReceivedMessages = new Map<string, number>();
+  // Ping and acknowledged sends collect PONG sources at the same time
+  const activeSourcesCollectors = new Set<Set<string>>();
+  let batchingTimeout: ReturnType<typeof setTimeout> | null = null;
+  let batchingMessages: BroadcastMessage[] = [];
+  // Latest message of each type a send policy holds back, and when throttled types may
+  // send again
+  const heldMessages = new Map<string, HeldMessage>();
+  const throttledUntil = new Map<string, number>();
+  // Messages waiting to be sent again after the transport threw on them
+  const sendRetries = new Map<BroadcastMessage, ReturnType<typeof setTimeout>>();
+  const requestHandlers = new Map<string, RequestHandler>();
+  const pendingRequests = new Map<string, PendingRequest>();
+  const pendingAcks = new Map<string, PendingAck>();
+  // Sequence number of the last message posted by this client
+  let sequence = 0;
+  let sequencer: Sequencer | null = null;
+  const stopTimers = new Set<() => void>();
+  let cancelHydration: (() => void) | null = null;
+  let debouncedCleanup: ReturnType<typeof debounce> | null = null;
+  // Clears `error` once the latest error has been shown for errorDisplayMs
+  let errorDisplayTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  // Persistence
+  // Resolved on connect, since shared storages key the history by tab
+  let historyKey = '';
+  let persistenceAdapter: PersistenceAdapter | null = null;
+  // Nothing is saved before the history has been loaded into state
+  let hydrated = false;
+  let lastPersistedIds: string | null = null;
+  let lastPersistedAt = 0;
+
+  const emit = <E extends keyof BroadcastClientEvents<TMap>>(
+    event: E,
+    payload: BroadcastClientEvents<TMap>[E]
+  ) => {
+    eventListeners[event].forEach(listener => {
+      try {
+        listener(payload);
+      } catch (e) {
+        debug.error({
+          action: `on('${event}')`,
+          channelName: resolvedChannelName,
+          originalError: e instanceof Error ? e.message : String(e),
+        });
+      }
+    });
+  };
+
+  const persistHistory = () => {
+    if (!persistenceAdapter || !hydrated) return;
+
+    const history = sanitizeHistory({
+      messages: snapshot.messages,
+      sentMessages: snapshot.sentMessages,
+    });
+    // Messages are immutable, so comparing ids is enough to skip redundant writes. An
+    // unchanged history is still saved now and then, to keep it from expiring
+    const ids = [history.messages, history.sentMessages]
+      .map(list => list.map(message => message.id).join(','))
+      .join('|');
+    const now = Date.now();
+    if (ids === lastPersistedIds && now - lastPersistedAt < HISTORY_REFRESH_INTERVAL) return;
+    lastPersistedIds = ids;
+    lastPersistedAt = now;
+
+    const fail = (e: unknown) => {
+      reportError({
+        code: 'PERSISTENCE_FAILED',
+        action: 'persistence',
+        message: 'Failed to persist messages',
+        cause: e,
+      });
+    };
+    try {
+      Promise.resolve(persistenceAdapter.save(historyKey, { ...history, savedAt: now })).catch(
+        fail
+      );
+    } catch (e) {
+      fail(e);
+    }
+  };
+
+  const setSnapshot = (
+    update: (current: BroadcastClientSnapshot<TMap>) => Partial<BroadcastClientSnapshot<TMap>>
+  ) => {
+    const previous = snapshot;
+    snapshot = { ...previous, ...update(previous) };
+    if (
+      snapshot.messages !== previous.messages ||
+      snapshot.sentMessages !== previous.sentMessages
+    ) {
+      persistHistory();
+    }
+    storeListeners.forEach(listener => listener());
+  };
+
+  // Log an error, add it to `errors`, show its message as `error` and notify listeners
+  const reportError = (reported: ReportedError) => {
+    const error = {
+      ...reported,
+      channelName: resolvedChannelName,
+      timestamp: Date.now(),
+    } as BroadcastError;
+    debug.error({
+      action: error.action,
+      channelName: resolvedChannelName,
+      type: error.messageType,
+      originalError: error.cause ?? error.message,
+    });
+
+    const { maxErrors = 20 } = options.errorRetention ?? {};
+    setSnapshot(current => ({
+      errors: maxErrors > 0 ? [...current.errors, error].slice(-maxErrors) : [],
+      error: error.message,
+    }));
+    if (errorDisplayTimeout) clearTimeout(errorDisplayTimeout);
+    errorDisplayTimeout = null;
+    const errorDisplayMs = options.errorDisplayMs ?? 3000;
+    if (errorDisplayMs > 0) {
+      errorDisplayTimeout = setTimeout(() => {
+        errorDisplayTimeout = null;
+        setSnapshot(() => ({ error: null }));
+      }, errorDisplayMs);
+    }
+
+    try {
+      options.onError?.(error);
+    } catch (e) {
+      debug.error({
+        action: 'onError',
+        channelName: resolvedChannelName,
+        originalError: e instanceof Error ? e.message : String(e),
+      });
+    }
+    emit('error', error);
+  };
+
+  const clearFailedMessages = () => {
+    if (isTelemetryEnabled()) trackMethodCalled('clearFailedMessages');
+    setSnapshot(() => ({ failedMessages: [] }));
+  };
+
+  const clearErrors = () => {
+    if (isTelemetryEnabled()) trackMethodCalled('clearErrors');
+    if (errorDisplayTimeout) clearTimeout(errorDisplayTimeout);
+    errorDisplayTimeout = null;
+    setSnapshot(() => ({ errors: [], error: null }));
+  };
+
+  const rejectMessage = (message: BroadcastMessage, reason: unknown) => {
+    setSnapshot(current => ({ invalidMessageCount: current.invalidMessageCount + 1 }));
+    try {
+      options.onInvalidMessage?.(message, reason);
+    } catch (e) {
+      debug.error({
+        action: 'onInvalidMessage',
+        channelName: resolvedChannelName,
+        originalError: e instanceof Error ? e.message : String(e),
+      });
+    }
+    emit('invalidMessage', { message, reason });
+  };
+
+  // Post on a transport and pass any failure to `fail`. Sync transports throw; transformed
+  // ones (serializer, encryption, signing) send later and reject the returned promise
+  const post = (
+    transport: BroadcastTransport | null,
+    data: unknown,
+    fail: (e: unknown) => void
+  ) => {
+    if (!transport) return;
+    try {
+      Promise.resolve(transport.postMessage(data)).catch(fail);
+    } catch (e) {
+      fail(e);
+    }
+  };
+
+  const ping = (timeoutMs: number = 300): Promise<string[]> => {
+    if (isTelemetryEnabled()) trackMethodCalled('ping');
+    if (snapshot.isPingInProgress) {
+      debug.ping.inProgress();
+      return Promise.resolve([]);
+    }
+
+    if (!channel) {
+      reportError({ code: 'UNSUPPORTED', action: 'ping', message: UNSUPPORTED_ERROR });
+      return Promise.resolve([]);
+    }
+
+    // Collect before posting: instances in the same tab answer synchronously
+    setSnapshot(() => ({ isPingInProgress: true }));
+    const collector = new Set<string>();
+    activeSourcesCollectors.add(collector);
+
+    let failed = false;
+    post(channel, createMessage(internalTypes.PING, null, source), e => {
+      failed = true;
+      activeSourcesCollectors.delete(collector);
+      setSnapshot(() => ({ isPingInProgress: false }));
+      reportError({
+        code: 'SEND_FAILED',
+        action: 'ping',
+        message: 'Failed to send ping',
+        messageType: internalTypes.PING,
+        cause: e,
+      });
+    });
+    if (failed) return Promise.resolve([]);
+
+    return new Promise(resolve => {
+      setTimeout(() => {
+        setSnapshot(() => ({ isPingInProgress: false }));
+        activeSourcesCollectors.delete(collector);
+        resolve(Array.from(collector));
+      }, timeoutMs);
+    });
+  };
+
+  const request = <TResult = unknown>(
+    type: string,
+    payload?: unknown,
+    requestOptions: RequestOptions = {}
+  ): Promise<TResult> => {
+    if (isTelemetryEnabled()) trackMethodCalled('request');
+    const { timeoutMs = 5000, target } = requestOptions;
+
+    if (!channel) {
+      reportError({ code: 'UNSUPPORTED', action: 'request', message: UNSUPPORTED_ERROR });
+      return Promise.reject(
+        new BroadcastRequestError('CHANNEL_UNAVAILABLE', UNSUPPORTED_ERROR, {
+          requestType: type,
+          target,
+        })
+      );
+    }
+
+    const message = createMessage(internalTypes.RPC_REQUEST, { type, payload, target }, source);
+
+    return new Promise<TResult>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pendingRequests.delete(message.id);
+        reject(
+          new BroadcastRequestError('TIMEOUT', `Request "${type}" timed out after ${timeoutMs}ms`, {
+            requestType: type,
+            target,
+          })
+        );
+      }, timeoutMs);
+      pendingRequests.set(message.id, {
+        resolve: result => resolve(result as TResult),
+        reject,
+        timer,
+        requestType: type,
+        target,
+      });
+
+      post(channel, message, e => {
+        clearTimeout(timer);
+        pendingRequests.delete(message.id);
+        debug.error({
+          action: 'request',
+          channelName: resolvedChannelName,
+          type,
+          originalError: e instanceof Error ? e : String(e),
+        });
+        reject(
+          new BroadcastRequestError('CHANNEL_UNAVAILABLE', 'Failed to send request', {
+            requestType: type,
+            target,
+            cause: e,
+          })
+        );
+      });
+    });
+  };
+
+  const handle = <TPayload = unknown, TResult = unknown>(
+    type: string,
+    handler: RequestHandler<TPayload, TResult>
+  ) => {
+    if (isTelemetryEnabled()) trackMethodCalled('handle');
+    // Payloads come from other tabs; the handler declares the shape it expects
+    const registered: RequestHandler = (payload, meta) => handler(payload as TPayload, meta);
+    requestHandlers.set(type, registered);
+    return () => {
+      if (requestHandlers.get(type) === registered) {
+        requestHandlers.delete(type);
+      }
+    };
+  };
+
+  const respond = (requestId: string, requester: string, response: Record<string, unknown>) => {
+    post(
+      channel,
+      createMessage(
+        internalTypes.RPC_RESPONSE,
+        { requestId, target: requester, ...response },
+        source
+      ),
+      e => {
+        debug.error({
+          action: 'handle',
+          channelName: resolvedChannelName,
+          originalError: e instanceof Error ? e : String(e),
+        });
+      }
+    );
+  };
+
+  // Wait until every tab that answers a ping has acknowledged the message, resending it to
+  // the stragglers after each timeout
+  const awaitAcknowledgements = (
+    message: BroadcastMessage,
+    sendOptions: SendMessageOptions
+  ): Promise<string[]> => {
+    const { ackTimeoutMs = 1000, ackRetries = 2 } = sendOptions;
+    const peers = new Set<string>();
+    activeSourcesCollectors.add(peers);
+
+    return new Promise<string[]>((resolve, reject) => {
+      const pending: PendingAck = {
+        peers,
+        acknowledged: new Set(),
+        timer: null,
+        reject,
+        messageType: message.type,
+      };
+      pendingAcks.set(message.id, pending);
+
+      let attempts = 0;
+      const check = () => {
+        const acknowledged = Array.from(pending.acknowledged);
+        const unacknowledged = Array.from(peers).filter(peer => !pending.acknowledged.has(peer));
+        if (unacknowledged.length > 0 && attempts < ackRetries) {
+          attempts++;
+          post(channel, message, e => {
+            debug.error({
+              action: 'postMessage',
+              channelName: resolvedChannelName,
+              type: message.type,
+              originalError: e instanceof Error ? e : String(e),
+            });
+          });
+          pending.timer = setTimeout(check, ackTimeoutMs);
+          return;
+        }
+
+        pendingAcks.delete(message.id);
+        activeSourcesCollectors.delete(peers);
+        if (unacknowledged.length === 0) {
+          resolve(acknowledged);
+          return;
+        }
+        reject(
+          new BroadcastAckError(
+            'NOT_ACKNOWLEDGED',
+            `Message "${message.type}" was not acknowledged by ${unacknowledged.join(', ')}`,
+            { messageType: message.type, acknowledged, unacknowledged }
+          )
+        );
+      };
+      pending.timer = setTimeout(check, ackTimeoutMs);
+
+      post(channel, createMessage(internalTypes.PING, null, source), e => {
+        debug.error({
+          action: 'ping',
+          channelName: resolvedChannelName,
+          originalError: e instanceof Error ? e : String(e),
+        });
+      });
+    });
+  };
+
+  // A message the transport failed to send: the first failure is reported, then the message is
+  // retried with backoff and lands in failedMessages once the retries run out
+  const failSend = (
+    transport: BroadcastTransport,
+    message: BroadcastMessage,
+    attempt: number,
+    e: unknown,
+    action: 'postMessage' | 'disconnect'
+  ) => {
+    if (attempt === 0) {
+      reportError({
+        code: 'SEND_FAILED',
+        action,
+        message: 'Failed to send message',
+        messageType: message.type,
+        cause: e,
+      });
+    } else {
+      debug.error({
+        action: 'sendRetry',
+        channelName: resolvedChannelName,
+        type: message.type,
+        originalError: e,
+      });
+    }
+
+    const {
+      retries = 3,
+      delayMs = 100,
+      backoffFactor = 2,
+      maxDelayMs = 5000,
+    } = options.sendRetry ?? {};
+    if (connected && attempt < retries) {
+      const delay = Math.min(delayMs * backoffFactor ** attempt, maxDelayMs);
+      sendRetries.set(
+        message,
+        setTimeout(() => {
+          sendRetries.delete(message);
+          transmit(transport, message, attempt + 1, action);
+        }, delay)
+      );
+      return;
+    }
+    setSnapshot(current => ({
+      failedMessages: [...current.failedMessages, message as TypedBroadcastMessage<TMap>],
+    }));
+  };
+
+  // Send a message or batch; when a batch fails its messages are sent one by one, so only
+  // the ones the transport fails on are held back
+  const transmit = (
+    transport: BroadcastTransport,
+    data: BroadcastMessage | BroadcastMessage[],
+    attempt: number,
+    action: 'postMessage' | 'disconnect'
+  ) => {
+    post(transport, data, e => {
+      if (!Array.isArray(data)) {
+        failSend(transport, data, attempt, e, action);
+      } else if (data.length === 1) {
+        failSend(transport, data[0], attempt, e, action);
+      } else {
+        debug.error({
+          action,
+          channelName: resolvedChannelName,
+          originalError: e,
+        });
+        data.forEach(message => transmit(transport, message, attempt, action));
+      }
+    });
+  };
+
+  const isBatched = (messageType: string) => {
+    const { batchingDelayMs = 20, excludedBatchMessageTypes = [] } = options;
+    return batchingDelayMs > 0 && !excludedBatchMessageTypes.includes(messageType);
+  };
+
+  const scheduleBatch = () => {
+    if (batchingTimeout) return;
+    batchingTimeout = setTimeout(() => {
+      // Coalesced types join the batch with their latest content
+      heldMessages.forEach((held, messageType) => {
+        if (held.policy.policy === 'coalesce') releaseHeld(messageType);
+      });
+      const batch = batchingMessages;
+      batchingMessages = [];
+      batchingTimeout = null;
+      if (channel && batch.length > 0) transmit(channel, batch, 0, 'postMessage');
+    }, options.batchingDelayMs ?? 20);
+  };
+
+  const send = (
+    transport: BroadcastTransport,
+    messageType: string,
+    messageContent: unknown,
+    sendOptions: SendMessageOptions
+  ): Promise<string[]> | undefined => {
+    const message = createMessage(messageType, messageContent, source, {
+      ...sendOptions,
+      seq: ++sequence,
+    });
+    // Start listening for acknowledgements before peers can receive the message
+    const delivery = sendOptions.ack ? awaitAcknowledgements(message, sendOptions) : undefined;
+    // Only batch if batchingDelayMs > 0 and messageType is not excluded
+    if (isBatched(messageType)) {
+      batchingMessages.push(message);
+      scheduleBatch();
+    } else {
+      transmit(transport, message, 0, 'postMessage');
+    }
+    debug.message.sent(message);
+    setSnapshot(current => ({
+      sentMessages: keepLast(
+        [...current.sentMessages, message as TypedBroadcastMessage<TMap>],
+        options.maxSentMessages
+      ),
+    }));
+    return delivery;
+  };
+
+  // Send the latest message a send policy held back for a type
+  const releaseHeld = (messageType: string) => {
+    const held = heldMessages.get(messageType);
+    if (!held) return;
+    heldMessages.delete(messageType);
+    if (held.timer) clearTimeout(held.timer);
+    if (held.policy.policy === 'throttle') {
+      throttledUntil.set(messageType, Date.now() + held.policy.intervalMs);
+    }
+    if (channel) send(channel, messageType, held.content, held.sendOptions);
+  };
+
+  const postMessage = (<K extends MessageType<TMap>>(
+    messageType: K,
+    messageContent: TMap[K],
+    sendOptions: SendMessageOptions = {}
+  ): Promise<string[]> | undefined => {
+    if (isTelemetryEnabled()) trackMethodCalled('postMessage');
+    const channelCurrent = channel;
+    if (!channelCurrent) {
+      reportError({
+        code: 'UNSUPPORTED',
+        action: 'postMessage',
+        message: UNSUPPORTED_ERROR,
+        messageType,
+      });
+      if (sendOptions.ack) {
+        return Promise.reject(
+          new BroadcastAckError('CHANNEL_UNAVAILABLE', UNSUPPORTED_ERROR, { messageType })
+        );
+      }
+      return;
+    }
+
+    // Checked before batching, so content that can't be sent never holds up other messages
+    const contentError = getContentError(messageContent);
+    if (contentError) {
+      reportError({ ...contentError, action: 'postMessage', messageType });
+      if (sendOptions.ack) {
+        return Promise.reject(
+          new BroadcastAckError('NOT_CLONEABLE', contentError.message, { messageType })
+        );
+      }
+      return;
+    }
+
+    // Acknowledged sends are never held back, so their promise settles for their own content
+    const policy = sendOptions.ack ? undefined : options.sendPolicies?.[messageType];
+    if (!policy || (policy.policy === 'coalesce' && !isBatched(messageType))) {
+      return send(channelCurrent, messageType, messageContent, sendOptions);
+    }
+
+    const held = heldMessages.get(messageType);
+    if (policy.policy === 'coalesce') {
+      heldMessages.set(messageType, { content: messageContent, sendOptions, policy, timer: null });
+      scheduleBatch();
+      return;
+    }
+    if (policy.policy === 'debounce') {
+      if (held?.timer) clearTimeout(held.timer);
+      heldMessages.set(messageType, {
+        content: messageContent,
+        sendOptions,
+        policy,
+        timer: setTimeout(() => releaseHeld(messageType), policy.delayMs),
+      });
+      return;
+    }
+
+    // Throttled: sent right away when the interval is over, otherwise when it ends
+    const now = Date.now();
+    const until = throttledUntil.get(messageType) ?? 0;
+    if (!held && until <= now) {
+      throttledUntil.set(messageType, now + policy.intervalMs);
+      return send(channelCurrent, messageType, messageContent, sendOptions);
+    }
+    heldMessages.set(messageType, {
+      content: messageContent,
+      sendOptions,
+      policy,
+      timer: held?.timer ?? setTimeout(() => releaseHeld(messageType), until - now),
+    });
+    return;
+  }) as BroadcastActions<TMap>['postMessage'];
+
+  const clearReceivedMessages = (clearOptions: ClearReceivedMessagesOptions = {}) => {
+    if (isTelemetryEnabled()) trackMethodCalled('clearReceivedMessages');
+    const hasFilters = Boolean(
+      (clearOptions.ids && clearOptions.ids.length) ||
+        (clearOptions.types && clearOptions.types.length) ||
+        (clearOptions.sources && clearOptions.sources.length)
+    );
+
+    setSnapshot(current => ({
+      messages: hasFilters
+        ? current.messages.filter(
+            msg =>
+              !(clearOptions.ids && clearOptions.ids.includes(msg.id)) &&
+              !(clearOptions.types && clearOptions.types.includes(msg.type)) &&
+              !(clearOptions.sources && clearOptions.sources.includes(msg.source))
+          )
+        : [],
+    }));
+    if (!hasFilters) {
+      debug.message.allReceivedCleared();
+    }
+  };
+
+  const clearSentMessages = (clearOptions: ClearSentMessagesOptions = {}) => {
+    if (isTelemetryEnabled()) trackMethodCalled('clearSentMessages');
+    const { ids = [], types = [], sync = false } = clearOptions ?? {};
+    setSnapshot(current => ({
+      sentMessages:
+        ids.length > 0 || types.length > 0
+          ? current.sentMessages.filter(msg => {
+              // Only consider messages from the same sender
+              if (msg.source !== source) return true;
+
+              // Decide whether this message should be cleared:
+              // - If the ids array is empty, treat as wildcard (match all ids)
+              // - If the types array is empty, treat as wildcard (match all types)
+              const idMatches = ids.length === 0 || ids.includes(msg.id);
+              const typeMatches = types.length === 0 || types.includes(msg.type);
+
+              // Remove when BOTH criteria match (wildcards included)
+              return !(idMatches && typeMatches);
+            })
+          : [],
+    }));
+    if (ids.length === 0 && types.length === 0) {
+      debug.message.allSentCleared();
+    }
+    if (sync) {
+      const payload: ClearSyncPayload = {
+        ids: clearOptions.ids ?? [],
+        types: clearOptions.types ?? [],
+      };
+      post(channel, createMessage(internalTypes.CLEAR_SENT_MESSAGES, payload, source), e => {
+        reportError({
+          code: 'SEND_FAILED',
+          action: 'clearSentMessages',
+          message: 'Failed to sync cleared messages',
+          messageType: internalTypes.CLEAR_SENT_MESSAGES,
+          cause: e,
+        });
+      });
+    }
+  };
+
+  const getLatestMessage = <K extends MessageType<TMap> = MessageType<TMap>>(
+    latestOptions: GetLatestMessageOptions<K> = {}
+  ): TypedBroadcastMessage<TMap, K> | null => {
+    if (isTelemetryEnabled()) trackMethodCalled('getLatestMessage');
+    const { source: latestSource, type } = latestOptions;
+    const { messages } = snapshot;
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const msg = messages[i];
+      const sourceMatches = !latestSource || msg.source === latestSource;
+      const typeMatches = !type || msg.type === type;
+      if (sourceMatches && typeMatches) {
+        return msg as TypedBroadcastMessage<TMap, K>;
+      }
+    }
+
+    return null;
+  };
+
+  // Acknowledge a message this tab has accepted. Retries of a message already accepted are
+  // acknowledged again, since the first acknowledgement may be what got lost
+  const acknowledge = (message: BroadcastMessage) => {
+    if (!message.ack) return;
+    post(
+      channel,
+      createMessage(internalTypes.ACK, { id: message.id, target: message.source }, source),
+      e => {
+        debug.error({
+          action: 'ack',
+          channelName: resolvedChannelName,
+          type: message.type,
+          originalError: e instanceof Error ? e : String(e),
+        });
+      }
+    );
+  };
+
+  const processMessage = (message: BroadcastMessage) => {
+    try {
+      debug.message.received(message);
+
+      if (!isValidMessage(message)) return;
+      if (message.source === source) return;
+      if (isValidInternalClearMessage(message)) {
+        // Replaying a captured clear or request must not apply it again. Registered types
+        // of other subsystems are deduplicated below, like regular messages
+        if (!getRegisteredTypes().includes(message.type)) {
+          const now = Date.now();
+          const receivedAt = receivedMessageIds.get(message.id);
+          if (receivedAt && now - receivedAt < getDeduplicationTTL()) {
+            debug.message.duplicate(message.id);
+            return;
+          }
+          receivedMessageIds.set(message.id, now);
+        }
+
+        if (message.type === internalTypes.CLEAR_SENT_MESSAGES) {
+          // Another tab's payload may lack either list
+          const clear: Partial<ClearSyncPayload> = message.message ?? {};
+          const { ids = [], types = [] } = clear;
+
+          setSnapshot(current => ({
+            messages: current.messages.filter(msg => {
+              // Only consider messages from the same sender
+              if (msg.source !== message.source) return true;
+
+              // Decide whether this message should be cleared:
+              // - If the ids array is empty, treat as wildcard (match all ids)
+              // - If the types array is empty, treat as wildcard (match all types)
+              const idMatches = ids.length === 0 || ids.includes(msg.id);
+              const typeMatches = types.length === 0 || types.includes(msg.type);
+
+              return !(idMatches && typeMatches);
+            }),
+          }));
+
+          return;
+        }
+        if (message.type === internalTypes.PING) {
+          post(channel, createMessage(internalTypes.PONG, null, source), e => {
+            debug.error({
+              action: 'ping',
+              channelName: resolvedChannelName,
+              originalError: e instanceof Error ? e : String(e),
+            });
+          });
+          return;
+        }
+
+        if (message.type === internalTypes.PONG) {
+          activeSourcesCollectors.forEach(collector => collector.add(message.source));
+          return;
+        }
+
+        if (message.type === internalTypes.ACK) {
+          const { id, target } = message.message || {};
+          const pending = pendingAcks.get(id);
+          if (target === source && pending) pending.acknowledged.add(message.source);
+          return;
+        }
+
+        if (message.type === internalTypes.RPC_REQUEST) {
+          const { type, payload, target } = message.message || {};
+          if (target && target !== source) return;
+
+          const handler = requestHandlers.get(type);
+          if (!handler) {
+            // Untargeted requests may be answered by another tab, so stay silent
+            if (target) {
+              respond(message.id, message.source, {
+                error: { code: 'NO_HANDLER', message: `No handler for request "${type}"` },
+              });
+            }
+            return;
+          }
+
+          Promise.resolve()
+            .then(() => handler(payload, { source: message.source }))
+            .then(
+              result => respond(message.id, message.source, { result }),
+              e =>
+                respond(message.id, message.source, {
+                  error: {
+                    code: 'HANDLER_ERROR',
+                    message: e instanceof Error ? e.message : String(e),
+                  },
+                })
+            );
+          return;
+        }
+
+        if (message.type === internalTypes.RPC_RESPONSE) {
+          const { requestId, target, result, error } = message.message || {};
+          const pending = pendingRequests.get(requestId);
+          if (target !== source || !pending) return;
+
+          clearTimeout(pending.timer);
+          pendingRequests.delete(requestId);
+          if (error) {
+            pending.reject(
+              new BroadcastRequestError(error.code, error.message, {
+                requestType: pending.requestType,
+                target: message.source,
+                cause: error,
+              })
+            );
+          } else {
+            pending.resolve(result);
+          }
+          return;
+        }
+
+        if (message.type === internalTypes.SYNC_REQUEST) {
+          const { types = [] } = message.message || {};
+          const replay = snapshot.sentMessages.filter(
+            msg => !isMessageExpired(msg) && (types.length === 0 || types.includes(msg.type))
+          );
+          if (replay.length === 0) return;
+
+          post(
+            channel,
+            createMessage(
+              internalTypes.SYNC_RESPONSE,
+              { target: message.source, messages: replay },
+              source
+            ),
+            e => {
+              debug.error({
+                action: 'replayOnJoin',
+                channelName: resolvedChannelName,
+                originalError: e instanceof Error ? e : String(e),
+              });
+            }
+          );
+          return;
+        }
+
+        if (message.type === internalTypes.SYNC_RESPONSE) {
+          const { target, messages: replayed } = message.message || {};
+          if (target !== source || !Array.isArray(replayed)) return;
+
+          // Replayed messages are filtered and deduplicated exactly like live ones, but are
+          // older than the live stream, so they bypass per-source ordering
+          replayed.forEach((replayedMessage: BroadcastMessage) => {
+            processMessage(replayedMessage);
+          });
+          return;
+        }
+
+        // Other subsystems (leader election, shared state) share the channel; their protocol
+        // messages only reach this instance when explicitly registered
+        if (!getRegisteredTypes().includes(message.type)) {
+          debug.message.ignored(message.type);
+          return;
+        }
+      }
+      const registeredTypes = getRegisteredTypes();
+      if (registeredTypes.length > 0 && !registeredTypes.includes(message.type)) {
+        debug.message.ignored(message.type);
+        return;
+      }
+      if (isMessageExpired(message)) {
+        debug.message.expired(message.id);
+        return;
+      }
+
+      const now = Date.now();
+      const receivedAt = receivedMessageIds.get(message.id);
+      if (receivedAt && now - receivedAt < getDeduplicationTTL()) {
+        debug.message.duplicate(message.id);
+        acknowledge(message);
+        return;
+      }
+
+      const validator = options.validators?.[message.type];
+      if (validator) {
+        const reason = getValidationError(validator, message.message);
+        if (reason !== undefined) {
+          debug.message.invalid(message.id, reason);
+          rejectMessage(message, reason);
+          return;
+        }
+      }
+
+      receivedMessageIds.set(message.id, now);
+      const accepted = message as TypedBroadcastMessage<TMap>;
+      setSnapshot(current => ({
+        messages: options.keepLatestMessage
+          ? [accepted]
+          : keepLast([...current.messages, accepted], options.maxMessages),
+      }));
+      acknowledge(message);
+
+      try {
+        const cb = options.onMessage;
+        if (typeof cb === 'function') {
+          cb(accepted);
+        } else if (cb) {
+          (cb as Record<string, ((msg: typeof accepted) => void) | undefined>)[message.type]?.(
+            accepted
+          );
+        }
+      } catch (e) {
+        debug.error({
+          action: 'onMessage',
+          channelName: resolvedChannelName,
+          originalError: e instanceof Error ? e.message : String(e),
+        });
+      }
+      emit('message', accepted);
+    } catch (e) {
+      reportError({
+        code: 'RECEIVE_FAILED',
+        action: 'receive',
+        message: 'Error processing broadcast message',
+        messageType: typeof message?.type === 'string' ? message.type : undefined,
+        cause: e,
+      });
+    }
+  };
+
+  const handleMessage = (data: unknown) => {
+    let message: BroadcastMessage | null = null;
+    try {
+      message =
+        isValidMessage(data) && (data as BroadcastMessage).source !== source
+          ? (data as BroadcastMessage)
+          : null;
+    } catch {
+      // processMessage reports messages that can't be read
+    }
+    if (!message) {
+      processMessage(data as BroadcastMessage);
+      return;
+    }
+
+    if (!sequencer || options.ordering !== 'per-source' || typeof message.seq !== 'number') {
+      processMessage(message);
+      return;
+    }
+
+    // Duplicates are dropped by processMessage and must not move the sequence
+    const receivedAt = receivedMessageIds.get(message.id);
+    if (receivedAt && Date.now() - receivedAt < getDeduplicationTTL()) {
+      processMessage(message);
+      return;
+    }
+    sequencer.push(message);
+  };
+
+  const closeChannel = () => {
+    if (isTelemetryEnabled()) trackMethodCalled('closeChannel');
+    const current = channel;
+    if (current) {
+      pendingRequests.forEach(({ timer, reject, requestType, target }) => {
+        clearTimeout(timer);
+        reject(
+          new BroadcastRequestError('CHANNEL_UNAVAILABLE', 'Channel closed before a response', {
+            requestType,
+            target,
+          })
+        );
+      });
+      pendingRequests.clear();
+      pendingAcks.forEach(({ timer, reject, messageType, acknowledged, peers }) => {
+        if (timer) clearTimeout(timer);
+        activeSourcesCollectors.delete(peers);
+        reject(
+          new BroadcastAckError('CHANNEL_UNAVAILABLE', 'Channel closed before acknowledgement', {
+            messageType,
+            acknowledged: Array.from(acknowledged),
+            unacknowledged: Array.from(peers).filter(peer => !acknowledged.has(peer)),
+          })
+        );
+      });
+      pendingAcks.clear();
+      current.close();
+      debug.channel.closed(resolvedChannelName);
+      channel = null;
+    }
+  };
+
+  const trackInit = () => {
+    if (initTracked || !isTelemetryEnabled()) return;
+    initTracked = true;
+    const {
+      cleaningInterval = 1000,
+      keepLatestMessage = false,
+      registeredTypes = [],
+      deduplicationTTL = 5 * 60 * 1000,
+      cleanupDebounceMs = 0,
+      batchingDelayMs = 20,
+      excludedBatchMessageTypes = [],
+      onMessage,
+      transport,
+      validators,
+      onInvalidMessage,
+      persistence,
+      replayOnJoin = false,
+      encryption,
+      signing,
+      ordering = 'none',
+      orderingWindowMs = 1000,
+      onGap,
+      storeAndForward = false,
+      serializer,
+      onError,
+      errorRetention,
+      errorDisplayMs = 3000,
+      sendRetry,
+      sendPolicies,
+      maxMessages,
+      maxSentMessages,
+    } = options;
+    const optionsUsed: string[] = [];
+    if (sourceName !== undefined) optionsUsed.push('sourceName');
+    if (cleaningInterval !== 1000) optionsUsed.push('cleaningInterval');
+    if (keepLatestMessage) optionsUsed.push('keepLatestMessage');
+    if (registeredTypes.length > 0) optionsUsed.push('registeredTypes');
+    if (namespace) optionsUsed.push('namespace');
+    if (deduplicationTTL !== 5 * 60 * 1000) optionsUsed.push('deduplicationTTL');
+    if (cleanupDebounceMs > 0) optionsUsed.push('cleanupDebounceMs');
+    if (batchingDelayMs !== 20) optionsUsed.push('batchingDelayMs');
+    if (excludedBatchMessageTypes.length > 0) optionsUsed.push('excludedBatchMessageTypes');
+    if (onMessage !== undefined) optionsUsed.push('onMessage');
+    if (transport !== undefined) optionsUsed.push('transport');
+    if (validators !== undefined) optionsUsed.push('validators');
+    if (onInvalidMessage !== undefined) optionsUsed.push('onInvalidMessage');
+    if (persistence !== undefined) optionsUsed.push('persistence');
+    if (replayOnJoin) optionsUsed.push('replayOnJoin');
+    if (encryption !== undefined) optionsUsed.push('encryption');
+    if (signing !== undefined) optionsUsed.push('signing');
+    if (ordering !== 'none') optionsUsed.push('ordering');
+    if (orderingWindowMs !== 1000) optionsUsed.push('orderingWindowMs');
+    if (onGap !== undefined) optionsUsed.push('onGap');
+    if (storeAndForward) optionsUsed.push('storeAndForward');
+    if (serializer !== undefined) optionsUsed.push('serializer');
+    if (onError !== undefined) optionsUsed.push('onError');
+    if (errorRetention !== undefined) optionsUsed.push('errorRetention');
+    if (errorDisplayMs !== 3000) optionsUsed.push('errorDisplayMs');
+    if (sendRetry !== undefined) optionsUsed.push('sendRetry');
+    if (sendPolicies !== undefined) optionsUsed.push('sendPolicies');
+    if (maxMessages !== undefined) optionsUsed.push('maxMessages');
+    if (maxSentMessages !== undefined) optionsUsed.push('maxSentMessages');
+    trackChannelInit({
+      entry,
+      options_used: optionsUsed,
+      onmessage_shape:
+        onMessage === undefined ? 'none' : typeof onMessage === 'function' ? 'function' : 'map',
+      batching_enabled: batchingDelayMs > 0,
+      browser_supported: typeof BroadcastChannel !== 'undefined',
+    });
+  };
+
+  const openChannel = () => {
+    const openTransport = resolveTransport(options.transport);
+    if (!openTransport) {
+      if (isTelemetryEnabled()) trackBrowserUnsupported();
+      reportError({ code: 'UNSUPPORTED', action: 'connect', message: UNSUPPORTED_ERROR });
+      return;
+    }
+
+    let current: BroadcastTransport | null = null;
+    let shared: SharedChannel | null = null;
+    try {
+      // One transport per channel and tab, shared with the other instances
+      shared = acquireChannel(resolvedChannelName, openTransport, getDeduplicationTTL);
+      current = shared.transport;
+      // Below encryption and signing, so the service worker only ever sees sealed envelopes
+      if (options.storeAndForward) {
+        current = createRelayedTransport(current, resolvedChannelName);
+      }
+      // Messages dropped by encryption or signing count as invalid, like validator rejections
+      const reportSendError =
+        (action: 'serializer' | 'encryption' | 'signing', message: string) =>
+        (e: unknown, data: unknown) => {
+          const first = (Array.isArray(data) ? data[0] : data) as BroadcastMessage | undefined;
+          reportError({
+            code: 'ENCODE_FAILED',
+            action,
+            message,
+            messageType: first?.type,
+            cause: e,
+          });
+        };
+
+      if (options.encryption) {
+        current = createEncryptedTransport(current, options.encryption, {
+          onSendError: reportSendError('encryption', 'Failed to encrypt message'),
+          onReject: (message, reason) => {
+            debug.message.decryptionFailed(message.id, reason.message);
+            rejectMessage(message, reason);
+          },
+        });
+      }
+      // Signing wraps encryption, so signatures are checked on the decrypted message
+      if (options.signing) {
+        current = createSignedTransport(current, options.signing, {
+          onSendError: reportSendError('signing', 'Failed to sign message'),
+          onReject: (message, reason) => {
+            debug.message.unverified(message.id, reason.message);
+            rejectMessage(message, reason);
+          },
+        });
+      }
+      // Outermost, so encryption and signing only ever see encoded content
+      if (options.serializer) {
+        current = createSerializedTransport(current, options.serializer, {
+          onSendError: reportSendError('serializer', 'Failed to serialize message'),
+          onReject: (message, reason) => {
+            debug.message.invalid(message.id, reason.message);
+            rejectMessage(message, reason);
+          },
+        });
+      }
+    } catch (e) {
+      shared?.transport.close();
+      reportError({
+        code: 'CHANNEL_FAILED',
+        action: 'connect',
+        message: 'Failed to create BroadcastChannel',
+        cause: e,
+      });
+      return;
+    }
+    channel = current;
+    receivedMessageIds = shared.received;
+    debug.channel.created(resolvedChannelName);
+
+    current.subscribe(data => {
+      // data may be a single message or an array of messages (batch)
+      if (Array.isArray(data)) {
+        data.forEach(message => handleMessage(message));
+      } else {
+        handleMessage(data);
+      }
+    });
+
+    const replay = options.replayOnJoin;
+    if (replay) {
+      const types = typeof replay === 'object' ? (replay.types ?? []) : [];
+      post(current, createMessage(internalTypes.SYNC_REQUEST, { types }, source), e => {
+        debug.error({
+          action: 'replayOnJoin',
+          channelName: resolvedChannelName,
+          originalError: e instanceof Error ? e : String(e),
+        });
+      });
+    }
+  };
+
+  const hydrate = () => {
+    const option = options.persistence;
+    if (!option) return;
+
+    const adapter = resolvePersistence(option);
+    if (!adapter) {
+      debug.error({
+        action: 'persistence',
+        channelName: resolvedChannelName,
+        originalError: `Persistence storage "${option}" is not available in this environment`,
+      });
+      return;
+    }
+    persistenceAdapter = adapter;
+    historyKey = resolveHistoryKey(resolvedChannelName, option);
+    pruneTabHistories(option, resolvedChannelName, historyKey).catch(e => {
+      debug.error({
+        action: 'persistence',
+        channelName: resolvedChannelName,
+        originalError: e instanceof Error ? e : String(e),
+      });
+    });
+
+    let cancelled = false;
+    cancelHydration = () => {
+      cancelled = true;
+    };
+    const restore = (data: PersistedMessages | null) => {
+      if (cancelled) return;
+      const history = sanitizeHistory(data);
+      const now = Date.now();
+      // Restored messages must not be accepted again if a peer re-sends them
+      history.messages.forEach(message => receivedMessageIds.set(message.id, now));
+      hydrated = true;
+      setSnapshot(current => ({
+        messages: keepLast(
+          mergeHistory(history.messages, current.messages, options.keepLatestMessage ?? false),
+          options.maxMessages
+        ),
+        sentMessages: keepLast(
+          mergeHistory(history.sentMessages, current.sentMessages),
+          options.maxSentMessages
+        ),
+      }));
+    };
+    const fail = (e: unknown) => {
+      debug.error({
+        action: 'persistence',
+        channelName: resolvedChannelName,
+        originalError: e instanceof Error ? e : String(e),
+      });
+      restore(null);
+    };
+
+    try {
+      const loaded = adapter.load(historyKey);
+      if (loaded && typeof (loaded as Promise<unknown>).then === 'function') {
+        (loaded as Promise<PersistedMessages | null>).then(restore, fail);
+      } else {
+        restore(loaded as PersistedMessages | null);
+      }
+    } catch (e) {
+      fail(e);
+    }
+  };
+
+  const startTimers = () => {
+    const { cleaningInterval = 1000, cleanupDebounceMs = 0 } = options;
+    const performCleanup = () => {
+      const before = snapshot.messages.length;
+      setSnapshot(current => ({
+        messages: current.messages.filter(msg => !isMessageExpired(msg)),
+      }));
+      debug.cleanup.completed(before - snapshot.messages.length);
+    };
+    debouncedCleanup = cleanupDebounceMs > 0 ? debounce(performCleanup, cleanupDebounceMs) : null;
+    const pruneErrors = () => {
+      const { maxAgeMs } = options.errorRetention ?? {};
+      if (maxAgeMs === undefined) return;
+      const cutoff = Date.now() - maxAgeMs;
+      if (snapshot.errors.every(error => error.timestamp >= cutoff)) return;
+      setSnapshot(current => ({ errors: current.errors.filter(e => e.timestamp >= cutoff) }));
+    };
+
+    // Received message ids are swept by the channel registry
+    if (cleaningInterval > 0) {
+      stopTimers.add(
+        runEvery(cleaningInterval, () => {
+          debug.cleanup.started();
+          pruneErrors();
+          if (debouncedCleanup) {
+            debouncedCleanup();
+          } else {
+            performCleanup();
+          }
+        })
+      );
+    }
+  };
+
+  const connect = () => {
+    if (connected) return;
+    connected = true;
+    trackInit();
+
+    sequencer = createSequencer({
+      windowMs: options.orderingWindowMs ?? 1000,
+      deliver: processMessage,
+      onGap: gap => {
+        debug.message.gap(gap.source, gap.from, gap.to);
+        try {
+          options.onGap?.(gap);
+        } catch (e) {
+          debug.error({
+            action: 'onGap',
+            channelName: resolvedChannelName,
+            originalError: e instanceof Error ? e.message : String(e),
+          });
+        }
+        emit('gap', gap);
+      },
+      onLate: message => {
+        // A retry of an acknowledged message arrives late by nature, and is worth more
+        // than the order
+        if (message.ack) {
+          processMessage(message);
+          return;
+        }
+        debug.message.late(message.id);
+      },
+    });
+    openChannel();
+    hydrate();
+    startTimers();
+  };
+
+  const disconnect = () => {
+    if (!connected) return;
+    connected = false;
+
+    // Messages held back by send policies go out with the final batch
+    Array.from(heldMessages.keys()).forEach(releaseHeld);
+    throttledUntil.clear();
+
+    // Always flush any unsent batched messages before closing; messages waiting for a retry
+    // get a last attempt, and go to failedMessages if it fails
+    if (channel) {
+      const transport = channel;
+      sendRetries.forEach((timer, message) => {
+        clearTimeout(timer);
+        transmit(transport, message, 1, 'disconnect');
+      });
+      if (batchingMessages.length > 0) transmit(transport, batchingMessages, 0, 'disconnect');
+    }
+    sendRetries.forEach(timer => clearTimeout(timer));
+    sendRetries.clear();
+    batchingMessages = [];
+    if (batchingTimeout) {
+      clearTimeout(batchingTimeout);
+      batchingTimeout = null;
+    }
+
+    closeChannel();
+    sequencer?.reset();
+    sequencer = null;
+    cancelHydration?.();
+    cancelHydration = null;
+    persistenceAdapter = null;
+    hydrated = false;
+    debouncedCleanup?.cancel();
+    stopTimers.forEach(stop => stop());
+    stopTimers.clear();
+    receivedMessageIds = new Map<string, number>();
+  };
+
+  return {
+    channelName: resolvedChannelName,
+    connect,
+    disconnect,
+    getSnapshot: () => snapshot,
+    subscribe: listener => {
+      storeListeners.add(listener);
+      return () => {
+        storeListeners.delete(listener);
+      };
+    },
+    on: (event, listener) => {
+      eventListeners[event].add(listener);
+      return () => {
+        eventListeners[event].delete(listener);
+      };
+    },
+    setOptions: next => {
+      options = next;
+    },
+    ping,
+    request,
+    handle,
+    postMessage,
+    clearReceivedMessages,
+    clearSentMessages,
+    getLatestMessage,
+    closeChannel,
+    clearErrors,
+    clearFailedMessages,
+  };
+};
@@ -0,0 +1,235 @@
+import {
+  BroadcastChannelBus,
+  BroadcastChannelBusOptions,
+  BroadcastMessage,
+  BusDelivery,
+  VirtualTab,
+} from '../types/types';
+import { createMessage } from './messageUtils';
+import { wrapBroadcastChannel } from './transport';
+
+const cloneError = (value: unknown) =>
+  new DOMException(`${String(value)} could not be cloned.`, 'DataCloneError');
+
+/**
+ * Copy a value like `structuredClone`, which jsdom does not provide: Date, RegExp, Map,
+ * Set, Error, array buffers and cyclic references are preserved, prototypes of other
+ * objects are not, and functions or symbols throw a DataCloneError.
+ */
+export const cloneStructured = <T>(value: T): T => {
+  const native = (globalThis as { structuredClone?: <V>(value: V) => V }).structuredClone;
+  if (native) return native(value);
+
+  const copies = new Map<object, unknown>();
+  const clone = (input: unknown): unknown => {
+    if (typeof input === 'function' || typeof input === 'symbol') throw cloneError(input);
+    if (input === null || typeof input !== 'object') return input;
+    if (copies.has(input)) return copies.get(input);
+    if (input instanceof Promise || input instanceof WeakMap || input instanceof WeakSet) {
+      throw cloneError(input);
+    }
+
+    if (input instanceof Date) return new Date(input.getTime());
+    if (input instanceof RegExp) return new RegExp(input.source, input.flags);
+    if (input instanceof ArrayBuffer) return input.slice(0);
+    if (ArrayBuffer.isView(input)) {
+      const View = input.constructor as new (buffer: ArrayBuffer) => ArrayBufferView;
+      return new View(input.buffer.slice(input.byteOffset, input.byteOffset + input.byteLength));
+    }
+    if (input instanceof Error) {
+      const error = new Error(input.message);
+      error.name = input.name;
+      copies.set(input, error);
+      return error;
+    }
+    if (input instanceof Map) {
+      const map = new Map();
+      copies.set(input, map);
+      input.forEach((entry, key) => map.set(clone(key), clone(entry)));
+      return map;
+    }
+    if (input instanceof Set) {
+      const set = new Set();
+      copies.set(input, set);
+      input.forEach(entry => set.add(clone(entry)));
+      return set;
+    }
+
+    const copy = (Array.isArray(input) ? [] : {}) as Record<string, unknown>;
+    copies.set(input, copy);
+    Object.keys(input).forEach(key => {
+      copy[key] = clone((input as Record<string, unknown>)[key]);
+    });
+    return copy;
+  };
+  return clone(value) as T;
+};
+
+interface BusChannel {
+  name: string;
+  tabId: string;
+  closed: boolean;
+  receive: (data: unknown) => void;
+  close: () => void;
+}
+
+interface PendingDelivery {
+  timer: ReturnType<typeof setTimeout>;
+  deliver: () => void;
+}
+
+/**
+ * Create an in-memory BroadcastChannel bus for tests.
+ *
+ * Channels belong to a tab: the default one of `bus.BroadcastChannel`, or one created with
+ * `createTab`. Any channel receives what other channels of the same name post, in any tab,
+ * after `latencyMs` and unless `drop` discards the delivery.
+ */
+export const createBroadcastChannelBus = (
+  options: BroadcastChannelBusOptions = {}
+): BroadcastChannelBus => {
+  let latencyMs = options.latencyMs ?? 0;
+  let drop = options.drop ?? null;
+  const channels = new Set<BusChannel>();
+  const pending = new Set<PendingDelivery>();
+  const posted: BroadcastChannelBus['posted'] = [];
+  let tabCount = 0;
+
+  const schedule = (target: BusChannel, data: unknown) => {
+    const delivery: PendingDelivery = {
+      deliver: () => {
+        pending.delete(delivery);
+        // Each receiver gets its own copy, as with the native API
+        if (!target.closed) target.receive(cloneStructured(data));
+      },
+      timer: setTimeout(() => delivery.deliver(), latencyMs),
+    };
+    pending.add(delivery);
+  };
+
+  const createChannelClass = (tabId: string) =>
+    class MemoryBroadcastChannel extends EventTarget implements BusChannel {
+      readonly name: string;
+      readonly tabId = tabId;
+      closed = false;
+      onmessage: ((this: MemoryBroadcastChannel, event: MessageEvent) => void) | null = null;
+      onmessageerror: ((this: MemoryBroadcastChannel, event: MessageEvent) => void) | null = null;
+
+      constructor(name: string) {
+        super();
+        this.name = String(name);
+        channels.add(this);
+      }
+
+      postMessage(message: unknown) {
+        if (this.closed) {
+          throw new DOMException('BroadcastChannel is closed.', 'InvalidStateError');
+        }
+        // Cloned when posted, so later changes by the sender don't leak to receivers
+        const data = cloneStructured(message);
+        posted.push({ channelName: this.name, from: tabId, data });
+
+        channels.forEach(target => {
+          if (target === this || target.closed || target.name !== this.name) return;
+          const delivery: BusDelivery = {
+            channelName: this.name,
+            from: tabId,
+            to: target.tabId,
+            data,
+          };
+          if (drop?.(delivery)) return;
+          schedule(target, data);
+        });
+      }
+
+      receive(data: unknown) {
+        const event = new MessageEvent('message', { data });
+        this.onmessage?.call(this, event);
+        this.dispatchEvent(event);
+      }
+
+      close() {
+        this.closed = true;
+        channels.delete(this);
+      }
+    };
+
+  const createTab = (id = `tab-${++tabCount}`): VirtualTab => {
+    const Channel = createChannelClass(id);
+    type Channel = InstanceType<typeof Channel>;
+    // Everything opened in the tab, so close() can close it
+    const opened = new Set<Channel>();
+    // Channels used by postMessage, by resolved channel name
+    const posting = new Map<string, Channel>();
+    const open = (channelName: string) => {
+      const channel = new Channel(channelName);
+      opened.add(channel);
+      return channel;
+    };
+
+    return {
+      id,
+      BroadcastChannel: Channel as unknown as typeof BroadcastChannel,
+      transport: channelName =>
+        wrapBroadcastChannel(open(channelName) as unknown as BroadcastChannel),
+      postMessage: (
+        channelName,
+        type,
+        content,
+        { source = id, namespace, ...sendOptions } = {}
+      ) => {
+        const resolvedChannelName = namespace ? `${channelName}-${namespace}` : channelName;
+        let channel = posting.get(resolvedChannelName);
+        if (!channel || channel.closed) {
+          channel = open(resolvedChannelName);
+          posting.set(resolvedChannelName, channel);
+        }
+        const message: BroadcastMessage = createMessage(type, content, source, sendOptions);
+        channel.postMessage(message);
+        return message;
+      },
+      close: () => {
+        opened.forEach(channel => channel.close());
+        opened.clear();
+        posting.clear();
+      },
+    };
+  };
+
+  const defaultTab = createTab('default');
+
+  return {
+    BroadcastChannel: defaultTab.BroadcastChannel,
+    install: () => {
+      const target = globalThis as { BroadcastChannel?: typeof BroadcastChannel };
+      const previous = target.BroadcastChannel;
+      target.BroadcastChannel = defaultTab.BroadcastChannel;
+      return () => {
+        if (previous) target.BroadcastChannel = previous;
+        else delete target.BroadcastChannel;
+      };
+    },
+    createTab,
+    posted,
+    setLatency: next => {
+      latencyMs = next;
+    },
+    setDrop: next => {
+      drop = next;
+    },
+    flush: () => {
+      // In posting order; messages posted by receivers meanwhile are flushed as well
+      while (pending.size > 0) {
+        const [next] = pending;
+        clearTimeout(next.timer);
+        next.deliver();
+      }
+    },
+    reset: () => {
+      pending.forEach(delivery => clearTimeout(delivery.timer));
+      pending.clear();
+      channels.forEach(channel => channel.close());
+      posted.length = 0;
+    },
+  };
+};
@@ -0,0 +1,171 @@
+import { BroadcastTransport, TransportFactory } from '../types/types';
+
+type TransportListener = (data: unknown) => void;
+
+interface Endpoint {
+  listeners: Set<TransportListener>;
+  /** Current deduplication TTL of the instance, read on every sweep */
+  getDeduplicationTTL: () => number;
+}
+
+interface Hub {
+  transport: BroadcastTransport;
+  endpoints: Set<Endpoint>;
+  /** Message id -> when each instance accepted it */
+  received: Map<string, Map<Endpoint, number>>;
+  stopSweep: () => void;
+}
+
+/** Messages an instance accepted, shared with the other instances of the tab on the channel */
+export interface ReceivedMessages {
+  get: (id: string) => number | undefined;
+  set: (id: string, receivedAt: number) => void;
+}
+
+export interface SharedChannel {
+  /** This instance's end of the channel; closing it releases the instance's reference */
+  transport: BroadcastTransport;
+  received: ReceivedMessages;
+}
+
+const DEDUPLICATION_SWEEP_MS = 60 * 1000;
+
+// Open channels per transport factory, then per resolved channel name. Custom factories
+// are compared by identity, so only instances passing the same function share a channel
+const hubs = new Map<TransportFactory, Map<string, Hub>>();
+
+// Interval timers by period, shared by every task that runs at that period
+const tickers = new Map<
+  number,
+  { timer: ReturnType<typeof setInterval>; tasks: Set<() => void> }
+>();
+
+/**
+ * Run a task every `intervalMs` on a timer shared with all other tasks of the same period
+ * in this tab. Returns a function that stops the task.
+ */
+export const runEvery = (intervalMs: number, task: () => void): (() => void) => {
+  let ticker = tickers.get(intervalMs);
+  if (!ticker) {
+    const tasks = new Set<() => void>();
+    ticker = {
+      tasks,
+      timer: setInterval(() => tasks.forEach(run => run()), intervalMs),
+    };
+    tickers.set(intervalMs, ticker);
+  }
+  // Wrapped, so the same function can be registered more than once
+  const run = () => task();
+  ticker.tasks.add(run);
+
+  return () => {
+    const current = tickers.get(intervalMs);
+    if (!current || !current.tasks.delete(run) || current.tasks.size > 0) return;
+    clearInterval(current.timer);
+    tickers.delete(intervalMs);
+  };
+};
+
+const openHub = (channelName: string, factory: TransportFactory): Hub => {
+  const transport = factory(channelName);
+  const hub: Hub = {
+    transport,
+    endpoints: new Set(),
+    received: new Map(),
+    stopSweep: () => {},
+  };
+
+  transport.subscribe(data => {
+    hub.endpoints.forEach(endpoint => endpoint.listeners.forEach(listener => listener(data)));
+  });
+
+  hub.stopSweep = runEvery(DEDUPLICATION_SWEEP_MS, () => {
+    const now = Date.now();
+    hub.received.forEach((instances, id) => {
+      instances.forEach((receivedAt, endpoint) => {
+        if (now - receivedAt >= endpoint.getDeduplicationTTL()) instances.delete(endpoint);
+      });
+      if (instances.size === 0) hub.received.delete(id);
+    });
+  });
+
+  return hub;
+};
+
+/**
+ * Join a channel of this tab.
+ *
+ * All instances on the same channel and transport factory share one underlying
+ * transport, opened by the first and closed when the last one leaves. What one instance
+ * posts is delivered to the others right away, as the transport never delivers a post
+ * back to its own tab.
+ */
+export const acquireChannel = (
+  channelName: string,
+  factory: TransportFactory,
+  getDeduplicationTTL: () => number
+): SharedChannel => {
+  let byName = hubs.get(factory);
+  if (!byName) {
+    byName = new Map();
+    hubs.set(factory, byName);
+  }
+  let hub = byName.get(channelName);
+  if (!hub) {
+    hub = openHub(channelName, factory);
+    byName.set(channelName, hub);
+  }
+
+  const current = hub;
+  const endpoint: Endpoint = { listeners: new Set(), getDeduplicationTTL };
+  current.endpoints.add(endpoint);
+  let closed = false;
+
+  const release = () => {
+    if (closed) return;
+    closed = true;
+    endpoint.listeners.clear();
+    current.endpoints.delete(endpoint);
+    current.received.forEach((instances, id) => {
+      instances.delete(endpoint);
+      if (instances.size === 0) current.received.delete(id);
+    });
+    if (current.endpoints.size > 0) return;
+
+    current.stopSweep();
+    current.transport.close();
+    byName?.delete(channelName);
+    if (byName?.size === 0) hubs.delete(factory);
+  };
+
+  return {
+    transport: {
+      postMessage: data => {
+        if (closed) return;
+        current.transport.postMessage(data);
+        current.endpoints.forEach(other => {
+          if (other !== endpoint) other.listeners.forEach(listener => listener(data));
+        });
+      },
+      subscribe: listener => {
+        endpoint.listeners.add(listener);
+        return () => {
+          endpoint.listeners.delete(listener);
+        };
+      },
+      close: release,
+    },
+    received: {
+      get: id => current.received.get(id)?.get(endpoint),
+      set: (id, receivedAt) => {
+        if (closed) return;
+        let instances = current.received.get(id);
+        if (!instances) {
+          instances = new Map();
+          current.received.set(id, instances);
+        }
+        instances.set(endpoint, receivedAt);
+      },
+    },
+  };
+};
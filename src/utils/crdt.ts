@@ -0,0 +1,376 @@
+/**
+ * A small operation-based CRDT for useBroadcastDocument: a last-writer-wins map for
+ * plain fields and an RGA sequence for text. Replicas that apply the same operations,
+ * in any order that keeps each site's own operations in sequence, end up identical.
+ */
+
+/** Lamport timestamp; unique per operation because sites are unique per replica */
+export interface Stamp {
+  counter: number;
+  site: string;
+}
+
+/** Highest counter integrated from each site */
+export type VersionVector = Record<string, number>;
+
+export type DocumentOperation =
+  | { kind: 'set'; key: string; value?: unknown; deleted?: boolean; stamp: Stamp }
+  /** Inserts `value` after `after`; character i gets the counter `id.counter + i` */
+  | { kind: 'insert'; text: string; id: Stamp; after: Stamp | null; value: string }
+  | { kind: 'remove'; text: string; ids: Stamp[]; stamp: Stamp };
+
+interface FieldEntry {
+  value: unknown;
+  stamp: Stamp;
+  deleted: boolean;
+}
+
+interface TextElement {
+  id: Stamp;
+  after: Stamp | null;
+  value: string;
+  /** Stamp of the removal; removed elements stay as tombstones until collected */
+  deletedBy?: Stamp;
+}
+
+export interface DocumentSnapshot {
+  fields: Record<string, FieldEntry>;
+  texts: Record<string, TextElement[]>;
+  version: VersionVector;
+}
+
+export const compareStamps = (a: Stamp, b: Stamp): number =>
+  a.counter - b.counter || (a.site < b.site ? -1 : a.site > b.site ? 1 : 0);
+
+const isSameStamp = (a: Stamp, b: Stamp) => a.counter === b.counter && a.site === b.site;
+
+const getSite = (op: DocumentOperation) => (op.kind === 'insert' ? op.id.site : op.stamp.site);
+
+const getLastCounter = (op: DocumentOperation) =>
+  op.kind === 'insert' ? op.id.counter + op.value.length - 1 : op.stamp.counter;
+
+export const createDocumentReplica = (site: string) => {
+  let clock = 0;
+  const fields = new Map<string, FieldEntry>();
+  const texts = new Map<string, TextElement[]>();
+  const version: VersionVector = {};
+  // Remote operations waiting for the elements they reference
+  let pending: DocumentOperation[] = [];
+
+  const observe = (counter: number) => {
+    clock = Math.max(clock, counter);
+  };
+
+  const nextStamp = (length = 1): Stamp => {
+    const stamp = { counter: clock + 1, site };
+    clock += length;
+    return stamp;
+  };
+
+  const getElements = (name: string) => {
+    let elements = texts.get(name);
+    if (!elements) {
+      elements = [];
+      texts.set(name, elements);
+    }
+    return elements;
+  };
+
+  const indexOfId = (elements: TextElement[], id: Stamp) =>
+    elements.findIndex(element => isSameStamp(element.id, id));
+
+  // RGA: place after the origin, skipping concurrent insertions with a greater stamp (and
+  // their successors, which always have greater stamps still)
+  const integrateElement = (elements: TextElement[], element: TextElement) => {
+    const existing = indexOfId(elements, element.id);
+    if (existing !== -1) return elements[existing];
+    let position = element.after ? indexOfId(elements, element.after) + 1 : 0;
+    while (position < elements.length && compareStamps(elements[position].id, element.id) > 0) {
+      position++;
+    }
+    elements.splice(position, 0, element);
+    return element;
+  };
+
+  const canApply = (op: DocumentOperation) => {
+    if (op.kind === 'insert') {
+      return !op.after || indexOfId(getElements(op.text), op.after) !== -1;
+    }
+    if (op.kind === 'remove') {
+      const elements = getElements(op.text);
+      return op.ids.every(id => indexOfId(elements, id) !== -1);
+    }
+    return true;
+  };
+
+  const setField = (key: string, entry: FieldEntry) => {
+    const current = fields.get(key);
+    if (!current || compareStamps(entry.stamp, current.stamp) > 0) fields.set(key, entry);
+  };
+
+  const applyNow = (op: DocumentOperation) => {
+    switch (op.kind) {
+      case 'set':
+        setField(op.key, {
+          value: op.deleted ? undefined : op.value,
+          stamp: op.stamp,
+          deleted: Boolean(op.deleted),
+        });
+        break;
+      case 'insert': {
+        const elements = getElements(op.text);
+        let after = op.after;
+        for (let i = 0; i < op.value.length; i++) {
+          const id = { counter: op.id.counter + i, site: op.id.site };
+          integrateElement(elements, { id, after, value: op.value[i] });
+          after = id;
+        }
+        break;
+      }
+      case 'remove': {
+        const elements = getElements(op.text);
+        op.ids.forEach(id => {
+          const element = elements[indexOfId(elements, id)];
+          if (!element.deletedBy) element.deletedBy = op.stamp;
+        });
+        break;
+      }
+    }
+    const counter = getLastCounter(op);
+    observe(counter);
+    version[getSite(op)] = Math.max(version[getSite(op)] ?? 0, counter);
+  };
+
+  const flushPending = () => {
+    let appliedAny = false;
+    let progress = true;
+    while (progress && pending.length > 0) {
+      progress = false;
+      const blockedSites = new Set<string>();
+      pending = pending.filter(op => {
+        const opSite = getSite(op);
+        // Already covered, e.g. by a snapshot merged while the operation waited
+        if (getLastCounter(op) <= (version[opSite] ?? 0)) return false;
+        if (blockedSites.has(opSite)) return true;
+        if (!canApply(op)) {
+          blockedSites.add(opSite);
+          return true;
+        }
+        applyNow(op);
+        appliedAny = progress = true;
+        return false;
+      });
+    }
+    return appliedAny;
+  };
+
+  /**
+   * Apply a remote operation. Returns whether the document changed; operations whose
+   * dependencies have not arrived yet are kept and applied once they have.
+   */
+  const apply = (op: DocumentOperation): boolean => {
+    const opSite = getSite(op);
+    if (getLastCounter(op) <= (version[opSite] ?? 0)) return false;
+    // Operations from one site must be applied in the order they were made
+    if (pending.some(waiting => getSite(waiting) === opSite) || !canApply(op)) {
+      pending.push(op);
+      return false;
+    }
+    applyNow(op);
+    flushPending();
+    return true;
+  };
+
+  const getVisible = (name: string) => getElements(name).filter(element => !element.deletedBy);
+
+  const insertText = (name: string, index: number, value: string): DocumentOperation | null => {
+    if (!value) return null;
+    const visible = getVisible(name);
+    const position = Math.max(0, Math.min(index, visible.length));
+    const op: DocumentOperation = {
+      kind: 'insert',
+      text: name,
+      id: nextStamp(value.length),
+      after: position > 0 ? visible[position - 1].id : null,
+      value,
+    };
+    applyNow(op);
+    return op;
+  };
+
+  const deleteText = (name: string, index: number, length: number): DocumentOperation | null => {
+    const ids = getVisible(name)
+      .slice(Math.max(0, index), Math.max(0, index + length))
+      .map(element => element.id);
+    if (ids.length === 0) return null;
+    const op: DocumentOperation = { kind: 'remove', text: name, ids, stamp: nextStamp() };
+    applyNow(op);
+    return op;
+  };
+
+  return {
+    apply,
+
+    setField: (key: string, value: unknown): DocumentOperation => {
+      const op: DocumentOperation = { kind: 'set', key, value, stamp: nextStamp() };
+      applyNow(op);
+      return op;
+    },
+
+    deleteField: (key: string): DocumentOperation => {
+      const op: DocumentOperation = { kind: 'set', key, deleted: true, stamp: nextStamp() };
+      applyNow(op);
+      return op;
+    },
+
+    insertText,
+    deleteText,
+
+    /** Turn the text into `value` with one removal and one insertion around the changed span */
+    replaceText: (name: string, value: string): DocumentOperation[] => {
+      const current = getVisible(name)
+        .map(element => element.value)
+        .join('');
+      let prefix = 0;
+      while (
+        prefix < current.length &&
+        prefix < value.length &&
+        current[prefix] === value[prefix]
+      ) {
+        prefix++;
+      }
+      let suffix = 0;
+      while (
+        suffix < current.length - prefix &&
+        suffix < value.length - prefix &&
+        current[current.length - 1 - suffix] === value[value.length - 1 - suffix]
+      ) {
+        suffix++;
+      }
+      const removed = deleteText(name, prefix, current.length - prefix - suffix);
+      const inserted = insertText(name, prefix, value.slice(prefix, value.length - suffix));
+      return [removed, inserted].filter((op): op is DocumentOperation => op !== null);
+    },
+
+    getFields: (): Record<string, unknown> => {
+      const result: Record<string, unknown> = {};
+      fields.forEach((entry, key) => {
+        if (!entry.deleted) result[key] = entry.value;
+      });
+      return result;
+    },
+
+    getTexts: (): Record<string, string> => {
+      const result: Record<string, string> = {};
+      texts.forEach((_, name) => {
+        result[name] = getVisible(name)
+          .map(element => element.value)
+          .join('');
+      });
+      return result;
+    },
+
+    getVersion: (): VersionVector => ({ ...version }),
+
+    /** Number of tombstones currently kept, for diagnostics and tests */
+    getTombstoneCount: () => {
+      let count = 0;
+      fields.forEach(entry => {
+        if (entry.deleted) count++;
+      });
+      texts.forEach(elements => {
+        count += elements.filter(element => element.deletedBy).length;
+      });
+      return count;
+    },
+
+    getSnapshot: (): DocumentSnapshot => {
+      const snapshotTexts: Record<string, TextElement[]> = {};
+      texts.forEach((elements, name) => {
+        snapshotTexts[name] = elements.map(element => ({ ...element }));
+      });
+      return {
+        fields: Object.fromEntries(fields),
+        texts: snapshotTexts,
+        version: { ...version },
+      };
+    },
+
+    /** Merge the full state of another replica, e.g. when joining late */
+    mergeSnapshot: (snapshot: DocumentSnapshot) => {
+      Object.entries(snapshot.fields).forEach(([key, entry]) => {
+        setField(key, entry);
+        observe(entry.stamp.counter);
+      });
+      Object.entries(snapshot.texts).forEach(([name, snapshotElements]) => {
+        const elements = getElements(name);
+        let previous: Stamp | null = null;
+        snapshotElements.forEach(element => {
+          // The origin may have been garbage collected on the other replica; the element
+          // that precedes it in the snapshot is then an equivalent origin
+          const origin =
+            element.after && indexOfId(elements, element.after) !== -1 ? element.after : previous;
+          const integrated = integrateElement(elements, {
+            id: element.id,
+            after: origin,
+            value: element.value,
+          });
+          if (element.deletedBy && !integrated.deletedBy) integrated.deletedBy = element.deletedBy;
+          observe(element.id.counter);
+          previous = element.id;
+        });
+      });
+      Object.entries(snapshot.version).forEach(([versionSite, counter]) => {
+        version[versionSite] = Math.max(version[versionSite] ?? 0, counter);
+        observe(counter);
+      });
+      flushPending();
+    },
+
+    /**
+     * Drop tombstones whose removal every peer has integrated. No peer can reference them
+     * afterwards: operations made before a peer saw the removal reach us before that
+     * peer's version does, because each sender's messages arrive in order. Tombstones that
+     * a waiting operation or an insertion not yet seen by every peer points at are kept,
+     * and nothing is collected without a known peer. Returns the number of tombstones
+     * dropped.
+     */
+    collectGarbage: (peerVersions: VersionVector[]): number => {
+      if (peerVersions.length === 0) return 0;
+      const isKnownToAll = (stamp: Stamp) =>
+        peerVersions.every(peerVersion => (peerVersion[stamp.site] ?? 0) >= stamp.counter);
+      const getKey = (stamp: Stamp) => `${stamp.counter}@${stamp.site}`;
+
+      const referenced = new Set<string>();
+      pending.forEach(op => {
+        if (op.kind === 'insert' && op.after) referenced.add(getKey(op.after));
+        if (op.kind === 'remove') op.ids.forEach(id => referenced.add(getKey(id)));
+      });
+
+      let collected = 0;
+      fields.forEach((entry, key) => {
+        if (entry.deleted && isKnownToAll(entry.stamp)) {
+          fields.delete(key);
+          collected++;
+        }
+      });
+      texts.forEach((elements, name) => {
+        const origins = new Set(referenced);
+        elements.forEach(element => {
+          if (element.after && !isKnownToAll(element.id)) origins.add(getKey(element.after));
+        });
+        const kept = elements.filter(
+          element =>
+            !element.deletedBy ||
+            !isKnownToAll(element.deletedBy) ||
+            origins.has(getKey(element.id))
+        );
+        collected += elements.length - kept.length;
+        texts.set(name, kept);
+      });
+      return collected;
+    },
+  };
+};
+
+export type DocumentReplica = ReturnType<typeof createDocumentReplica>;
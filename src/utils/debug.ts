@@ -42,6 +42,15 @@ export const debug = {
     allReceivedCleared: () => log('info', 'All received messages cleared'),
     ignored: (messageType: string) =>
       log('info', 'Message ignored due to type filter:', messageType),
+    invalid: (messageId: string, reason: unknown) =>
+      log('warn', 'Invalid message rejected:', { messageId, reason }),
+    decryptionFailed: (messageId: string, reason: unknown) =>
+      log('warn', 'Encrypted message dropped:', { messageId, reason }),
+    unverified: (messageId: string, reason: unknown) =>
+      log('warn', 'Unverified message dropped:', { messageId, reason }),
+    late: (messageId: string) => log('warn', 'Late message dropped:', messageId),
+    gap: (source: string, from: number, to: number) =>
+      log('warn', 'Missing messages skipped:', { source, from, to }),
   },
   ping: {
     inProgress: () => log('warn', 'Ping already in progress. Skipping call.'),
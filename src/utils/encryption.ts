@@ -0,0 +1,103 @@
+import { BroadcastMessage, BroadcastTransport, EncryptionOptions } from '../types/types';
+import { base64ToBytes, bytesToBase64 } from './messageUtils';
+import { createTransformedTransport, TransformHandlers } from './transport';
+
+const IV_LENGTH = 12;
+
+interface EncryptedContent {
+  iv: string;
+  ciphertext: string;
+}
+
+// The envelope is authenticated too, so a tampered id, type, source, expiry, sequence
+// number or ack flag fails decryption
+const getAdditionalData = (message: BroadcastMessage): Uint8Array =>
+  new TextEncoder().encode(
+    JSON.stringify([
+      message.id,
+      message.type,
+      message.source,
+      message.timestamp,
+      message.expirationDate ?? null,
+      message.seq ?? null,
+      message.ack ?? null,
+    ])
+  );
+
+const isEncryptedContent = (content: unknown): content is EncryptedContent =>
+  Boolean(
+    content &&
+      typeof (content as EncryptedContent).iv === 'string' &&
+      typeof (content as EncryptedContent).ciphertext === 'string'
+  );
+
+export const encryptMessage = async (
+  message: BroadcastMessage,
+  key: CryptoKey
+): Promise<BroadcastMessage> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  // Wrapping keeps `undefined` content distinguishable after the JSON round trip
+  const plaintext = new TextEncoder().encode(JSON.stringify({ value: message.message }));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: getAdditionalData(message) },
+    key,
+    plaintext
+  );
+  const content: EncryptedContent = {
+    iv: bytesToBase64(iv),
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+  };
+  return { ...message, message: content };
+};
+
+/**
+ * Decrypt the content of a message produced by encryptMessage. Rejects when the message
+ * is not encrypted or fails authentication (wrong key, tampered content or envelope).
+ */
+export const decryptMessage = async (
+  message: BroadcastMessage,
+  key: CryptoKey
+): Promise<BroadcastMessage> => {
+  if (!isEncryptedContent(message.message)) {
+    throw new Error('Message is not encrypted');
+  }
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: base64ToBytes(message.message.iv),
+        additionalData: getAdditionalData(message),
+      },
+      key,
+      base64ToBytes(message.message.ciphertext)
+    );
+  } catch {
+    throw new Error('Message failed authentication');
+  }
+
+  const { value } = JSON.parse(new TextDecoder().decode(plaintext));
+  return { ...message, message: value };
+};
+
+/**
+ * Wrap a transport so that the `message` content of everything sent over it, including
+ * batches and internal protocol messages, is encrypted with AES-GCM. Incoming messages
+ * that are not encrypted with the same key are dropped and reported through `onReject`.
+ */
+export const createEncryptedTransport = (
+  transport: BroadcastTransport,
+  { key }: EncryptionOptions,
+  handlers: TransformHandlers
+): BroadcastTransport => {
+  const keyPromise = Promise.resolve(key);
+  return createTransformedTransport(
+    transport,
+    {
+      encode: async message => encryptMessage(message, await keyPromise),
+      decode: async message => decryptMessage(message, await keyPromise),
+    },
+    handlers
+  );
+};
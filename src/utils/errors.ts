@@ -0,0 +1,50 @@
+import { BroadcastAckErrorCode, BroadcastRequestErrorCode } from '../types/types';
+
+/**
+ * Error a `request()` promise rejects with. Check `code` to tell a timeout from a
+ * failing handler on the other side.
+ */
+export class BroadcastRequestError extends Error {
+  readonly code: BroadcastRequestErrorCode;
+  readonly requestType: string;
+  readonly target?: string;
+  /** The error reported by the remote handler, when `code` is 'HANDLER_ERROR' */
+  readonly cause?: unknown;
+
+  constructor(
+    code: BroadcastRequestErrorCode,
+    message: string,
+    details: { requestType: string; target?: string; cause?: unknown }
+  ) {
+    super(message);
+    this.name = 'BroadcastRequestError';
+    this.code = code;
+    this.requestType = details.requestType;
+    this.target = details.target;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * Error a `postMessage(..., { ack: true })` promise rejects with. `unacknowledged` lists
+ * the tabs that answered a ping but never acknowledged the message.
+ */
+export class BroadcastAckError extends Error {
+  readonly code: BroadcastAckErrorCode;
+  readonly messageType: string;
+  readonly acknowledged: string[];
+  readonly unacknowledged: string[];
+
+  constructor(
+    code: BroadcastAckErrorCode,
+    message: string,
+    details: { messageType: string; acknowledged?: string[]; unacknowledged?: string[] }
+  ) {
+    super(message);
+    this.name = 'BroadcastAckError';
+    this.code = code;
+    this.messageType = details.messageType;
+    this.acknowledged = details.acknowledged ?? [];
+    this.unacknowledged = details.unacknowledged ?? [];
+  }
+}
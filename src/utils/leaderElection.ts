@@ -0,0 +1,164 @@
+export interface LeaderElectorConfig {
+  /** Source name of this participant */
+  source: string;
+
+  /** Resolved internal message types used by the election protocol */
+  types: { CLAIM: string; HEARTBEAT: string; RESIGN: string };
+
+  /** Broadcast a protocol message of the given type */
+  send: (type: string) => void;
+
+  heartbeatIntervalMs: number;
+  leaderTimeoutMs: number;
+  electionTimeoutMs: number;
+
+  /** Called whenever the known leader changes (null while no leader is known) */
+  onLeaderChange: (leaderId: string | null) => void;
+}
+
+export interface LeaderElector {
+  start: () => void;
+  stop: () => void;
+  handleMessage: (type: string, from: string) => void;
+  getLeaderId: () => string | null;
+}
+
+// Deterministic tie-breaking: the lexicographically smallest source name wins
+const hasPriority = (a: string, b: string) => a < b;
+
+/**
+ * Leader election state machine, independent of React and of the transport.
+ *
+ * - A sitting leader keeps its role while it heartbeats; newcomers never preempt it.
+ * - Followers start an election when no heartbeat arrives within `leaderTimeoutMs`.
+ * - Candidates broadcast a claim and take leadership after `electionTimeoutMs` unless a
+ *   leader answers or a candidate with priority claims too.
+ * - If two leaders ever coexist, the one without priority steps down on the other's heartbeat.
+ */
+export const createLeaderElector = (config: LeaderElectorConfig): LeaderElector => {
+  const { source, types, send, onLeaderChange } = config;
+
+  let leaderId: string | null = null;
+  let lastHeartbeatAt = 0;
+  let campaigning = false;
+  let running = false;
+  let electionTimer: ReturnType<typeof setTimeout> | null = null;
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  let watchdogTimer: ReturnType<typeof setInterval> | null = null;
+
+  const setLeader = (id: string | null) => {
+    if (id === leaderId) return;
+    leaderId = id;
+    onLeaderChange(id);
+  };
+
+  const stopHeartbeat = () => {
+    if (heartbeatTimer) {
+      clearInterval(heartbeatTimer);
+      heartbeatTimer = null;
+    }
+  };
+
+  const cancelCampaign = () => {
+    campaigning = false;
+    if (electionTimer) {
+      clearTimeout(electionTimer);
+      electionTimer = null;
+    }
+  };
+
+  const becomeLeader = () => {
+    cancelCampaign();
+    setLeader(source);
+    send(types.HEARTBEAT);
+    stopHeartbeat();
+    heartbeatTimer = setInterval(() => send(types.HEARTBEAT), config.heartbeatIntervalMs);
+  };
+
+  const followLeader = (id: string) => {
+    cancelCampaign();
+    stopHeartbeat();
+    lastHeartbeatAt = Date.now();
+    setLeader(id);
+  };
+
+  const campaign = () => {
+    if (campaigning || !running) return;
+    campaigning = true;
+    send(types.CLAIM);
+    electionTimer = setTimeout(() => {
+      electionTimer = null;
+      if (campaigning) becomeLeader();
+    }, config.electionTimeoutMs);
+  };
+
+  const checkLeader = () => {
+    if (leaderId === source || campaigning) return;
+    if (Date.now() - lastHeartbeatAt >= config.leaderTimeoutMs) {
+      setLeader(null);
+      campaign();
+    }
+  };
+
+  const handleMessage = (type: string, from: string) => {
+    if (!running || from === source) return;
+
+    if (type === types.HEARTBEAT) {
+      if (leaderId === source && !hasPriority(from, source)) {
+        // Split brain: assert our leadership so the other leader steps down
+        send(types.HEARTBEAT);
+        return;
+      }
+      followLeader(from);
+      return;
+    }
+
+    if (type === types.CLAIM) {
+      if (leaderId === source) {
+        // Answer right away so the newcomer follows instead of waiting out its election
+        send(types.HEARTBEAT);
+      } else if (campaigning) {
+        if (hasPriority(from, source)) {
+          // Give the stronger candidate a full leader timeout to win before retrying
+          cancelCampaign();
+          lastHeartbeatAt = Date.now();
+        } else {
+          send(types.CLAIM);
+        }
+      } else if (leaderId === null && hasPriority(source, from)) {
+        // Leaderless and stronger than the claimant: run so the election settles on us
+        campaign();
+      }
+      return;
+    }
+
+    if (type === types.RESIGN && from === leaderId) {
+      lastHeartbeatAt = 0;
+      setLeader(null);
+      campaign();
+    }
+  };
+
+  const start = () => {
+    if (running) return;
+    running = true;
+    lastHeartbeatAt = 0;
+    campaign();
+    watchdogTimer = setInterval(checkLeader, config.heartbeatIntervalMs);
+  };
+
+  const stop = () => {
+    if (!running) return;
+    running = false;
+    if (leaderId === source) send(types.RESIGN);
+    cancelCampaign();
+    stopHeartbeat();
+    if (watchdogTimer) {
+      clearInterval(watchdogTimer);
+      watchdogTimer = null;
+    }
+    setLeader(null);
+  };
+
+  return { start, stop, handleMessage, getLeaderId: () => leaderId };
+};
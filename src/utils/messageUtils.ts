@@ -1,4 +1,4 @@
-import { InternalMessage } from '../types/types';
+import { InternalMessage, MessageValidator } from '../types/types';
 
 const INTERNAL_PREFIX = '__INTERNAL__';
 const SECRET = 'react-broadcast-sync';
@@ -15,6 +15,18 @@ export const generateMessageId = (source: string, timestamp: number) => {
   return btoa(raw).replace(/=+$/, '');
 };
 
+// Base64 for binary data such as ciphertext and signatures, safe for JSON-based transports
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const base64ToBytes = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
 // Check if a message is valid
 export const isValidMessage = (message: any): boolean => {
   return Boolean(
@@ -27,6 +39,21 @@ export const isValidMessage = (message: any): boolean => {
   );
 };
 
+// Run a payload validator; returns the rejection reason, or undefined if the payload is accepted.
+// Predicates reject by returning false or throwing, schemas only by throwing: `false` is a
+// valid parse result of e.g. a boolean schema.
+export const getValidationError = (validator: MessageValidator, payload: unknown): unknown => {
+  try {
+    if (typeof validator !== 'function') {
+      validator.parse(payload);
+      return undefined;
+    }
+    return validator(payload) === false ? 'Validator returned false' : undefined;
+  } catch (e) {
+    return e ?? 'Validator threw';
+  }
+};
+
 // Check if a message has expired
 export const isMessageExpired = (message: { expirationDate?: number }): boolean => {
   return message.expirationDate ? message.expirationDate < Date.now() : false;
@@ -37,7 +64,12 @@ export const createMessage = (
   type: string,
   content: any,
   source: string,
-  options: { expirationDate?: number; expirationDuration?: number } = {}
+  options: {
+    expirationDate?: number;
+    expirationDuration?: number;
+    seq?: number;
+    ack?: boolean;
+  } = {}
 ): any => {
   const timestamp = Date.now();
   return {
@@ -49,6 +81,8 @@ export const createMessage = (
     expirationDate:
       options.expirationDate ??
       (options.expirationDuration ? timestamp + options.expirationDuration : undefined),
+    ...(options.seq !== undefined && { seq: options.seq }),
+    ...(options.ack && { ack: true }),
   };
 };
 
@@ -0,0 +1,102 @@
+import { BroadcastMessage, MessageGap } from '../types/types';
+
+interface SourceSequence {
+  /** Sequence number expected next from the source; null until the starting point is known */
+  next: number | null;
+  /** Early arrivals, keyed by sequence number */
+  buffer: Map<number, BroadcastMessage>;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export interface SequencerOptions {
+  /** How long an early message waits for the ones before it */
+  windowMs: number;
+  /** Called with each message once every message before it was delivered or given up on */
+  deliver: (message: BroadcastMessage) => void;
+  onGap: (gap: MessageGap) => void;
+  /** Called for messages that arrive after their gap was already reported */
+  onLate: (message: BroadcastMessage) => void;
+}
+
+export interface Sequencer {
+  /** Accept a message carrying a `seq`; delivers it and any buffered successors when in order */
+  push: (message: BroadcastMessage) => void;
+  /** Drop all buffered messages and per-source state */
+  reset: () => void;
+}
+
+/**
+ * Reorder messages per source by their `seq`.
+ *
+ * A source first heard with `seq` 1 is in order from the start. A source that was already
+ * sending before this tab listened has no known starting point, so its first messages
+ * wait one window and the lowest one received becomes the start; that wait is not a gap.
+ */
+export const createSequencer = ({
+  windowMs,
+  deliver,
+  onGap,
+  onLate,
+}: SequencerOptions): Sequencer => {
+  const sources = new Map<string, SourceSequence>();
+
+  const drain = (state: SourceSequence) => {
+    if (state.next === null) return;
+    let message = state.buffer.get(state.next);
+    while (message) {
+      state.buffer.delete(state.next);
+      state.next++;
+      deliver(message);
+      message = state.buffer.get(state.next);
+    }
+  };
+
+  const schedule = (source: string, state: SourceSequence) => {
+    if (state.timer) clearTimeout(state.timer);
+    state.timer = null;
+    if (state.buffer.size === 0) return;
+
+    state.timer = setTimeout(() => {
+      state.timer = null;
+      const resumeAt = Math.min(...state.buffer.keys());
+      if (state.next !== null) onGap({ source, from: state.next, to: resumeAt - 1 });
+      state.next = resumeAt;
+      drain(state);
+      schedule(source, state);
+    }, windowMs);
+  };
+
+  return {
+    push: message => {
+      const seq = message.seq as number;
+      let state = sources.get(message.source);
+      // A source that starts over from 1 was reloaded or remounted under the same name
+      if (state && seq === 1 && state.next !== null && state.next > 1) {
+        if (state.timer) clearTimeout(state.timer);
+        state = undefined;
+      }
+      if (!state) {
+        state = { next: null, buffer: new Map(), timer: null };
+        sources.set(message.source, state);
+      }
+      if (seq === 1) state.next = 1;
+
+      if (state.next !== null && seq < state.next) {
+        onLate(message);
+        return;
+      }
+      const expected = state.next;
+      state.buffer.set(seq, message);
+      drain(state);
+      // Each gap gets one window: restart it only when the gap closed or moved on
+      if (state.next !== expected || !state.timer) schedule(message.source, state);
+    },
+
+    reset: () => {
+      sources.forEach(state => {
+        if (state.timer) clearTimeout(state.timer);
+      });
+      sources.clear();
+    },
+  };
+};
@@ -0,0 +1,245 @@
+import {
+  BroadcastMessage,
+  PersistedMessages,
+  PersistenceAdapter,
+  PersistenceOption,
+} from '../types/types';
+import { generateSourceName, isMessageExpired, isValidMessage } from './messageUtils';
+
+const HISTORY_KEY_PREFIX = '__react-broadcast-sync__:history';
+const TAB_ID_KEY = '__react-broadcast-sync__:tab';
+const INDEXEDDB_NAME = 'react-broadcast-sync';
+const INDEXEDDB_STORE = 'history';
+
+export const getHistoryKey = (channelName: string, tabId?: string): string =>
+  tabId ? `${HISTORY_KEY_PREFIX}:${channelName}:${tabId}` : `${HISTORY_KEY_PREFIX}:${channelName}`;
+
+export const getWebStorage = (kind: 'sessionStorage' | 'localStorage'): Storage | null => {
+  try {
+    return typeof window !== 'undefined' ? window[kind] : null;
+  } catch {
+    // Accessing web storage throws in some sandboxed iframes and privacy modes
+    return null;
+  }
+};
+
+/** Histories of other tabs in shared storage that were not saved for this long are removed */
+export const TAB_HISTORY_TTL = 7 * 24 * 60 * 60 * 1000;
+
+/** A tab saves its history at least this often, even unchanged, so it is never taken as closed */
+export const HISTORY_REFRESH_INTERVAL = 60 * 60 * 1000;
+
+interface StoredTabId {
+  id: string;
+  /** Page that uses the id; cleared when the page is hidden, e.g. for a reload */
+  owner: string | null;
+}
+
+// Identifies this page load, so a duplicated tab can tell the id it copied is still in use
+const pageToken = generateSourceName();
+let fallbackTabId: string | null = null;
+
+const readTabId = (storage: Storage): StoredTabId | null => {
+  try {
+    const stored = JSON.parse(storage.getItem(TAB_ID_KEY) ?? 'null');
+    return stored && typeof stored.id === 'string' ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeTabId = (storage: Storage, stored: StoredTabId) => {
+  storage.setItem(TAB_ID_KEY, JSON.stringify(stored));
+};
+
+let lifecycleWatched = false;
+
+// Hand the id back while the page is hidden, so the reload that follows can claim it, and
+// take it back when the page is restored from the bfcache
+const watchPageLifecycle = (storage: Storage) => {
+  if (lifecycleWatched) return;
+  lifecycleWatched = true;
+  window.addEventListener('pagehide', () => {
+    const stored = readTabId(storage);
+    if (stored?.owner === pageToken) writeTabId(storage, { id: stored.id, owner: null });
+  });
+  window.addEventListener('pageshow', event => {
+    const stored = readTabId(storage);
+    if (event.persisted && stored?.owner === null) {
+      writeTabId(storage, { id: stored.id, owner: pageToken });
+    }
+  });
+};
+
+/**
+ * Id of the current tab. It lives in sessionStorage, so a reload keeps it and other tabs
+ * don't see it. A duplicated tab copies sessionStorage, id included, while the original
+ * page still owns it, so it starts with an id of its own.
+ */
+export const getTabId = (): string => {
+  const storage = getWebStorage('sessionStorage');
+  try {
+    if (storage) {
+      const stored = readTabId(storage);
+      if (stored?.owner === pageToken) return stored.id;
+      const id = stored && stored.owner === null ? stored.id : generateSourceName();
+      writeTabId(storage, { id, owner: pageToken });
+      watchPageLifecycle(storage);
+      return id;
+    }
+  } catch {
+    // Fall through to an id that lasts as long as the page
+  }
+  fallbackTabId ??= generateSourceName();
+  return fallbackTabId;
+};
+
+/**
+ * Storage key of a channel's history. localStorage and IndexedDB are shared by every tab
+ * of the origin, so their key includes the tab id; otherwise tabs would overwrite each
+ * other's history and restore each other's sent messages.
+ */
+export const resolveHistoryKey = (channelName: string, persistence: PersistenceOption): string =>
+  persistence === 'local-storage' || persistence === 'indexeddb'
+    ? getHistoryKey(channelName, getTabId())
+    : getHistoryKey(channelName);
+
+/** A built-in adapter, which can also list and remove the histories it holds */
+export interface HistoryStorage extends PersistenceAdapter {
+  keys: () => string[] | Promise<string[]>;
+  remove: (key: string) => void | Promise<void>;
+}
+
+// Adapter over sessionStorage or localStorage; history is stored as JSON
+export const createWebStoragePersistence = (storage: Storage): HistoryStorage => ({
+  load: key => {
+    const raw = storage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  },
+  save: (key, data) => storage.setItem(key, JSON.stringify(data)),
+  keys: () => Array.from({ length: storage.length }, (_, i) => storage.key(i) as string),
+  remove: key => storage.removeItem(key),
+});
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Adapter over IndexedDB. Values are stored with structured clone, so unlike the web
+ * storage adapters it keeps `Date`, `Map` and similar payloads intact.
+ */
+export const createIndexedDBPersistence = (factory: IDBFactory = indexedDB): HistoryStorage => {
+  let database: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!database) {
+      const request = factory.open(INDEXEDDB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(INDEXEDDB_STORE);
+      database = requestToPromise(request);
+    }
+    return database;
+  };
+
+  const getStore = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(INDEXEDDB_STORE, mode).objectStore(INDEXEDDB_STORE);
+
+  return {
+    load: async key => (await requestToPromise((await getStore('readonly')).get(key))) ?? null,
+    save: async (key, data) => {
+      await requestToPromise((await getStore('readwrite')).put(data, key));
+    },
+    keys: async () =>
+      (await requestToPromise((await getStore('readonly')).getAllKeys())).filter(
+        (key): key is string => typeof key === 'string'
+      ),
+    remove: async key => {
+      await requestToPromise((await getStore('readwrite')).delete(key));
+    },
+  };
+};
+
+/**
+ * Resolve the `persistence` option to an adapter, or null when the requested storage
+ * is not available in the current environment.
+ */
+export const resolvePersistence = (persistence: PersistenceOption): PersistenceAdapter | null => {
+  if (typeof persistence === 'object') return persistence;
+
+  switch (persistence) {
+    case 'session-storage': {
+      const storage = getWebStorage('sessionStorage');
+      return storage ? createWebStoragePersistence(storage) : null;
+    }
+    case 'local-storage': {
+      const storage = getWebStorage('localStorage');
+      return storage ? createWebStoragePersistence(storage) : null;
+    }
+    case 'indexeddb':
+      return typeof indexedDB !== 'undefined' ? createIndexedDBPersistence(indexedDB) : null;
+    default:
+      return null;
+  }
+};
+
+const prunedChannels = new Set<string>();
+
+/**
+ * Remove the histories that closed tabs left in localStorage or IndexedDB: those of the
+ * channel that no tab has saved for TAB_HISTORY_TTL. Runs once per channel and page, and
+ * keeps the current tab's own history.
+ */
+export const pruneTabHistories = async (
+  persistence: PersistenceOption,
+  channelName: string,
+  ownKey: string
+): Promise<void> => {
+  const localStorage = persistence === 'local-storage' ? getWebStorage('localStorage') : null;
+  const storage: HistoryStorage | null = localStorage
+    ? createWebStoragePersistence(localStorage)
+    : persistence === 'indexeddb' && typeof indexedDB !== 'undefined'
+      ? createIndexedDBPersistence(indexedDB)
+      : null;
+  if (!storage || prunedChannels.has(channelName)) return;
+  prunedChannels.add(channelName);
+
+  const prefix = `${getHistoryKey(channelName)}:`;
+  const now = Date.now();
+  const keys = (await storage.keys()).filter(key => key.startsWith(prefix) && key !== ownKey);
+  await Promise.all(
+    keys.map(async key => {
+      const savedAt = (await storage.load(key))?.savedAt;
+      if (typeof savedAt !== 'number' || now - savedAt > TAB_HISTORY_TTL) {
+        await storage.remove(key);
+      }
+    })
+  );
+};
+
+// Drop malformed and expired entries read back from storage
+export const sanitizeHistory = (data: unknown): PersistedMessages => {
+  const history = (data ?? {}) as Partial<PersistedMessages>;
+  const keep = (list: unknown) =>
+    Array.isArray(list)
+      ? list.filter(
+          (message): message is BroadcastMessage =>
+            isValidMessage(message) && !isMessageExpired(message)
+        )
+      : [];
+  return { messages: keep(history.messages), sentMessages: keep(history.sentMessages) };
+};
+
+/**
+ * Put persisted messages in front of the ones already in state, skipping ids that are
+ * already present. With keepLatestMessage only the newest message is kept.
+ */
+export const mergeHistory = <T extends BroadcastMessage>(
+  persisted: BroadcastMessage[],
+  current: T[],
+  keepLatestMessage = false
+): T[] => {
+  const currentIds = new Set(current.map(message => message.id));
+  const merged = [...(persisted.filter(message => !currentIds.has(message.id)) as T[]), ...current];
+  return keepLatestMessage ? merged.slice(-1) : merged;
+};
@@ -0,0 +1,85 @@
+import { BroadcastMessage, BroadcastTransport, TransportOption } from '../types/types';
+import { createMessage, isValidMessage } from './messageUtils';
+import { resolveTransport } from './transport';
+import { acquireChannel } from './channelRegistry';
+import { debug } from './debug';
+
+export interface ProtocolChannelConfig {
+  /** Resolved channel name (including namespace) */
+  channelName: string;
+  transport?: TransportOption;
+  source: string;
+  /** Internal message types this protocol sends and receives */
+  types: string[];
+  /** Action name used in debug logs */
+  action: string;
+  onMessage: (message: BroadcastMessage) => void;
+}
+
+export interface ProtocolChannel {
+  send: (type: string, content?: unknown) => void;
+  close: () => void;
+}
+
+/**
+ * Join a channel for a protocol built on internal message types (leader election,
+ * presence). Only valid messages of the given types from other sources are delivered.
+ * Returns null, after logging, when the transport is unavailable.
+ *
+ * The channel is shared with the other instances of the tab, so they hear each other
+ * right away, even over transports that never deliver within the tab.
+ */
+export const openProtocolChannel = (config: ProtocolChannelConfig): ProtocolChannel | null => {
+  const { channelName, source, types, action, onMessage } = config;
+
+  const openTransport = resolveTransport(config.transport);
+  if (!openTransport) {
+    debug.error({
+      action,
+      channelName,
+      originalError:
+        'BroadcastChannel is not supported in this browser. Please check browser compatibility.',
+    });
+    return null;
+  }
+
+  let channel: BroadcastTransport;
+  try {
+    // Protocol messages are not deduplicated, so the instance records nothing to sweep
+    channel = acquireChannel(channelName, openTransport, () => 0).transport;
+  } catch (e) {
+    debug.error({ action, channelName, originalError: e instanceof Error ? e : String(e) });
+    return null;
+  }
+
+  const unsubscribe = channel.subscribe(data => {
+    const batch = Array.isArray(data) ? data : [data];
+    batch.forEach(message => {
+      if (isValidMessage(message) && types.includes(message.type) && message.source !== source) {
+        onMessage(message);
+      }
+    });
+  });
+
+  return {
+    send: (type, content = null) => {
+      const fail = (e: unknown) => {
+        debug.error({
+          action,
+          channelName,
+          type,
+          originalError: e instanceof Error ? e : String(e),
+        });
+      };
+      try {
+        Promise.resolve(channel.postMessage(createMessage(type, content, source))).catch(fail);
+      } catch (e) {
+        fail(e);
+      }
+    },
+    close: () => {
+      unsubscribe();
+      channel.close();
+    },
+  };
+};
@@ -0,0 +1,272 @@
+import {
+  BroadcastMessage,
+  BroadcastTransport,
+  MessageRelay,
+  MessageRelayOptions,
+} from '../types/types';
+import { debug } from './debug';
+import {
+  getInternalMessageType,
+  isInternalType,
+  isMessageExpired,
+  isValidMessage,
+} from './messageUtils';
+import { createIndexedDBPersistence, getWebStorage, sanitizeHistory } from './persistence';
+import { createBroadcastChannelTransport, isBroadcastChannelSupported } from './transport';
+
+const RELAY_KEY = '__react-broadcast-sync__:relay';
+
+type TransportListener = (data: unknown) => void;
+
+// Messages exchanged between pages and the service worker, outside the channel. A page
+// asking for stored messages lists the ids it already received; the answer lists the ids
+// still stored, so the page can forget the rest
+type RelayEnvelope =
+  | { [RELAY_KEY]: 'store'; channelName: string; messages: BroadcastMessage[] }
+  | { [RELAY_KEY]: 'forward'; channelName: string; received: string[] }
+  | {
+      [RELAY_KEY]: 'messages';
+      channelName: string;
+      messages: BroadcastMessage[];
+      stored: string[];
+    };
+
+// The parts of a service worker's `message` event the relay uses; the DOM lib has no
+// service worker types
+interface RelayMessageEvent {
+  data: unknown;
+  source?: { postMessage: (data: unknown) => void } | null;
+  waitUntil?: (promise: Promise<unknown>) => void;
+}
+
+const isRelayEnvelope = (data: unknown, channelName: string): data is RelayEnvelope =>
+  Boolean(
+    data &&
+      typeof data === 'object' &&
+      RELAY_KEY in data &&
+      (data as { channelName?: unknown }).channelName === channelName
+  );
+
+const getRelayKey = (channelName: string): string => `${RELAY_KEY}:${channelName}`;
+
+const toMessages = (data: unknown): BroadcastMessage[] =>
+  (Array.isArray(data) ? data : [data]).filter(isValidMessage);
+
+const toIds = (data: unknown): string[] =>
+  Array.isArray(data) ? data.filter((id): id is string => typeof id === 'string') : [];
+
+// Ids of stored messages the tab has received. They live in sessionStorage, so a reload
+// doesn't get the same messages again while a newly opened tab does
+const createReceivedIds = (channelName: string) => {
+  const storage = getWebStorage('sessionStorage');
+  const key = `${getRelayKey(channelName)}:received`;
+  let ids: string[] = [];
+  try {
+    ids = toIds(JSON.parse(storage?.getItem(key) ?? '[]'));
+  } catch {
+    // Start over when the stored list can't be read
+  }
+  return {
+    get: () => ids,
+    update: (received: BroadcastMessage[], stored: string[]) => {
+      const known = new Set([...ids, ...received.map(message => message.id)]);
+      ids = stored.filter(id => known.has(id));
+      try {
+        storage?.setItem(key, JSON.stringify(ids));
+      } catch {
+        // Without storage the ids last as long as the page
+      }
+    },
+  };
+};
+
+/**
+ * Wrap a transport so outgoing messages are also handed to the service worker, and
+ * messages it stored are received as if they came over the channel.
+ *
+ * Sits below encryption and signing, so the worker stores the same envelopes the channel
+ * carries and stored messages are decrypted and verified like live ones. Without a
+ * service worker container the transport is returned unchanged.
+ */
+export const createRelayedTransport = (
+  transport: BroadcastTransport,
+  channelName: string
+): BroadcastTransport => {
+  const container = typeof navigator !== 'undefined' ? navigator.serviceWorker : undefined;
+  if (!container) return transport;
+
+  const listeners = new Set<TransportListener>();
+  const receivedIds = createReceivedIds(channelName);
+  const send = (envelope: RelayEnvelope) => {
+    try {
+      container.controller?.postMessage(envelope);
+    } catch (e) {
+      debug.error({
+        action: 'storeAndForward',
+        channelName,
+        originalError: e instanceof Error ? e : String(e),
+      });
+    }
+  };
+  const handleRelayMessage = (event: MessageEvent) => {
+    const { data } = event;
+    if (!isRelayEnvelope(data, channelName) || data[RELAY_KEY] !== 'messages') return;
+    receivedIds.update(toMessages(data.messages), toIds(data.stored));
+    listeners.forEach(listener => listener(data.messages));
+  };
+  container.addEventListener('message', handleRelayMessage);
+  // Messages from the worker are held until the page starts listening for them
+  container.startMessages?.();
+
+  return {
+    postMessage: data => {
+      transport.postMessage(data);
+      const messages = toMessages(data).filter(message => !isInternalType(message.type));
+      if (messages.length > 0) send({ [RELAY_KEY]: 'store', channelName, messages });
+    },
+    subscribe: listener => {
+      const unsubscribe = transport.subscribe(listener);
+      listeners.add(listener);
+      // Ask for stored messages once someone is listening for them
+      if (listeners.size === 1) {
+        send({ [RELAY_KEY]: 'forward', channelName, received: receivedIds.get() });
+      }
+      return () => {
+        listeners.delete(listener);
+        unsubscribe();
+      };
+    },
+    close: () => {
+      listeners.clear();
+      container.removeEventListener('message', handleRelayMessage);
+      transport.close();
+    },
+  };
+};
+
+/**
+ * Store and forward messages from a service worker.
+ *
+ * Listens on the channel and for messages handed over by pages using `storeAndForward`,
+ * keeps the ones that have not expired and delivers them to every page of the worker's
+ * scope that opens, once per tab. Call it at the top level of the service worker script:
+ *
+ * ```ts
+ * createMessageRelay({ channelName: 'notifications' });
+ * ```
+ */
+export const createMessageRelay = ({
+  channelName,
+  namespace = '',
+  types = [],
+  maxMessages = 100,
+  storage,
+}: MessageRelayOptions): MessageRelay => {
+  const resolvedChannelName = namespace ? `${channelName}-${namespace}` : channelName;
+  const clearType = getInternalMessageType('CLEAR_SENT_MESSAGES', channelName, namespace);
+  const adapter = storage ?? createIndexedDBPersistence();
+  const key = getRelayKey(resolvedChannelName);
+
+  // Reads and writes run one at a time, so concurrent stores can't overwrite each other
+  let queue: Promise<unknown> = Promise.resolve();
+  const enqueue = <T>(task: () => T | Promise<T>): Promise<T> => {
+    const run = queue.then(task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+  const load = async () => sanitizeHistory(await adapter.load(key)).messages;
+
+  const report = (e: unknown) => {
+    debug.error({
+      action: 'messageRelay',
+      channelName: resolvedChannelName,
+      originalError: e instanceof Error ? e : String(e),
+    });
+  };
+
+  const store = (data: unknown) =>
+    enqueue(async () => {
+      const incoming = toMessages(data);
+      if (incoming.length === 0) return;
+
+      let messages = await load();
+      let changed = false;
+      incoming.forEach(message => {
+        // Messages a tab clears with `sync` must not be forwarded afterwards. Encrypted
+        // clears can't be read, so they remove everything stored from that tab
+        if (message.type === clearType) {
+          const { ids = [], types: clearedTypes = [] } = message.message || {};
+          const remaining = messages.filter(
+            stored =>
+              stored.source !== message.source ||
+              !(
+                (!Array.isArray(ids) || ids.length === 0 || ids.includes(stored.id)) &&
+                (!Array.isArray(clearedTypes) ||
+                  clearedTypes.length === 0 ||
+                  clearedTypes.includes(stored.type))
+              )
+          );
+          changed = changed || remaining.length !== messages.length;
+          messages = remaining;
+          return;
+        }
+        if (isInternalType(message.type) || isMessageExpired(message)) return;
+        if (types.length > 0 && !types.includes(message.type)) return;
+        if (messages.some(stored => stored.id === message.id)) return;
+        messages.push(message);
+        changed = true;
+      });
+      if (!changed) return;
+
+      messages.sort((a, b) => a.timestamp - b.timestamp);
+      await adapter.save(key, { messages: messages.slice(-maxMessages), sentMessages: [] });
+    });
+
+  // Stored messages are kept until they expire and handed to every page that asks, except
+  // the ones it reports as already received. All instances listening in that page get them
+  const forward = (target: { postMessage: (data: unknown) => void }, received: string[]) =>
+    enqueue(async () => {
+      const messages = await load();
+      const unseen = messages.filter(message => !received.includes(message.id));
+      if (unseen.length === 0) return;
+      target.postMessage({
+        [RELAY_KEY]: 'messages',
+        channelName: resolvedChannelName,
+        messages: unseen,
+        stored: messages.map(message => message.id),
+      });
+    });
+
+  const handleClientMessage = (event: RelayMessageEvent) => {
+    const { data, source } = event;
+    if (!isRelayEnvelope(data, resolvedChannelName)) return;
+
+    let task: Promise<void> | null = null;
+    if (data[RELAY_KEY] === 'store') task = store(data.messages);
+    if (data[RELAY_KEY] === 'forward' && source) task = forward(source, toIds(data.received));
+    // Keep the worker alive until the messages are stored or sent
+    if (task) event.waitUntil?.(task.catch(report));
+  };
+
+  const scope = globalThis as unknown as {
+    addEventListener: (type: 'message', listener: (event: RelayMessageEvent) => void) => void;
+    removeEventListener: (type: 'message', listener: (event: RelayMessageEvent) => void) => void;
+  };
+  scope.addEventListener('message', handleClientMessage);
+
+  // Also catch messages from pages that don't hand them over, while the worker is running
+  const channel = isBroadcastChannelSupported()
+    ? createBroadcastChannelTransport(resolvedChannelName)
+    : null;
+  channel?.subscribe(data => {
+    store(data).catch(report);
+  });
+
+  return {
+    getMessages: () => enqueue(load),
+    close: () => {
+      scope.removeEventListener('message', handleClientMessage);
+      channel?.close();
+    },
+  };
+};
@@ -0,0 +1,188 @@
+import {
+  BroadcastTransport,
+  MessageSerializer,
+  SerializableClass,
+  SerializerOptions,
+} from '../types/types';
+import { createTransformedTransport, TransformHandlers } from './transport';
+
+// Marks an encoded value; plain objects that use the key themselves are wrapped as 'Object'
+const TYPE_KEY = '__rbs_type';
+
+type Encoded = { [TYPE_KEY]: string; name?: string; value: unknown };
+
+const isEncoded = (value: unknown): value is Encoded =>
+  Boolean(value && typeof value === 'object' && TYPE_KEY in value);
+
+const mapValues = (value: object, fn: (entry: unknown) => unknown): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  Object.keys(value).forEach(key => {
+    result[key] = fn((value as Record<string, unknown>)[key]);
+  });
+  return result;
+};
+
+/**
+ * Create a serializer that turns Date, Map, Set, BigInt and instances of the given classes
+ * into JSON-safe tagged values, and restores them on arrival.
+ *
+ * ```ts
+ * useBroadcastChannel('orders', { serializer: createSerializer({ classes: { Money } }) });
+ * ```
+ */
+export const createSerializer = ({ classes = {} }: SerializerOptions = {}): MessageSerializer => {
+  const names = new Map<SerializableClass, string>();
+  Object.keys(classes).forEach(name => names.set(classes[name], name));
+
+  const encode = (value: unknown, ancestors: Set<object>): unknown => {
+    if (typeof value === 'bigint') return { [TYPE_KEY]: 'BigInt', value: value.toString() };
+    if (value === null || typeof value !== 'object') return value;
+    if (ancestors.has(value)) throw new TypeError('Cannot serialize a circular reference');
+
+    ancestors.add(value);
+    const inner = (entry: unknown) => encode(entry, ancestors);
+    let encoded: unknown;
+    if (value instanceof Date) {
+      const time = value.getTime();
+      encoded = { [TYPE_KEY]: 'Date', value: Number.isNaN(time) ? null : time };
+    } else if (value instanceof Map) {
+      encoded = {
+        [TYPE_KEY]: 'Map',
+        value: Array.from(value, ([key, entry]) => [inner(key), inner(entry)]),
+      };
+    } else if (value instanceof Set) {
+      encoded = { [TYPE_KEY]: 'Set', value: Array.from(value, inner) };
+    } else if (Array.isArray(value)) {
+      encoded = value.map(inner);
+    } else if (names.has(value.constructor as SerializableClass)) {
+      const { toJSON } = value as { toJSON?: () => unknown };
+      encoded = {
+        [TYPE_KEY]: 'Class',
+        name: names.get(value.constructor as SerializableClass),
+        value: inner(typeof toJSON === 'function' ? toJSON.call(value) : { ...value }),
+      };
+    } else {
+      const fields = mapValues(value, inner);
+      encoded = TYPE_KEY in value ? { [TYPE_KEY]: 'Object', value: fields } : fields;
+    }
+    ancestors.delete(value);
+    return encoded;
+  };
+
+  const decode = (value: unknown): unknown => {
+    if (value === null || typeof value !== 'object') return value;
+    if (Array.isArray(value)) return value.map(decode);
+    if (!isEncoded(value)) return mapValues(value, decode);
+
+    switch (value[TYPE_KEY]) {
+      case 'BigInt':
+        return BigInt(value.value as string);
+      case 'Date':
+        return new Date(value.value === null ? NaN : (value.value as number));
+      case 'Map':
+        return new Map(
+          (value.value as [unknown, unknown][]).map(([key, entry]) => [decode(key), decode(entry)])
+        );
+      case 'Set':
+        return new Set((value.value as unknown[]).map(decode));
+      case 'Object':
+        return mapValues(value.value as object, decode);
+      case 'Class': {
+        const Class = value.name !== undefined ? classes[value.name] : undefined;
+        if (!Class) throw new Error(`Unknown class "${value.name}"`);
+        const data = decode(value.value);
+        // fromJSON accepts whatever the class's toJSON produced
+        return Class.fromJSON
+          ? (Class.fromJSON as (data: unknown) => object)(data)
+          : Object.assign(Object.create(Class.prototype), data);
+      }
+      default:
+        throw new Error(`Unknown serialized type "${value[TYPE_KEY]}"`);
+    }
+  };
+
+  return { encode: value => encode(value, new Set()), decode };
+};
+
+const getUncloneableReason = (value: unknown): string | null => {
+  if (typeof value === 'function') return 'a function';
+  if (typeof value === 'symbol') return 'a symbol';
+  if (value === null || typeof value !== 'object') return null;
+  if (typeof Node !== 'undefined' && value instanceof Node) return 'a DOM node';
+  if (value instanceof Promise) return 'a Promise';
+  if (value instanceof WeakMap || value instanceof WeakSet) return 'a weak collection';
+  return null;
+};
+
+const isIdentifier = (key: string) => /^[A-Za-z_$][\w$]*$/.test(key);
+
+/**
+ * Find the first value structured clone can't copy, with its path from `root`:
+ * `{ path: 'content.user.save', reason: 'a function' }`. Returns null when the whole
+ * value can be sent.
+ */
+export const findUncloneable = (
+  value: unknown,
+  root = 'content'
+): { path: string; reason: string } | null => {
+  const visited = new Set<object>();
+  const visit = (current: unknown, path: string): { path: string; reason: string } | null => {
+    const reason = getUncloneableReason(current);
+    if (reason) return { path, reason };
+    if (current === null || typeof current !== 'object' || visited.has(current)) return null;
+    visited.add(current);
+
+    if (current instanceof Map) {
+      let index = 0;
+      for (const [key, entry] of current) {
+        const found =
+          visit(key, `${path}.keys()[${index}]`) ?? visit(entry, `${path}.get(${String(key)})`);
+        if (found) return found;
+        index++;
+      }
+      return null;
+    }
+    if (current instanceof Set) {
+      let index = 0;
+      for (const entry of current) {
+        const found = visit(entry, `${path}.values()[${index}]`);
+        if (found) return found;
+        index++;
+      }
+      return null;
+    }
+    if (current instanceof Date || current instanceof RegExp || ArrayBuffer.isView(current)) {
+      return null;
+    }
+    for (const key of Object.keys(current)) {
+      const keyPath = Array.isArray(current)
+        ? `${path}[${key}]`
+        : isIdentifier(key)
+          ? `${path}.${key}`
+          : `${path}[${JSON.stringify(key)}]`;
+      const found = visit((current as Record<string, unknown>)[key], keyPath);
+      if (found) return found;
+    }
+    return null;
+  };
+  return visit(value, root);
+};
+
+/**
+ * Wrap a transport so that the `message` content of everything sent over it, including
+ * batches and internal protocol messages, is encoded with the serializer and decoded on
+ * arrival. Messages that fail to decode are dropped and reported through `onReject`.
+ */
+export const createSerializedTransport = (
+  transport: BroadcastTransport,
+  serializer: MessageSerializer,
+  handlers: TransformHandlers
+): BroadcastTransport =>
+  createTransformedTransport(
+    transport,
+    {
+      encode: async message => ({ ...message, message: serializer.encode(message.message) }),
+      decode: async message => ({ ...message, message: serializer.decode(message.message) }),
+    },
+    handlers
+  );
@@ -0,0 +1,87 @@
+import { BroadcastMessage, BroadcastTransport, SigningOptions } from '../types/types';
+import { base64ToBytes, bytesToBase64 } from './messageUtils';
+import { createTransformedTransport, TransformHandlers } from './transport';
+
+type SignedMessage = BroadcastMessage & { signature?: unknown };
+
+// The payload is covered through its JSON form, like every other field of the envelope
+const getSignedData = (message: BroadcastMessage): Uint8Array =>
+  new TextEncoder().encode(
+    JSON.stringify([
+      message.id,
+      message.type,
+      message.source,
+      message.timestamp,
+      message.expirationDate ?? null,
+      message.seq ?? null,
+      message.ack ?? null,
+      message.message ?? null,
+    ])
+  );
+
+export const signMessage = async (
+  message: BroadcastMessage,
+  key: CryptoKey
+): Promise<BroadcastMessage> => {
+  const signature = await crypto.subtle.sign('HMAC', key, getSignedData(message));
+  return { ...message, signature: bytesToBase64(new Uint8Array(signature)) } as BroadcastMessage;
+};
+
+const DEFAULT_MAX_AGE_MS = 60 * 1000;
+
+/**
+ * Check the HMAC attached by signMessage and return the message without it. Rejects when
+ * the message is unsigned, the signature does not match (wrong key, tampered message) or
+ * its timestamp is more than maxAgeMs away from now, so captured messages can't be
+ * replayed once the deduplication window has passed.
+ */
+export const verifyMessage = async (
+  message: BroadcastMessage,
+  key: CryptoKey,
+  maxAgeMs = DEFAULT_MAX_AGE_MS
+): Promise<BroadcastMessage> => {
+  const { signature, ...unsigned } = message as SignedMessage;
+  if (typeof signature !== 'string') {
+    throw new Error('Message is not signed');
+  }
+
+  let valid = false;
+  try {
+    valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      base64ToBytes(signature),
+      getSignedData(unsigned)
+    );
+  } catch {
+    // Malformed signatures and unusable keys are treated like a mismatch
+  }
+  if (!valid) {
+    throw new Error('Message signature is invalid');
+  }
+  if (Math.abs(Date.now() - unsigned.timestamp) > maxAgeMs) {
+    throw new Error('Message timestamp is outside the accepted window');
+  }
+  return unsigned;
+};
+
+/**
+ * Wrap a transport so that everything sent over it, including internal messages such as
+ * ping or clear requests, carries an HMAC. Incoming messages without a valid signature
+ * are dropped and reported through `onReject` before the hook sees them.
+ */
+export const createSignedTransport = (
+  transport: BroadcastTransport,
+  { key, maxAgeMs }: SigningOptions,
+  handlers: TransformHandlers
+): BroadcastTransport => {
+  const keyPromise = Promise.resolve(key);
+  return createTransformedTransport(
+    transport,
+    {
+      encode: async message => signMessage(message, await keyPromise),
+      decode: async message => verifyMessage(message, await keyPromise, maxAgeMs),
+    },
+    handlers
+  );
+};
@@ -77,7 +77,7 @@ if (typeof document !== 'undefined') {
 }
 
 export interface ChannelInitProps {
-  entry: 'hook' | 'provider';
+  entry: 'client' | 'worker' | 'hook' | 'provider';
   options_used: string[];
   onmessage_shape: 'none' | 'function' | 'map';
   batching_enabled: boolean;
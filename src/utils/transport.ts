@@ -0,0 +1,203 @@
+import {
+  BroadcastMessage,
+  BroadcastTransport,
+  TransportFactory,
+  TransportOption,
+} from '../types/types';
+import { generateRandomPart, isValidMessage } from './messageUtils';
+
+const STORAGE_KEY_PREFIX = '__react-broadcast-sync__';
+
+type TransportListener = (data: unknown) => void;
+
+export const isBroadcastChannelSupported = (): boolean => typeof BroadcastChannel !== 'undefined';
+
+export const isStorageSupported = (): boolean => {
+  try {
+    return (
+      typeof window !== 'undefined' &&
+      typeof window.addEventListener === 'function' &&
+      Boolean(window.localStorage)
+    );
+  } catch {
+    // Accessing localStorage throws in some sandboxed iframes and privacy modes
+    return false;
+  }
+};
+
+// Transport over an open BroadcastChannel, which it closes on close()
+export const wrapBroadcastChannel = (bc: BroadcastChannel): BroadcastTransport => {
+  const listeners = new Set<TransportListener>();
+  const handleMessage = (event: MessageEvent) => {
+    listeners.forEach(listener => listener(event.data));
+  };
+  bc.addEventListener('message', handleMessage);
+
+  return {
+    postMessage: data => bc.postMessage(data),
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close: () => {
+      listeners.clear();
+      bc.removeEventListener('message', handleMessage);
+      bc.close();
+    },
+  };
+};
+
+// Transport backed by the native BroadcastChannel API
+export const createBroadcastChannelTransport: TransportFactory = channelName =>
+  wrapBroadcastChannel(new BroadcastChannel(channelName));
+
+/**
+ * Transport backed by `storage` events, for environments without BroadcastChannel
+ * (embedded webviews, older Safari).
+ *
+ * Each post writes a JSON envelope to localStorage and removes it immediately; other
+ * documents of the same origin receive the write as a `storage` event. Like
+ * BroadcastChannel, the posting document never receives its own messages. Payloads go
+ * through JSON instead of structured clone, so values such as `Date` or `Map` are not
+ * preserved.
+ */
+export const createStorageTransport: TransportFactory = channelName => {
+  const key = `${STORAGE_KEY_PREFIX}:${channelName}`;
+  const listeners = new Set<TransportListener>();
+  const handleStorage = (event: StorageEvent) => {
+    // The removal that follows every write surfaces as an event with a null newValue
+    if (event.key !== key || !event.newValue) return;
+    let envelope: { data?: unknown };
+    try {
+      envelope = JSON.parse(event.newValue);
+    } catch {
+      return;
+    }
+    listeners.forEach(listener => listener(envelope.data));
+  };
+  window.addEventListener('storage', handleStorage);
+
+  return {
+    postMessage: data => {
+      // The nonce guarantees a storage event even when the same payload is posted twice
+      window.localStorage.setItem(key, JSON.stringify({ data, nonce: generateRandomPart() }));
+      window.localStorage.removeItem(key);
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close: () => {
+      listeners.clear();
+      window.removeEventListener('storage', handleStorage);
+    },
+  };
+};
+
+/**
+ * Resolve the `transport` option to a factory, or null when the requested transport
+ * is not available in the current environment.
+ */
+export const resolveTransport = (
+  transport: TransportOption = 'broadcast-channel'
+): TransportFactory | null => {
+  if (typeof transport === 'function') return transport;
+
+  switch (transport) {
+    case 'broadcast-channel':
+      return isBroadcastChannelSupported() ? createBroadcastChannelTransport : null;
+    case 'storage':
+      return isStorageSupported() ? createStorageTransport : null;
+    case 'auto':
+      if (isBroadcastChannelSupported()) return createBroadcastChannelTransport;
+      return isStorageSupported() ? createStorageTransport : null;
+    default:
+      return null;
+  }
+};
+
+export interface MessageTransform {
+  /** Applied to every outgoing message; a rejection drops the whole send */
+  encode: (message: BroadcastMessage) => Promise<BroadcastMessage>;
+  /** Applied to every incoming message; a rejection drops only that message */
+  decode: (message: BroadcastMessage) => Promise<BroadcastMessage>;
+}
+
+export interface TransformHandlers {
+  /** Called when outgoing data could not be encoded; nothing is sent */
+  onSendError: (error: unknown, data: unknown) => void;
+  /** Called for each incoming message that could not be decoded */
+  onReject: (message: BroadcastMessage, reason: Error) => void;
+}
+
+/**
+ * Wrap a transport with an asynchronous per-message transform (encryption, signing).
+ * Batches are transformed message by message and keep their shape. Sends and
+ * deliveries are queued so their order is kept.
+ *
+ * Encoding failures go to `onSendError`. When the wrapped transport fails to send the
+ * encoded data, the promise returned by `postMessage` rejects instead, so callers can
+ * tell the two apart; this also carries failures out of nested transformed transports.
+ */
+export const createTransformedTransport = (
+  transport: BroadcastTransport,
+  transform: MessageTransform,
+  handlers: TransformHandlers
+): BroadcastTransport => {
+  let sendQueue: Promise<void> = Promise.resolve();
+  let closed = false;
+
+  return {
+    postMessage: data => {
+      if (closed) return;
+      const batch = (Array.isArray(data) ? data : [data]) as BroadcastMessage[];
+      const sent = sendQueue.then(async () => {
+        let encoded: BroadcastMessage[];
+        try {
+          encoded = await Promise.all(batch.map(transform.encode));
+        } catch (e) {
+          handlers.onSendError(e, data);
+          return;
+        }
+        await transport.postMessage(Array.isArray(data) ? encoded : encoded[0]);
+      });
+      sendQueue = sent.catch(() => undefined);
+      return sent;
+    },
+    subscribe: listener => {
+      let active = true;
+      let receiveQueue: Promise<void> = Promise.resolve();
+      const unsubscribe = transport.subscribe(data => {
+        const batch = Array.isArray(data) ? data : [data];
+        receiveQueue = receiveQueue.then(async () => {
+          if (!active || closed) return;
+          const decoded: BroadcastMessage[] = [];
+          for (const message of batch) {
+            if (!isValidMessage(message)) continue;
+            try {
+              decoded.push(await transform.decode(message));
+            } catch (e) {
+              handlers.onReject(message, e instanceof Error ? e : new Error(String(e)));
+            }
+          }
+          if (!active || closed || decoded.length === 0) return;
+          listener(Array.isArray(data) ? decoded : decoded[0]);
+        });
+      });
+      return () => {
+        active = false;
+        unsubscribe();
+      };
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      // Let queued sends (e.g. the batch flushed on unmount) go out before closing
+      sendQueue.then(() => transport.close());
+    },
+  };
+};
@@ -0,0 +1,79 @@
+/**
+ * Worker-safe entry point: `react-broadcast-sync/worker`
+ *
+ * Nothing here imports React or touches `document`, so it can be loaded in a Web Worker,
+ * a SharedWorker or any other context without a DOM. The client speaks the same wire
+ * format as the hooks, so a worker can post to and receive from the same channels and
+ * answers their `ping()`.
+ */
+import {
+  BroadcastClient,
+  BroadcastOptions,
+  DefaultMessageMap,
+  MessageMap,
+  NoInferMap,
+} from './types/types';
+import { createBroadcastClient } from './utils/broadcastClient';
+import { generateRandomPart } from './utils/messageUtils';
+
+/**
+ * Create a broadcast client for use inside a worker
+ *
+ * Same as createBroadcastClient, except that the generated source name starts with
+ * `worker-` instead of `tab-`, so workers are easy to tell apart in `ping()` results.
+ */
+export const createWorkerBroadcastClient = <TMap extends MessageMap = DefaultMessageMap>(
+  channelName: string,
+  options: BroadcastOptions<NoInferMap<TMap>> = {}
+): BroadcastClient<TMap> =>
+  createBroadcastClient<TMap>(channelName, options, {
+    entry: 'worker',
+    source: options.sourceName || `worker-${generateRandomPart()}`,
+  });
+
+export { createBroadcastClient } from './utils/broadcastClient';
+export { BroadcastRequestError, BroadcastAckError } from './utils/errors';
+export { createBroadcastChannelTransport } from './utils/transport';
+export { createIndexedDBPersistence } from './utils/persistence';
+export { createMessageRelay } from './utils/relay';
+export { createSerializer } from './utils/serializer';
+
+export type {
+  BroadcastOptions,
+  BroadcastClient,
+  BroadcastClientEvents,
+  BroadcastClientSnapshot,
+  RequestOptions,
+  RequestHandler,
+  BroadcastRequestErrorCode,
+  BroadcastAckErrorCode,
+  BroadcastError,
+  BroadcastErrorCode,
+  ErrorCallback,
+  ErrorRetention,
+  SendMessageOptions,
+  SendRetryOptions,
+  SendPolicy,
+  AckSendMessageOptions,
+  BroadcastMessage,
+  MessageMap,
+  MessageType,
+  TypedBroadcastMessage,
+  MessageCallback,
+  OnMessageMap,
+  BroadcastTransport,
+  TransportFactory,
+  TransportOption,
+  PersistenceAdapter,
+  PersistenceOption,
+  PersistedMessages,
+  EncryptionOptions,
+  SigningOptions,
+  MessageGap,
+  GapCallback,
+  MessageRelayOptions,
+  MessageRelay,
+  MessageSerializer,
+  SerializerOptions,
+  SerializableClass,
+} from './types/types';